@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getPublicJWKS } from "@/lib/jwt-keys";
+import { createRequestLogger } from "@/lib/logger";
+
+// Public keys for verifying our JWTs, including keys kept around for rotation
+export async function GET() {
+  const log = createRequestLogger("well-known/jwks");
+  try {
+    const jwks = await getPublicJWKS();
+    return NextResponse.json(jwks, {
+      headers: { "Cache-Control": "public, max-age=300" },
+    });
+  } catch (error) {
+    log.error("Failed to load JWKS", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -2,6 +2,11 @@
 import React, { useEffect, useState, useRef } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import AuditLogViewer from "@/components/audit-log-viewer";
+import RoleManager from "@/components/role-manager";
+import EmailOutboxViewer from "@/components/email-outbox-viewer";
+import SignInSettingsPanel from "@/components/sign-in-settings-panel";
+import { can } from "@/lib/permissions";
 
 interface User {
   id: string;
@@ -12,15 +17,59 @@ interface User {
   plan: string | null;
   createdAt: string;
   lastLogin?: string;
-  status: "active" | "inactive";
+  status: "active" | "inactive" | "suspended";
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null;
+  isTOTPEnabled?: boolean;
+  authProvider?: string;
+  customRoleId?: string | null;
+  customRole?: { id: string; name: string } | null;
 }
 
+// Server-side query for GET /api/admin/users
+interface UserQuery {
+  q: string;
+  role: string;
+  status: string;
+  plan: string;
+  twoFactor: string;
+  provider: string;
+  sort: "createdAt" | "email" | "name" | "company" | "plan" | "role" | "status";
+  order: "asc" | "desc";
+}
+
+interface UserSummary {
+  total: number;
+  active: number;
+  inactive: number;
+  admins: number;
+}
+
+const USERS_PAGE_SIZE = 25;
+
+const DEFAULT_USER_QUERY: UserQuery = {
+  q: "",
+  role: "",
+  status: "",
+  plan: "",
+  twoFactor: "",
+  provider: "",
+  sort: "createdAt",
+  order: "desc",
+};
+
 // Current admin user shape from /api/me
 interface CurrentUser {
   id: string;
   name: string;
   email: string;
   role: "admin" | "user";
+  permissions: string[];
+}
+
+interface CustomRoleOption {
+  id: string;
+  name: string;
 }
 
 export default function AdminDashboard() {
@@ -29,10 +78,23 @@ export default function AdminDashboard() {
   const [users, setUsers] = useState<User[]>([]);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [isLoadingUsers, setIsLoadingUsers] = useState(false);
+  const [userQuery, setUserQuery] = useState<UserQuery>(DEFAULT_USER_QUERY);
+  const [searchInput, setSearchInput] = useState("");
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalUsers, setTotalUsers] = useState(0);
+  const [userSummary, setUserSummary] = useState<UserSummary | null>(null);
   const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
   const [loadingUser, setLoadingUser] = useState(true);
   const [userError, setUserError] = useState<string | null>(null);
+  const [showRoleManager, setShowRoleManager] = useState(false);
+  const [showEmailOutbox, setShowEmailOutbox] = useState(false);
+  const [showSignInSettings, setShowSignInSettings] = useState(false);
+  // null hides the audit panel; a userId narrows it to that user's timeline
+  const [auditView, setAuditView] = useState<{ userId?: string; userLabel?: string } | null>(null);
+  const [customRoles, setCustomRoles] = useState<CustomRoleOption[]>([]);
   const usersSectionRef = useRef<HTMLDivElement>(null);
+  const auditSectionRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
 
   // Load current admin user from session
@@ -55,9 +117,10 @@ export default function AdminDashboard() {
           name: data.user.name || "",
           email: data.user.email,
           role: roleLower === "admin" ? "admin" : "user",
+          permissions: data.user.permissions ?? [],
         };
-        // If not admin, redirect to home as a safeguard
-        if (mapped.role !== "admin") {
+        // Without dashboard access, redirect to home as a safeguard
+        if (!can(mapped, "admin:access")) {
           router.push("/");
           return;
         }
@@ -74,6 +137,15 @@ export default function AdminDashboard() {
     };
   }, [router]);
 
+  // Custom roles for the edit form's role picker
+  useEffect(() => {
+    if (!can(currentUser, "roles:manage")) return;
+    fetch("/api/admin/roles", { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setCustomRoles(data.roles))
+      .catch(() => {});
+  }, [currentUser]);
+
   const handleLogout = async () => {
     try {
       await fetch("/api/auth/logout", { method: "POST" });
@@ -89,12 +161,17 @@ export default function AdminDashboard() {
     }, 500);
   };
 
-  const handleViewUsers = async () => {
-    setShowUsers(true);
+  const loadUsers = async (query: UserQuery, cursor: string | null) => {
     setIsLoadingUsers(true);
 
     try {
-      const response = await fetch("/api/admin/users");
+      const params = new URLSearchParams({ limit: String(USERS_PAGE_SIZE) });
+      for (const [key, value] of Object.entries(query)) {
+        if (value) params.set(key, value);
+      }
+      if (cursor) params.set("cursor", cursor);
+
+      const response = await fetch(`/api/admin/users?${params}`);
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -109,12 +186,68 @@ export default function AdminDashboard() {
       }
 
       setUsers(data.users);
+      setNextCursor(data.nextCursor);
+      setTotalUsers(data.total);
+      setUserSummary(data.summary);
     } catch (error) {
       console.error("Error fetching users:", error);
       alert("Failed to load users. Please check the console for details.");
     } finally {
       setIsLoadingUsers(false);
     }
+  };
+
+  // Any change to search, filters or sorting starts again from the first page
+  useEffect(() => {
+    if (!showUsers) return;
+    setPageCursors([null]);
+    loadUsers(userQuery, null);
+  }, [showUsers, userQuery]);
+
+  // Debounce the search box so we don't query on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const q = searchInput.trim();
+      setUserQuery((current) => (current.q === q ? current : { ...current, q }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const updateUserQuery = (changes: Partial<UserQuery>) => {
+    setUserQuery((current) => ({ ...current, ...changes }));
+  };
+
+  const handleSort = (field: UserQuery["sort"]) => {
+    setUserQuery((current) => ({
+      ...current,
+      sort: field,
+      order:
+        current.sort === field && current.order === "desc" ? "asc" : "desc",
+    }));
+  };
+
+  const handleNextPage = () => {
+    if (!nextCursor) return;
+    setPageCursors([...pageCursors, nextCursor]);
+    loadUsers(userQuery, nextCursor);
+  };
+
+  const handlePreviousPage = () => {
+    if (pageCursors.length <= 1) return;
+    const previous = pageCursors.slice(0, -1);
+    setPageCursors(previous);
+    loadUsers(userQuery, previous[previous.length - 1]);
+  };
+
+  const sortIndicator = (field: UserQuery["sort"]) =>
+    userQuery.sort === field ? (userQuery.order === "asc" ? " ▲" : " ▼") : "";
+
+  const handleViewUsers = async () => {
+    if (showUsers) {
+      await loadUsers(userQuery, pageCursors[pageCursors.length - 1]);
+    } else {
+      setShowUsers(true);
+    }
 
     setTimeout(() => {
       usersSectionRef.current?.scrollIntoView({
@@ -124,6 +257,17 @@ export default function AdminDashboard() {
     }, 100);
   };
 
+  const handleViewAudit = (view: { userId?: string; userLabel?: string }) => {
+    setAuditView(view);
+
+    setTimeout(() => {
+      auditSectionRef.current?.scrollIntoView({
+        behavior: "smooth",
+        block: "start",
+      });
+    }, 100);
+  };
+
   const handleDeleteUser = async (userId: string) => {
     if (
       !confirm(
@@ -132,22 +276,77 @@ export default function AdminDashboard() {
     ) {
       return;
     }
-    console.log("Delete user:", userId);
-    setUsers(users.filter((user) => user.id !== userId));
+
+    try {
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setUsers(users.filter((user) => user.id !== userId));
+      setTotalUsers((count) => Math.max(0, count - 1));
+    } catch (error: any) {
+      console.error("Error deleting user:", error);
+      alert(error.message || "Failed to delete user. Please try again.");
+    }
   };
 
-  const handleBanUser = async (userId: string) => {
-    console.log("Toggle user status:", userId);
-    setUsers(
-      users.map((user) =>
-        user.id === userId
-          ? {
-              ...user,
-              status: user.status === "active" ? "inactive" : "active",
-            }
-          : user
-      )
-    );
+  // PATCH a user and replace the row with the server's copy
+  const updateUser = async (
+    userId: string,
+    changes: Record<string, unknown>
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setUsers((current) =>
+        current.map((user) => (user.id === userId ? data.user : user))
+      );
+      return true;
+    } catch (error: any) {
+      console.error("Error updating user:", error);
+      alert(error.message || "Failed to update user. Please try again.");
+      return false;
+    }
+  };
+
+  const handleBanUser = async (user: User) => {
+    await updateUser(user.id, {
+      status: user.status === "active" ? "SUSPENDED" : "ACTIVE",
+    });
+  };
+
+  const handleUnlockUser = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/unlock`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setUsers(
+        users.map((user) =>
+          user.id === userId
+            ? { ...user, lockedUntil: null, failedLoginAttempts: 0 }
+            : user
+        )
+      );
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      alert("Failed to unlock user. Please try again.");
+    }
   };
 
   const handleEditUser = (user: User) => {
@@ -157,11 +356,19 @@ export default function AdminDashboard() {
   const handleSaveEdit = async () => {
     if (!editingUser) return;
 
-    console.log("Save user edits:", editingUser);
-    setUsers(
-      users.map((user) => (user.id === editingUser.id ? editingUser : user))
-    );
-    setEditingUser(null);
+    const saved = await updateUser(editingUser.id, {
+      name: editingUser.name,
+      company: editingUser.company,
+      plan: editingUser.plan,
+      // Role fields are only sent when the admin may change them
+      ...(can(currentUser, "roles:manage") && {
+        role: editingUser.role.toUpperCase(),
+        customRoleId: editingUser.customRoleId ?? null,
+      }),
+    });
+    if (saved) {
+      setEditingUser(null);
+    }
   };
 
   const handleCancelEdit = () => {
@@ -169,12 +376,10 @@ export default function AdminDashboard() {
   };
 
   const handlePromoteToAdmin = async (userId: string) => {
-    console.log("Promote user to admin:", userId);
-    setUsers(
-      users.map((user) =>
-        user.id === userId ? { ...user, role: "admin" } : user
-      )
-    );
+    if (!confirm("Grant this user admin access?")) {
+      return;
+    }
+    await updateUser(userId, { role: "ADMIN" });
   };
 
   const getStatusColor = (status: string) => {
@@ -183,13 +388,15 @@ export default function AdminDashboard() {
         return "bg-green-500/20 text-green-300";
       case "inactive":
         return "bg-red-500/20 text-red-300";
+      case "suspended":
+        return "bg-orange-500/20 text-orange-300";
       default:
         return "bg-gray-500/20 text-gray-300";
     }
   };
 
   const getRoleColor = (role: string) => {
-    return role === "admin"
+    return role.toLowerCase() === "admin"
       ? "bg-purple-500/20 text-purple-300"
       : "bg-cyan-500/20 text-cyan-300";
   };
@@ -331,7 +538,7 @@ export default function AdminDashboard() {
               >
                 {isLoadingUsers
                   ? "Loading..."
-                  : `View All Users (${users.length})`}
+                  : `View All Users (${userSummary?.total ?? users.length})`}
               </button>
               <button
                 onClick={() => console.log("Create New User clicked")}
@@ -340,8 +547,9 @@ export default function AdminDashboard() {
                 Create New User
               </button>
               <button
-                onClick={() => console.log("Manage Permissions clicked")}
-                className="w-full py-2 px-4 bg-purple-500/20 hover:bg-purple-500/30 rounded-lg transition-all text-left"
+                onClick={() => setShowRoleManager(!showRoleManager)}
+                disabled={!can(currentUser, "roles:manage")}
+                className="w-full py-2 px-4 bg-purple-500/20 hover:bg-purple-500/30 rounded-lg transition-all text-left disabled:opacity-50"
               >
                 Manage Permissions
               </button>
@@ -357,23 +565,25 @@ export default function AdminDashboard() {
               <div className="flex justify-between">
                 <span className="text-gray-400">Active Users:</span>
                 <span className="text-green-400">
-                  {users.filter((u) => u.status === "active").length}
+                  {userSummary?.active ?? "-"}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Total Users:</span>
-                <span className="text-blue-400">{users.length}</span>
+                <span className="text-blue-400">
+                  {userSummary?.total ?? "-"}
+                </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Admins:</span>
                 <span className="text-purple-400">
-                  {users.filter((u) => u.role === "admin").length}
+                  {userSummary?.admins ?? "-"}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-400">Inactive:</span>
                 <span className="text-red-400">
-                  {users.filter((u) => u.status === "inactive").length}
+                  {userSummary?.inactive ?? "-"}
                 </span>
               </div>
             </div>
@@ -386,8 +596,9 @@ export default function AdminDashboard() {
             </h3>
             <div className="space-y-3">
               <button
-                onClick={() => console.log("View Access Logs clicked")}
-                className="w-full py-2 px-4 bg-red-500/20 hover:bg-red-500/30 rounded-lg transition-all text-left"
+                onClick={() => (auditView ? setAuditView(null) : handleViewAudit({}))}
+                disabled={!can(currentUser, "audit:read")}
+                className="w-full py-2 px-4 bg-red-500/20 hover:bg-red-500/30 rounded-lg transition-all text-left disabled:opacity-50"
               >
                 View Access Logs
               </button>
@@ -439,6 +650,20 @@ export default function AdminDashboard() {
               ⚙️ System Config
             </h3>
             <div className="space-y-3">
+              <button
+                onClick={() => setShowEmailOutbox(!showEmailOutbox)}
+                disabled={!can(currentUser, "emails:read")}
+                className="w-full py-2 px-4 bg-yellow-500/20 hover:bg-yellow-500/30 rounded-lg transition-all text-left disabled:opacity-50"
+              >
+                Email Delivery
+              </button>
+              <button
+                onClick={() => setShowSignInSettings(!showSignInSettings)}
+                disabled={!can(currentUser, "settings:manage")}
+                className="w-full py-2 px-4 bg-yellow-500/20 hover:bg-yellow-500/30 rounded-lg transition-all text-left disabled:opacity-50"
+              >
+                Sign-in Settings
+              </button>
               <button
                 onClick={() => console.log("JWT Settings clicked")}
                 className="w-full py-2 px-4 bg-yellow-500/20 hover:bg-yellow-500/30 rounded-lg transition-all text-left"
@@ -461,6 +686,45 @@ export default function AdminDashboard() {
           </div>
         </div>
 
+        {/* Audit Log Section */}
+        {auditView && (
+          <div ref={auditSectionRef} className="mt-16">
+            <AuditLogViewer
+              key={auditView.userId || "all"}
+              userId={auditView.userId}
+              userLabel={auditView.userLabel}
+              onClose={() => setAuditView(null)}
+            />
+          </div>
+        )}
+
+        {/* Email Delivery Section */}
+        {showEmailOutbox && (
+          <div className="mt-16">
+            <EmailOutboxViewer
+              canRetry={can(currentUser, "emails:retry")}
+              onClose={() => setShowEmailOutbox(false)}
+            />
+          </div>
+        )}
+
+        {/* Sign-in Settings Section */}
+        {showSignInSettings && (
+          <div className="mt-16">
+            <SignInSettingsPanel onClose={() => setShowSignInSettings(false)} />
+          </div>
+        )}
+
+        {/* Roles & Permissions Section */}
+        {showRoleManager && (
+          <div className="mt-16">
+            <RoleManager
+              onClose={() => setShowRoleManager(false)}
+              onRolesChanged={setCustomRoles}
+            />
+          </div>
+        )}
+
         {/* Users Management Section */}
         {showUsers && (
           <div ref={usersSectionRef} className="mt-16">
@@ -470,10 +734,70 @@ export default function AdminDashboard() {
                   👥 User Management - Live Data
                 </h2>
                 <div className="text-sm text-gray-400">
-                  Total: {users.length} users
+                  {totalUsers} matching users
                 </div>
               </div>
 
+              {/* Search & Filters */}
+              <div className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-6">
+                <input
+                  type="search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search email, name or company"
+                  className="md:col-span-2 px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white text-sm"
+                />
+                <select
+                  value={userQuery.role}
+                  onChange={(e) => updateUserQuery({ role: e.target.value })}
+                  className="px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white text-sm"
+                >
+                  <option value="">All roles</option>
+                  <option value="USER">User</option>
+                  <option value="ADMIN">Admin</option>
+                </select>
+                <select
+                  value={userQuery.status}
+                  onChange={(e) => updateUserQuery({ status: e.target.value })}
+                  className="px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white text-sm"
+                >
+                  <option value="">All statuses</option>
+                  <option value="ACTIVE">Active</option>
+                  <option value="INACTIVE">Inactive</option>
+                  <option value="SUSPENDED">Suspended</option>
+                </select>
+                <select
+                  value={userQuery.twoFactor}
+                  onChange={(e) =>
+                    updateUserQuery({ twoFactor: e.target.value })
+                  }
+                  className="px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white text-sm"
+                >
+                  <option value="">2FA: any</option>
+                  <option value="true">2FA enabled</option>
+                  <option value="false">2FA disabled</option>
+                </select>
+                <select
+                  value={userQuery.provider}
+                  onChange={(e) =>
+                    updateUserQuery({ provider: e.target.value })
+                  }
+                  className="px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white text-sm"
+                >
+                  <option value="">All sign-in methods</option>
+                  <option value="PASSWORD">Password</option>
+                  <option value="GOOGLE">Google</option>
+                  <option value="GITHUB">GitHub</option>
+                </select>
+                <input
+                  type="text"
+                  value={userQuery.plan}
+                  onChange={(e) => updateUserQuery({ plan: e.target.value })}
+                  placeholder="Plan"
+                  className="px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white text-sm"
+                />
+              </div>
+
               {/* Loading State */}
               {isLoadingUsers && (
                 <div className="text-center py-8">
@@ -515,13 +839,8 @@ export default function AdminDashboard() {
                         <input
                           type="email"
                           value={editingUser.email}
-                          onChange={(e) =>
-                            setEditingUser({
-                              ...editingUser,
-                              email: e.target.value,
-                            })
-                          }
-                          className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white"
+                          disabled
+                          className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-gray-400 cursor-not-allowed"
                         />
                       </div>
                       <div>
@@ -529,19 +848,44 @@ export default function AdminDashboard() {
                           Role
                         </label>
                         <select
-                          value={editingUser.role}
+                          value={editingUser.role.toUpperCase()}
+                          disabled={!can(currentUser, "roles:manage")}
                           onChange={(e) =>
                             setEditingUser({
                               ...editingUser,
                               role: e.target.value,
                             })
                           }
-                          className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white"
+                          className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white disabled:text-gray-400 disabled:cursor-not-allowed"
                         >
                           <option value="USER">User</option>
-                          <option value="admin">Admin</option>
+                          <option value="ADMIN">Admin</option>
                         </select>
                       </div>
+                      {can(currentUser, "roles:manage") && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-300 mb-2">
+                            Custom Role
+                          </label>
+                          <select
+                            value={editingUser.customRoleId || ""}
+                            onChange={(e) =>
+                              setEditingUser({
+                                ...editingUser,
+                                customRoleId: e.target.value || null,
+                              })
+                            }
+                            className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white"
+                          >
+                            <option value="">None</option>
+                            {customRoles.map((role) => (
+                              <option key={role.id} value={role.id}>
+                                {role.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
                       <div>
                         <label className="block text-sm font-medium text-gray-300 mb-2">
                           Company
@@ -558,6 +902,22 @@ export default function AdminDashboard() {
                           className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white"
                         />
                       </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          Plan
+                        </label>
+                        <input
+                          type="text"
+                          value={editingUser.plan || ""}
+                          onChange={(e) =>
+                            setEditingUser({
+                              ...editingUser,
+                              plan: e.target.value,
+                            })
+                          }
+                          className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white"
+                        />
+                      </div>
                       <div className="flex space-x-3 pt-4">
                         <button
                           onClick={handleCancelEdit}
@@ -584,23 +944,47 @@ export default function AdminDashboard() {
                     <table className="w-full">
                       <thead>
                         <tr className="border-b border-white/10">
-                          <th className="text-left py-3 px-4 text-gray-400">
+                          <th
+                            onClick={() => handleSort("email")}
+                            className="text-left py-3 px-4 text-gray-400 cursor-pointer select-none hover:text-gray-200"
+                          >
                             User
+                            {sortIndicator("email")}
                           </th>
-                          <th className="text-left py-3 px-4 text-gray-400">
+                          <th
+                            onClick={() => handleSort("role")}
+                            className="text-left py-3 px-4 text-gray-400 cursor-pointer select-none hover:text-gray-200"
+                          >
                             Role
+                            {sortIndicator("role")}
                           </th>
-                          <th className="text-left py-3 px-4 text-gray-400">
+                          <th
+                            onClick={() => handleSort("status")}
+                            className="text-left py-3 px-4 text-gray-400 cursor-pointer select-none hover:text-gray-200"
+                          >
                             Status
+                            {sortIndicator("status")}
                           </th>
-                          <th className="text-left py-3 px-4 text-gray-400">
+                          <th
+                            onClick={() => handleSort("company")}
+                            className="text-left py-3 px-4 text-gray-400 cursor-pointer select-none hover:text-gray-200"
+                          >
                             Company
+                            {sortIndicator("company")}
                           </th>
-                          <th className="text-left py-3 px-4 text-gray-400">
+                          <th
+                            onClick={() => handleSort("plan")}
+                            className="text-left py-3 px-4 text-gray-400 cursor-pointer select-none hover:text-gray-200"
+                          >
                             Plan
+                            {sortIndicator("plan")}
                           </th>
-                          <th className="text-left py-3 px-4 text-gray-400">
+                          <th
+                            onClick={() => handleSort("createdAt")}
+                            className="text-left py-3 px-4 text-gray-400 cursor-pointer select-none hover:text-gray-200"
+                          >
                             Joined
+                            {sortIndicator("createdAt")}
                           </th>
                           <th className="text-left py-3 px-4 text-gray-400">
                             Actions
@@ -631,6 +1015,11 @@ export default function AdminDashboard() {
                               >
                                 {user.role}
                               </span>
+                              {user.customRole && (
+                                <span className="ml-2 px-2 py-1 rounded-full text-xs bg-blue-500/20 text-blue-300">
+                                  {user.customRole.name}
+                                </span>
+                              )}
                             </td>
                             <td className="py-3 px-4">
                               <span
@@ -640,6 +1029,16 @@ export default function AdminDashboard() {
                               >
                                 {user.status}
                               </span>
+                              {user.lockedUntil && (
+                                <span
+                                  className="ml-2 px-2 py-1 rounded-full text-xs bg-orange-500/20 text-orange-300"
+                                  title={`Locked until ${new Date(
+                                    user.lockedUntil
+                                  ).toLocaleString()}`}
+                                >
+                                  locked
+                                </span>
+                              )}
                             </td>
                             <td className="py-3 px-4 text-sm text-gray-300">
                               {user.company || "N/A"}
@@ -652,25 +1051,51 @@ export default function AdminDashboard() {
                             </td>
                             <td className="py-3 px-4">
                               <div className="flex space-x-2">
-                                <button
-                                  onClick={() => handleEditUser(user)}
-                                  className="px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 rounded text-blue-300 text-xs transition-all"
-                                >
-                                  Edit
-                                </button>
-                                <button
-                                  onClick={() => handleBanUser(user.id)}
-                                  className={`px-3 py-1 rounded text-xs transition-all ${
-                                    user.status === "inactive"
-                                      ? "bg-green-500/20 hover:bg-green-500/30 text-green-300"
-                                      : "bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-300"
-                                  }`}
-                                >
-                                  {user.status === "inactive"
-                                    ? "Activate"
-                                    : "Deactivate"}
-                                </button>
-                                {user.role !== "admin" && (
+                                {can(currentUser, "users:write") && (
+                                  <>
+                                    <button
+                                      onClick={() => handleEditUser(user)}
+                                      className="px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 rounded text-blue-300 text-xs transition-all"
+                                    >
+                                      Edit
+                                    </button>
+                                    <button
+                                      onClick={() => handleBanUser(user)}
+                                      className={`px-3 py-1 rounded text-xs transition-all ${
+                                        user.status !== "active"
+                                          ? "bg-green-500/20 hover:bg-green-500/30 text-green-300"
+                                          : "bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-300"
+                                      }`}
+                                    >
+                                      {user.status !== "active"
+                                        ? "Activate"
+                                        : "Suspend"}
+                                    </button>
+                                  </>
+                                )}
+                                {can(currentUser, "audit:read") && (
+                                  <button
+                                    onClick={() =>
+                                      handleViewAudit({
+                                        userId: user.id,
+                                        userLabel: user.name || user.email,
+                                      })
+                                    }
+                                    className="px-3 py-1 bg-green-500/20 hover:bg-green-500/30 rounded text-green-300 text-xs transition-all"
+                                  >
+                                    Activity
+                                  </button>
+                                )}
+                                {user.lockedUntil && can(currentUser, "users:unlock") && (
+                                  <button
+                                    onClick={() => handleUnlockUser(user.id)}
+                                    className="px-3 py-1 bg-orange-500/20 hover:bg-orange-500/30 rounded text-orange-300 text-xs transition-all"
+                                  >
+                                    Unlock
+                                  </button>
+                                )}
+                                {user.role.toLowerCase() !== "admin" &&
+                                  can(currentUser, "roles:manage") && (
                                   <button
                                     onClick={() =>
                                       handlePromoteToAdmin(user.id)
@@ -680,12 +1105,14 @@ export default function AdminDashboard() {
                                     Promote
                                   </button>
                                 )}
-                                <button
-                                  onClick={() => handleDeleteUser(user.id)}
-                                  className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 rounded text-red-300 text-xs transition-all"
-                                >
-                                  Delete
-                                </button>
+                                {can(currentUser, "users:delete") && (
+                                  <button
+                                    onClick={() => handleDeleteUser(user.id)}
+                                    className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 rounded text-red-300 text-xs transition-all"
+                                  >
+                                    Delete
+                                  </button>
+                                )}
                               </div>
                             </td>
                           </tr>
@@ -694,29 +1121,55 @@ export default function AdminDashboard() {
                     </table>
                   </div>
 
+                  {/* Pagination */}
+                  <div className="flex justify-between items-center mt-4 text-sm">
+                    <span className="text-gray-400">
+                      Page {pageCursors.length} of{" "}
+                      {Math.max(1, Math.ceil(totalUsers / USERS_PAGE_SIZE))}
+                    </span>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={handlePreviousPage}
+                        disabled={pageCursors.length <= 1}
+                        className="px-3 py-1 bg-purple-500/20 hover:bg-purple-500/30 rounded text-purple-300 transition-all disabled:opacity-40"
+                      >
+                        Previous
+                      </button>
+                      <button
+                        onClick={handleNextPage}
+                        disabled={!nextCursor}
+                        className="px-3 py-1 bg-purple-500/20 hover:bg-purple-500/30 rounded text-purple-300 transition-all disabled:opacity-40"
+                      >
+                        Next
+                      </button>
+                    </div>
+                  </div>
+
                   {/* Quick Stats */}
                   <div className="grid grid-cols-4 gap-4 mt-6 pt-6 border-t border-white/10">
                     <div className="text-center">
                       <div className="text-2xl font-bold text-green-400">
-                        {users.filter((u) => u.status === "active").length}
+                        {userSummary?.active ?? 0}
                       </div>
                       <div className="text-sm text-gray-400">Active</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-red-400">
-                        {users.filter((u) => u.status === "inactive").length}
+                        {userSummary?.inactive ?? 0}
                       </div>
                       <div className="text-sm text-gray-400">Inactive</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-purple-400">
-                        {users.filter((u) => u.role === "ADMIN").length}
+                        {userSummary?.admins ?? 0}
                       </div>
                       <div className="text-sm text-gray-400">Admins</div>
                     </div>
                     <div className="text-center">
                       <div className="text-2xl font-bold text-blue-400">
-                        {users.filter((u) => u.role === "USER").length}
+                        {userSummary
+                          ? userSummary.total - userSummary.admins
+                          : 0}
                       </div>
                       <div className="text-sm text-gray-400">Users</div>
                     </div>
@@ -729,7 +1182,9 @@ export default function AdminDashboard() {
                 <div className="text-center py-8">
                   <div className="text-gray-400 text-lg">No users found</div>
                   <p className="text-gray-500 mt-2">
-                    There are no registered users in the database.
+                    {totalUsers === 0 && userSummary?.total
+                      ? "No users match the current search and filters."
+                      : "There are no registered users in the database."}
                   </p>
                 </div>
               )}
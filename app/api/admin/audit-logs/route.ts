@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { withRouteGuard } from "@/lib/route-guard";
+import {
+  AUDIT_LOG_EXPORT_LIMIT,
+  AUDIT_LOG_SELECT,
+  parseAuditLogQuery,
+  toAuditLogCsv,
+  toAuditLogView,
+} from "@/lib/audit-logs";
+
+export const GET = withRouteGuard({ permission: "audit:read" }, async (request: NextRequest, _context, admin) => {
+  const log = createRequestLogger("admin/audit-logs");
+  try {
+    const parsed = parseAuditLogQuery(request.nextUrl.searchParams);
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+    const { where, order, limit, cursor, format } = parsed.query;
+
+    if (format) {
+      const rows = await prisma.auditLog.findMany({
+        where,
+        select: AUDIT_LOG_SELECT,
+        orderBy: [{ timestamp: order }, { id: order }],
+        take: AUDIT_LOG_EXPORT_LIMIT,
+      });
+      const entries = rows.map(toAuditLogView);
+
+      // Exports leave the system, so they are audited themselves
+      await recordAuditEvent(request, {
+        action: "AUDIT_LOG_EXPORTED",
+        userId: admin.userId,
+        details: {
+          format,
+          rows: entries.length,
+          filters: Object.fromEntries(request.nextUrl.searchParams),
+        },
+      });
+
+      const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+      const body = format === "csv" ? toAuditLogCsv(entries) : JSON.stringify(entries, null, 2);
+      return new NextResponse(body, {
+        headers: {
+          "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    // Fetch one extra row to know whether another page follows
+    const [rows, total, actions] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        select: AUDIT_LOG_SELECT,
+        orderBy: [{ timestamp: order }, { id: order }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      }),
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        distinct: ["action"],
+        select: { action: true },
+        orderBy: { action: "asc" },
+      }),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
+    return NextResponse.json({
+      success: true,
+      logs: page.map(toAuditLogView),
+      total,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      // Every action ever recorded, for the viewer's filter list
+      actions: actions.map((a) => a.action),
+    });
+  } catch (error) {
+    log.error("Failed to fetch audit logs", { error: String(error) });
+    return NextResponse.json({ success: false, error: "Failed to fetch audit logs" }, { status: 500 });
+  }
+});
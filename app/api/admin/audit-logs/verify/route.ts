@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { AuditChain } from "@/lib/audit-chain";
+import { recordAuditEvent } from "@/lib/audit";
+import { createRequestLogger } from "@/lib/logger";
+import { withRouteGuard } from "@/lib/route-guard";
+
+// Walks the audit hash chain and reports the first broken link, if any
+export const GET = withRouteGuard({ permission: "audit:read" }, async (request, _context, admin) => {
+  const log = createRequestLogger("admin/audit-logs/verify");
+  try {
+    const result = await AuditChain.verify();
+
+    await recordAuditEvent(request, {
+      action: "AUDIT_CHAIN_VERIFIED",
+      userId: admin.userId,
+      details: result.valid
+        ? { valid: true, checked: result.checked }
+        : {
+            valid: false,
+            checked: result.checked,
+            brokenAtSeq: result.brokenAt.seq,
+            reason: result.brokenAt.reason,
+          },
+    });
+
+    if (!result.valid) {
+      log.error("Audit chain verification failed", { ...result.brokenAt });
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    log.error("Audit chain verification error", { error: String(error) });
+    return NextResponse.json({ success: false, error: "Failed to verify audit log" }, { status: 500 });
+  }
+});
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { withRouteGuard } from "@/lib/route-guard";
+import { EmailOutbox } from "@/lib/email-outbox";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Puts a dead-lettered email back in the queue with a fresh set of attempts
+export const POST = withRouteGuard<RouteContext>({ permission: "emails:retry" }, async (request, { params }, admin) => {
+  const log = createRequestLogger("admin/email-outbox/retry");
+  try {
+    const { id } = await params;
+
+    const result = await EmailOutbox.requeue(id);
+    if (!result.success) {
+      return result.reason === "not_found"
+        ? NextResponse.json({ error: "Email not found" }, { status: 404 })
+        : NextResponse.json({ error: "Only failed (dead-lettered) emails can be retried" }, { status: 409 });
+    }
+
+    await recordAuditEvent(request, {
+      action: "EMAIL_REQUEUED",
+      userId: admin.userId,
+      details: { messageId: id, template: result.message.template, to: result.message.to },
+    });
+
+    log.info("Email requeued", { messageId: id, adminId: admin.userId });
+    return NextResponse.json({ success: true, message: result.message });
+  } catch (error) {
+    log.error("Failed to requeue email", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
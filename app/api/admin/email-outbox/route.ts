@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRequestLogger } from "@/lib/logger";
+import { withRouteGuard } from "@/lib/route-guard";
+import { EMAIL_OUTBOX_PAGE_SIZE, EMAIL_STATUSES, EmailOutbox } from "@/lib/email-outbox";
+import type { EmailStatus } from "@/app/generated/prisma";
+
+const MAX_PAGE_SIZE = 200;
+
+// Delivery status of queued email; message bodies are never returned
+export const GET = withRouteGuard({ permission: "emails:read" }, async (request: NextRequest) => {
+  const log = createRequestLogger("admin/email-outbox");
+  try {
+    const params = request.nextUrl.searchParams;
+
+    const status = params.get("status")?.toUpperCase() || undefined;
+    if (status && !EMAIL_STATUSES.includes(status as EmailStatus)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of ${EMAIL_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = params.get("limit");
+    const limit = limitParam ? Number(limitParam) : EMAIL_OUTBOX_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const [page, counts] = await Promise.all([
+      EmailOutbox.list({
+        status: status as EmailStatus | undefined,
+        limit,
+        cursor: params.get("cursor") || undefined,
+      }),
+      EmailOutbox.countByStatus(),
+    ]);
+
+    return NextResponse.json({ success: true, ...page, counts });
+  } catch (error) {
+    log.error("Failed to list email outbox", { error: String(error) });
+    return NextResponse.json({ success: false, error: "Failed to load email outbox" }, { status: 500 });
+  }
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { withRouteGuard } from "@/lib/route-guard";
+import { RoleService, parseRoleInput } from "@/lib/roles";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Permission changes reach holders of the role on their next token refresh
+export const PATCH = withRouteGuard<RouteContext>({ permission: "roles:manage" }, async (request, { params }, admin) => {
+  const log = createRequestLogger("admin/roles/update");
+  try {
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = parseRoleInput(body, true);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const result = await RoleService.update(id, parsed.input);
+    if (!result.success) {
+      return result.reason === "not_found"
+        ? NextResponse.json({ error: "Role not found" }, { status: 404 })
+        : NextResponse.json({ error: "A role with that name already exists" }, { status: 409 });
+    }
+
+    await recordAuditEvent(request, {
+      action: "ROLE_UPDATED",
+      userId: admin.userId,
+      details: { roleId: id, changes: { ...parsed.input } },
+    });
+
+    log.info("Role updated", { roleId: id, adminId: admin.userId });
+    return NextResponse.json({ success: true, role: result.role });
+  } catch (error) {
+    log.error("Failed to update role", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+export const DELETE = withRouteGuard<RouteContext>({ permission: "roles:manage" }, async (request, { params }, admin) => {
+  const log = createRequestLogger("admin/roles/delete");
+  try {
+    const { id } = await params;
+
+    const removed = await RoleService.remove(id);
+    if (!removed) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+
+    await recordAuditEvent(request, {
+      action: "ROLE_DELETED",
+      userId: admin.userId,
+      details: { roleId: id },
+    });
+
+    log.info("Role deleted", { roleId: id, adminId: admin.userId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Failed to delete role", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { withRouteGuard } from "@/lib/route-guard";
+import { BUILT_IN_ROLE_PERMISSIONS, PERMISSIONS } from "@/lib/permissions";
+import { RoleService, parseRoleInput } from "@/lib/roles";
+
+// Custom roles plus the permission catalogue the editor needs
+export const GET = withRouteGuard({ permission: "roles:manage" }, async () => {
+  const log = createRequestLogger("admin/roles/list");
+  try {
+    const roles = await RoleService.list();
+    return NextResponse.json({
+      success: true,
+      permissions: PERMISSIONS,
+      builtInRoles: BUILT_IN_ROLE_PERMISSIONS,
+      roles: roles.map(({ _count, ...role }) => ({ ...role, userCount: _count.users })),
+    });
+  } catch (error) {
+    log.error("Failed to list roles", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+export const POST = withRouteGuard({ permission: "roles:manage" }, async (request, _context, admin) => {
+  const log = createRequestLogger("admin/roles/create");
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = parseRoleInput(body, false);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { name, permissions, description } = parsed.input;
+
+    const result = await RoleService.create({ name: name!, permissions: permissions!, description });
+    if (!result.success) {
+      return NextResponse.json({ error: "A role with that name already exists" }, { status: 409 });
+    }
+
+    await recordAuditEvent(request, {
+      action: "ROLE_CREATED",
+      userId: admin.userId,
+      details: { roleId: result.role.id, name: result.role.name, permissions: result.role.permissions },
+    });
+
+    log.info("Role created", { roleId: result.role.id, adminId: admin.userId });
+    return NextResponse.json({ success: true, role: result.role }, { status: 201 });
+  } catch (error) {
+    log.error("Failed to create role", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { withRouteGuard } from "@/lib/route-guard";
+import { AuthSettings, parseAuthSettingsPatch } from "@/lib/auth-settings";
+
+export const GET = withRouteGuard({ permission: "settings:manage" }, async () => {
+  const log = createRequestLogger("admin/settings");
+  try {
+    return NextResponse.json({ success: true, settings: await AuthSettings.get() });
+  } catch (error) {
+    log.error("Failed to load settings", { error: String(error) });
+    return NextResponse.json({ success: false, error: "Failed to load settings" }, { status: 500 });
+  }
+});
+
+// Body: any subset of the settings, e.g. { "magicLinkEnabled": true }
+export const PATCH = withRouteGuard({ permission: "settings:manage" }, async (request, _context, admin) => {
+  const log = createRequestLogger("admin/settings");
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = parseAuthSettingsPatch(body);
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    const { values, changes } = await AuthSettings.update(parsed.patch, admin.userId);
+
+    if (Object.keys(changes).length > 0) {
+      await recordAuditEvent(request, {
+        action: "AUTH_SETTINGS_UPDATED",
+        userId: admin.userId,
+        details: { changes },
+      });
+      log.info("Sign-in settings updated", { adminId: admin.userId, changed: Object.keys(changes) });
+    }
+
+    return NextResponse.json({ success: true, settings: values });
+  } catch (error) {
+    log.error("Failed to update settings", { error: String(error) });
+    return NextResponse.json({ success: false, error: "Failed to update settings" }, { status: 500 });
+  }
+});
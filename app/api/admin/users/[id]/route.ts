@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { TokenRevocation } from "@/lib/token-revocation";
+import {
+  ADMIN_USER_SELECT,
+  parseAdminUserUpdate,
+  toAdminUserView,
+} from "@/lib/admin-users";
+import { withRouteGuard } from "@/lib/route-guard";
+import { can } from "@/lib/permissions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Update a user's profile, role or status
+export const PATCH = withRouteGuard<RouteContext>({ permission: "users:write" }, async (request, { params }, admin) => {
+  const log = createRequestLogger("admin/users/update");
+  try {
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = parseAdminUserUpdate(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { update } = parsed;
+
+    if ((update.role || update.customRoleId !== undefined) && !can(admin, "roles:manage")) {
+      return NextResponse.json(
+        { error: "Changing roles requires the roles:manage permission" },
+        { status: 403 }
+      );
+    }
+
+    if (
+      id === admin.userId &&
+      (update.role || update.status || update.customRoleId !== undefined)
+    ) {
+      return NextResponse.json(
+        { error: "You cannot change your own role or status" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { id },
+      select: ADMIN_USER_SELECT,
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (update.customRoleId) {
+      const role = await prisma.role.findUnique({
+        where: { id: update.customRoleId },
+        select: { id: true },
+      });
+      if (!role) {
+        return NextResponse.json({ error: "Role not found" }, { status: 400 });
+      }
+    }
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const [field, value] of Object.entries(update)) {
+      const previous = existing[field as keyof typeof update];
+      if (previous !== value) {
+        changes[field] = { from: previous, to: value };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ success: true, user: toAdminUserView(existing) });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: update,
+      select: ADMIN_USER_SELECT,
+    });
+
+    // Role, permissions and status live in the JWT, so outstanding tokens must not outlive the change
+    if (changes.role || changes.customRoleId || (changes.status && user.status !== "ACTIVE")) {
+      await TokenRevocation.revokeAllForUser(
+        user.id,
+        changes.status ? "account_disabled" : "admin"
+      );
+    }
+
+    await recordAuditEvent(request, {
+      action: "ADMIN_USER_UPDATED",
+      userId: user.id,
+      details: { updatedBy: admin.userId, changes },
+    });
+
+    log.info("User updated by admin", {
+      userId: user.id,
+      adminId: admin.userId,
+      fields: Object.keys(changes),
+    });
+    return NextResponse.json({ success: true, user: toAdminUserView(user) });
+  } catch (error) {
+    log.error("Update user error", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+// Permanently delete a user and everything that cascades from it
+export const DELETE = withRouteGuard<RouteContext>({ permission: "users:delete" }, async (request, { params }, admin) => {
+  const log = createRequestLogger("admin/users/delete");
+  try {
+    const { id } = await params;
+    if (id === admin.userId) {
+      return NextResponse.json(
+        { error: "You cannot delete your own account" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true, role: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    await prisma.user.delete({ where: { id } });
+
+    // Logged against the admin: the deleted user's own audit rows lose their userId
+    await recordAuditEvent(request, {
+      action: "ADMIN_USER_DELETED",
+      userId: admin.userId,
+      details: { deletedUserId: user.id, email: user.email, role: user.role },
+    });
+
+    log.info("User deleted by admin", { userId: user.id, adminId: admin.userId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Delete user error", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
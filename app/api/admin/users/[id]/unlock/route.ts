@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { AccountLockout } from "@/lib/account-lockout";
+import { createRequestLogger } from "@/lib/logger";
+import { getClientIp } from "@/lib/client-ip";
+import { withRouteGuard } from "@/lib/route-guard";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export const POST = withRouteGuard<RouteContext>({ permission: "users:unlock" }, async (request, { params }, admin) => {
+  const log = createRequestLogger("admin/users/unlock");
+  try {
+    const { id } = await params;
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    await AccountLockout.unlock(user.id, admin.userId, {
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get("user-agent") || "unknown",
+    });
+
+    log.info("Account unlocked by admin", { userId: user.id, adminId: admin.userId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Unlock error", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
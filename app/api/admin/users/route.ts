@@ -1,70 +1,72 @@
-import { PrismaClient } from "@/app/generated/prisma";
-import { NextResponse } from "next/server";
-
-export async function GET() {
-  let prisma;
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  ADMIN_USER_SELECT,
+  parseAdminUserQuery,
+  toAdminUserView,
+} from "@/lib/admin-users";
+import { withRouteGuard } from "@/lib/route-guard";
+import { createRequestLogger } from "@/lib/logger";
 
+export const GET = withRouteGuard({ permission: "users:read" }, async (request: NextRequest) => {
+  const log = createRequestLogger("admin/users/list");
   try {
-    prisma = new PrismaClient();
+    const parsed = parseAdminUserQuery(request.nextUrl.searchParams);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+    const { where, sort, order, limit, cursor } = parsed.query;
 
-    // Fetch all users from database
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        status: true,
-        createdAt: true,
-        company: true,
-        plan: true,
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-    });
+    // The cursor must name an existing user; paging from an unknown one is a client error
+    if (cursor && !(await prisma.user.findUnique({ where: { id: cursor }, select: { id: true } }))) {
+      return NextResponse.json(
+        { success: false, error: "cursor does not match a user" },
+        { status: 400 }
+      );
+    }
 
-    // Convert to the format expected by your frontend
-    const formattedUsers = users.map(
-      (user: {
-        [x: string]: any;
-        id: any;
-        name: any;
-        email: any;
-        role: any;
-        company: any;
-        plan: any;
-        createdAt: { toISOString: () => any };
-        status: string;
-      }) => ({
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        company: user.company,
-        plan: user.plan,
-        createdAt: user.createdAt.toISOString(),
-        status: user.status.toLowerCase() as "active" | "inactive",
-      })
-    );
+    // Fetch one extra row to know whether another page follows. id breaks
+    // ties so the cursor position is stable for non-unique sort columns.
+    const [users, total, allUsers, active, admins] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: ADMIN_USER_SELECT,
+        orderBy: [{ [sort]: order }, { id: order }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      }),
+      prisma.user.count({ where }),
+      prisma.user.count(),
+      prisma.user.count({ where: { status: "ACTIVE" } }),
+      prisma.user.count({ where: { role: "ADMIN" } }),
+    ]);
+
+    const hasMore = users.length > limit;
+    const page = hasMore ? users.slice(0, limit) : users;
 
     return NextResponse.json({
       success: true,
-      users: formattedUsers,
+      users: page.map(toAdminUserView),
+      total,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      // Totals across all accounts, independent of the current filters
+      summary: {
+        total: allUsers,
+        active,
+        inactive: allUsers - active,
+        admins,
+      },
+    });
+  } catch (error) {
+    log.error("Failed to list users", {
+      error: error instanceof Error ? error.message : String(error),
     });
-  } catch (error: any) {
-    console.error("Error fetching users:", error);
     return NextResponse.json(
-      {
-        success: false,
-        error: "Failed to fetch users",
-        details: error.message,
-      },
+      { success: false, error: "Failed to fetch users" },
       { status: 500 }
     );
-  } finally {
-    if (prisma) {
-      await prisma.$disconnect();
-    }
   }
-}
+});
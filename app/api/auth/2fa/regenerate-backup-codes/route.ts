@@ -4,6 +4,7 @@ import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import { TOTPService } from "@/lib/totp-service";
 import { EncryptionService } from "@/lib/encryption";
 import { PrismaClient } from "@/app/generated/prisma";
+import { recordAuditEvent } from "@/lib/audit";
 
 const prisma = new PrismaClient();
 
@@ -39,14 +40,7 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: "BACKUP_CODES_REGENERATED",
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-        userAgent: request.headers.get("user-agent") || "unknown",
-      },
-    });
+    await recordAuditEvent(request, { action: "BACKUP_CODES_REGENERATED", userId: user.id });
 
     return NextResponse.json({
       success: true,
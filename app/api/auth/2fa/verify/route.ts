@@ -1,142 +1,146 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth-options";
-import { verifyAccessToken } from "@/lib/auth";
+import { withRouteGuard } from "@/lib/route-guard";
 import { TOTPService } from "@/lib/totp-service";
+import { TokenRevocation } from "@/lib/token-revocation";
 import { EncryptionService } from "@/lib/encryption";
 import { PrismaClient } from "@/app/generated/prisma";
 import { createRequestLogger, redact } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { sendEmail } from "@/lib/email";
+import { MfaService, parseFactorName } from "@/lib/mfa";
+import { MFA_CONFIG } from "@/lib/mfa-config";
 
 const prisma = new PrismaClient();
 
-export async function POST(request: NextRequest) {
-  const log = createRequestLogger("2fa/verify");
-  try {
-    const session = await getServerSession(authOptions);
-    let email = session?.user?.email ?? null;
-
-    if (!email) {
-      const accessToken =
-        request.cookies.get("accessToken")?.value ||
-        request.cookies.get("auth-token")?.value;
-      if (accessToken) {
-        try {
-          const payload = await verifyAccessToken(accessToken);
-          email = (payload as any)?.email ?? null;
-        } catch (_) {}
+// Allowed while a bootstrap admin is held at TOTP enrollment
+export const POST = withRouteGuard(
+  { allowPendingEnrollment: true },
+  async (request: NextRequest, _context, session) => {
+    const log = createRequestLogger("2fa/verify");
+    try {
+      const { token, encryptedSecret, encryptedBackupCodes, name: rawName } = await request.json();
+
+      log.debug("Incoming verify payload", {
+        tokenLen: token ? String(token).length : 0,
+        hasEncryptedSecret: !!encryptedSecret,
+        backupCodesCount: Array.isArray(encryptedBackupCodes) ? encryptedBackupCodes.length : 0,
+      });
+
+      if (!token || !encryptedSecret) {
+        return NextResponse.json(
+          { error: "Token and secret are required" },
+          { status: 400 }
+        );
       }
-    }
-
-    if (!email) {
-      const headerEmail = request.headers.get("x-user-email");
-      if (headerEmail) email = headerEmail;
-    }
 
-    if (!email) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+      const name = parseFactorName(rawName, MFA_CONFIG.defaultNames.TOTP);
+      if (!name) {
+        return NextResponse.json(
+          { error: `Name must be at most ${MFA_CONFIG.nameMaxLength} characters` },
+          { status: 400 }
+        );
+      }
 
-    const { token, encryptedSecret, encryptedBackupCodes } = await request.json();
+      const user = await prisma.user.findUnique({
+        where: { id: session.userId },
+      });
 
-    log.debug("Incoming verify payload", {
-      tokenLen: token ? String(token).length : 0,
-      hasEncryptedSecret: !!encryptedSecret,
-      backupCodesCount: Array.isArray(encryptedBackupCodes) ? encryptedBackupCodes.length : 0,
-    });
+      if (!user) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
 
-    if (!token || !encryptedSecret) {
-      return NextResponse.json(
-        { error: "Token and secret are required" },
-        { status: 400 }
-      );
-    }
+      let secret: string;
+      try {
+        secret = EncryptionService.decrypt(
+          encryptedSecret,
+          process.env.TOTP_SECRET_ENCRYPTION_KEY!
+        );
+        log.debug("Decrypted temp secret successfully", { preview: redact(secret, 3, 3), len: secret.length });
+      } catch (e) {
+        log.warn("Failed to decrypt temp secret. Likely stale/legacy temp data; prompt re-setup.", {
+          reason: e instanceof Error ? e.message : String(e),
+        });
+        return NextResponse.json(
+          {
+            error: "Your 2FA setup session expired or is invalid. Please restart the setup and try again.",
+            code: "RETRY_SETUP",
+          },
+          { status: 400 }
+        );
+      }
 
-    const user = await prisma.user.findUnique({
-      where: { email: email.toLowerCase() },
-    });
+      const isValid = TOTPService.verifyToken(token, secret);
+      log.debug("TOTP verification result", { result: isValid });
 
-    if (!user) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
+      if (!isValid) {
+        return NextResponse.json(
+          { error: "Invalid TOTP token" },
+          { status: 400 }
+        );
+      }
 
-    let secret: string;
-    try {
-      secret = EncryptionService.decrypt(
-        encryptedSecret,
+      const finalEncryptedSecret = EncryptionService.encrypt(
+        secret,
         process.env.TOTP_SECRET_ENCRYPTION_KEY!
       );
-      log.debug("Decrypted temp secret successfully", { preview: redact(secret, 3, 3), len: secret.length });
-    } catch (e: any) {
-      log.warn("Failed to decrypt temp secret. Likely stale/legacy temp data; prompt re-setup.", { reason: String(e?.message || e) });
-      return NextResponse.json(
-        {
-          error: "Your 2FA setup session expired or is invalid. Please restart the setup and try again.",
-          code: "RETRY_SETUP",
-        },
-        { status: 400 }
-      );
-    }
 
-    const isValid = TOTPService.verifyToken(token, secret);
-    log.debug("TOTP verification result", { result: isValid });
+      let finalEncryptedBackupCodes: string[] = [];
+      try {
+        finalEncryptedBackupCodes = (encryptedBackupCodes || []).map((code: string) =>
+          EncryptionService.encrypt(
+            EncryptionService.decrypt(
+              code,
+              process.env.BACKUP_CODES_ENCRYPTION_KEY!
+            ),
+            process.env.BACKUP_CODES_ENCRYPTION_KEY!
+          )
+        );
+      } catch (e) {
+        log.warn("Failed to process backup codes; proceeding without them", {
+          reason: e instanceof Error ? e.message : String(e),
+        });
+        finalEncryptedBackupCodes = [];
+      }
 
-    if (!isValid) {
-      return NextResponse.json(
-        { error: "Invalid TOTP token" },
-        { status: 400 }
-      );
-    }
+      // Backup codes are only kept when this is the user's first factor
+      const result = await MfaService.addTotp(user.id, finalEncryptedSecret, name, finalEncryptedBackupCodes);
+      if (!result.success) {
+        return NextResponse.json(
+          { error: `You can enroll up to ${MFA_CONFIG.maxFactorsPerUser} two-factor methods` },
+          { status: 400 }
+        );
+      }
+
+      await recordAuditEvent(request, {
+        action: "MFA_FACTOR_ADDED",
+        userId: user.id,
+        details: { factorId: result.factor.id, type: result.factor.type, name: result.factor.name },
+      });
+
+      if (result.firstFactor) {
+        await recordAuditEvent(request, { action: "TOTP_ENABLED", userId: user.id });
+        await sendEmail(user.email, "totp_enabled", {
+          name: user.name || "User",
+          enabledAt: result.factor.createdAt,
+        });
+      }
 
-    const finalEncryptedSecret = EncryptionService.encrypt(
-      secret,
-      process.env.TOTP_SECRET_ENCRYPTION_KEY!
-    );
+      // The current token still carries the enrollment hold; revoking it makes
+      // middleware refresh into a token without it on the next navigation
+      if (session.totpEnrollmentRequired) {
+        await TokenRevocation.revokeAccessToken(session, "totp_enrolled");
+      }
 
-    let finalEncryptedBackupCodes: string[] = [];
-    try {
-      finalEncryptedBackupCodes = (encryptedBackupCodes || []).map((code: string) =>
-        EncryptionService.encrypt(
-          EncryptionService.decrypt(
-            code,
-            process.env.BACKUP_CODES_ENCRYPTION_KEY!
-          ),
-          process.env.BACKUP_CODES_ENCRYPTION_KEY!
-        )
+      return NextResponse.json({
+        success: true,
+        message: result.firstFactor ? "TOTP enabled successfully" : "Authenticator app added",
+      });
+    } catch (error) {
+      log.error("TOTP verification error", { error: error instanceof Error ? error.message : String(error) });
+      return NextResponse.json(
+        { error: "Failed to enable TOTP" },
+        { status: 500 }
       );
-    } catch (e: any) {
-      log.warn("Failed to process backup codes; proceeding without them", { reason: String(e?.message || e) });
-      finalEncryptedBackupCodes = [];
     }
-
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        totpSecret: finalEncryptedSecret,
-        totpBackupCodes: finalEncryptedBackupCodes,
-        isTOTPEnabled: true,
-        totpEnabledAt: new Date(),
-        failedTOTPAttempts: 0,
-      },
-    });
-
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: "TOTP_ENABLED",
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-        userAgent: request.headers.get("user-agent") || "unknown",
-      },
-    });
-
-    return NextResponse.json({
-      success: true,
-      message: "TOTP enabled successfully",
-    });
-  } catch (error) {
-    console.error("TOTP verification error:", error);
-    return NextResponse.json(
-      { error: "Failed to enable TOTP" },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AdminBootstrap } from "@/lib/admin-bootstrap";
+import { createRequestLogger } from "@/lib/logger";
+import { validatePassword, defaultRequirements } from "@/lib/passwordValidation";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Reports whether first-run setup is still open (no credentials required)
+export async function GET() {
+  return NextResponse.json({ available: await AdminBootstrap.isAvailable() });
+}
+
+// Creates the first admin. Requires "Authorization: Bearer $ADMIN_SETUP_TOKEN"
+// and responds 404 once any admin exists, so the route disables itself.
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger("auth/bootstrap");
+  try {
+    if (!(await AdminBootstrap.isAvailable())) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const limit = await checkRateLimit(request, "auth/bootstrap");
+    if (!limit.allowed) return rateLimitResponse(limit);
+
+    if (!AdminBootstrap.verifySetupToken(request.headers.get("authorization"))) {
+      log.warn("Bootstrap attempt with invalid setup token", { ip: getClientIp(request) });
+      return NextResponse.json({ error: "Invalid setup token" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const { email, password, name } =
+      body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+    if (typeof email !== "string" || typeof password !== "string" || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "Email, password and name are required" },
+        { status: 400 }
+      );
+    }
+    if (!EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json({ error: "Invalid email address" }, { status: 400 });
+    }
+
+    const passwordValidation = validatePassword(password, defaultRequirements, { email, name });
+    if (!passwordValidation.isValid) {
+      return NextResponse.json(
+        {
+          error: "Password does not meet security requirements",
+          details: passwordValidation.errors,
+          suggestions: passwordValidation.suggestions,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await AdminBootstrap.createInitialAdmin(
+      { email, password, name },
+      {
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get("user-agent") || "unknown",
+      }
+    );
+
+    if (!result.success) {
+      return result.reason === "admin_exists"
+        ? NextResponse.json({ error: "Not found" }, { status: 404 })
+        : NextResponse.json({ error: "A user with that email already exists" }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Admin created. Sign in to enroll an authenticator app before using the dashboard.",
+        user: result.user,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    log.error("Admin bootstrap failed", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
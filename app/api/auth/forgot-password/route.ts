@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@/app/generated/prisma";
 import { createRequestLogger } from "@/lib/logger";
-import { TokenService } from "@/lib/jwt";
+import { LoginTransaction } from "@/lib/login-transaction";
 import { generateOTP, storeOTP } from "@/lib/otp";
-import { sendOTPEmail } from "@/lib/gmail";
+import { OTP_RECIPIENT_SELECT, deliverOTP } from "@/lib/otp-delivery";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
 
 const prisma = new PrismaClient();
 
@@ -16,9 +17,14 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: "Email is required" }, { status: 400 });
         }
 
+        const rateLimit = await checkRateLimit(request, "auth/forgot-password", { email });
+        if (!rateLimit.allowed) {
+            return rateLimitResponse(rateLimit);
+        }
+
         const user = await prisma.user.findUnique({
             where: { email: email.toLowerCase() },
-            select: { id: true, email: true, isTOTPEnabled: true, status: true },
+            select: { ...OTP_RECIPIENT_SELECT, isTOTPEnabled: true, status: true },
         });
 
         if (!user || user.status !== "ACTIVE") {
@@ -29,31 +35,27 @@ export async function POST(request: NextRequest) {
 
         if (user.isTOTPEnabled) {
             // User has 2FA, so we require TOTP verification to reset the password.
-            const token = await TokenService.generateTOTPVerificationToken(user.id, user.email, user.email, "USER");
-            const response = NextResponse.json({ success: true, requiresTOTP: true });
-            response.cookies.set("password_reset_token", token, {
-                httpOnly: true,
-                secure: process.env.NODE_ENV === "production",
-                sameSite: "lax",
-                maxAge: 10 * 60, // 10 minutes
-                path: "/",
+            const { token } = await LoginTransaction.begin(request, {
+                userId: user.id,
+                flow: "PASSWORD_RESET",
+                steps: ["TOTP"],
             });
+            const response = NextResponse.json({ success: true, requiresTOTP: true });
+            LoginTransaction.setCookie(response, token);
             return response;
         } else {
-            // User does not have 2FA, so we use email OTP.
+            // User does not have 2FA, so we send a code by email or, if they chose it, SMS.
             const otp = generateOTP();
-            await storeOTP(user.email, otp);
-            await sendOTPEmail(user.email, otp, "Password Reset");
-
-            const token = await TokenService.generateTOTPVerificationToken(user.id, user.email, user.email, "USER");
-            const response = NextResponse.json({ success: true, requiresOTP: true });
-            response.cookies.set("password_reset_token", token, {
-                httpOnly: true,
-                secure: process.env.NODE_ENV === "production",
-                sameSite: "lax",
-                maxAge: 10 * 60, // 10 minutes
-                path: "/",
+            await storeOTP(user.email, otp, "password_reset");
+            const { transaction, token } = await LoginTransaction.begin(request, {
+                userId: user.id,
+                flow: "PASSWORD_RESET",
+                steps: ["EMAIL_OTP"],
             });
+            const delivery = await deliverOTP(user, otp, "password_reset", transaction.id);
+
+            const response = NextResponse.json({ success: true, requiresOTP: true, channel: delivery.channel });
+            LoginTransaction.setCookie(response, token);
             return response;
         }
     } catch (error: any) {
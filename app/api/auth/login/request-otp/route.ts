@@ -1,10 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { verifyPassword } from "@/lib/auth";
-import { generateOTP, storeOTP } from "@/lib/otp";
-import { sendOTPEmail } from "@/lib/gmail";
-import { TokenService } from "@/lib/jwt";
+import { describeOTPThrottle, generateOTP, reserveOTPSend, storeOTP } from "@/lib/otp";
+import { LoginTransaction, type PendingLogin } from "@/lib/login-transaction";
+import {
+  OTP_RECIPIENT_SELECT,
+  deliverOTP,
+  describeDelivery,
+  isOTPChannel,
+  smsAvailable,
+  type OTPRecipient,
+} from "@/lib/otp-delivery";
 import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+import { AccountLockout } from "@/lib/account-lockout";
+import { recordAuditEvent } from "@/lib/audit";
 
 export async function POST(request: NextRequest) {
   const log = createRequestLogger("login/request-otp");
@@ -12,67 +23,71 @@ export async function POST(request: NextRequest) {
   try {
     let userEmailForOTP: string | undefined;
     let userIdForOTP: string | undefined;
-    let userNameForOTP: string | undefined;
-    let userRoleForOTP: string | undefined;
     let userIsTOTPEnabled = false;
+    let recipient: OTPRecipient | undefined;
 
-    // Mode A: Resend OTP using existing otp_temp_token
-    const tempTokenCookie = request.cookies.get("otp_temp_token")?.value;
-    if (tempTokenCookie) {
-      log.debug("Mode A: Found otp_temp_token, attempting resend.");
-      try {
-        // Try to verify it first (it might be valid)
-        const payload = await TokenService.verifyTOTPToken(tempTokenCookie);
-        userIdForOTP = payload.userId;
-        userEmailForOTP = payload.email;
-        log.debug("Mode A: Valid otp_temp_token verified.", { userId: userIdForOTP });
-      } catch (e) {
-        // If verification fails (e.g., expired), decode it to get user info
-        log.debug("Mode A: otp_temp_token verification failed, decoding...", { error: String(e) });
-        const decoded = TokenService.decodeToken(tempTokenCookie);
-        if (decoded?.userId && decoded?.email) {
-          userIdForOTP = decoded.userId;
-          userEmailForOTP = decoded.email;
-          log.debug("Mode A: Decoded expired otp_temp_token.", { userId: userIdForOTP });
-        } else {
-          log.warn("Mode A: Could not decode otp_temp_token.");
-        }
-      }
-    }
+    // Either mode may ask for a channel, e.g. { "channel": "sms" } for "text me instead"
+    const body = await request.json().catch(() => null);
+    const requestedChannel = isOTPChannel(body?.channel) ? body.channel : undefined;
 
-    // If we have user info from the temp token, fetch the user and resend
-    if (userIdForOTP && userEmailForOTP) {
+    // Mode A: Resend for the sign-in transaction waiting on a code
+    const pending = await LoginTransaction.resume(request, "SIGN_IN", "EMAIL_OTP");
+    let transaction: PendingLogin | undefined = pending.success ? pending.transaction : undefined;
+    const resending = Boolean(transaction);
+
+    if (transaction) {
+      log.debug("Mode A: Found pending sign-in, attempting resend.", { userId: transaction.userId });
       const user = await prisma.user.findUnique({
-        where: { id: userIdForOTP },
-        select: { id: true, email: true, name: true, status: true, isTOTPEnabled: true, role: true },
+        where: { id: transaction.userId },
+        select: { ...OTP_RECIPIENT_SELECT, status: true, isTOTPEnabled: true },
       });
 
+      if (user) {
+        const rateLimit = await checkRateLimit(request, "auth/login/request-otp", { email: user.email });
+        if (!rateLimit.allowed) {
+          return rateLimitResponse(rateLimit);
+        }
+      }
+
       if (!user || user.status !== "ACTIVE") {
-        log.warn("Account for resend not active or missing", { userId: userIdForOTP });
+        log.warn("Account for resend not active or missing", { userId: transaction.userId });
         return NextResponse.json({ error: "Account is not active" }, { status: 403 });
       }
       
       // Set user details for the common OTP sending logic below
-      userNameForOTP = user.name || undefined;
-      userRoleForOTP = user.role;
+      userIdForOTP = user.id;
+      userEmailForOTP = user.email;
       userIsTOTPEnabled = user.isTOTPEnabled;
+      recipient = user;
 
     } else {
       // Mode B: Initial login with email and password
-      log.debug("Mode B: No valid otp_temp_token, proceeding with credentials.");
-      const body = await request.json().catch(() => null);
+      log.debug("Mode B: No pending sign-in, proceeding with credentials.", { reason: pending.success ? undefined : pending.reason });
       const emailRaw = body?.email as string | undefined;
       const password = body?.password as string | undefined;
 
       if (!emailRaw || !password) {
         log.warn("Mode B: Missing credentials.");
+        // A resend from /verify-otp after the transaction lapsed has no credentials
+        if (!pending.success && pending.reason !== "missing") {
+          return NextResponse.json(
+            { error: "Verification session expired. Please log in again." },
+            { status: 401 }
+          );
+        }
         return NextResponse.json({ error: "Email and password are required" }, { status: 400 });
       }
 
       const email = emailRaw.toLowerCase();
+
+      const rateLimit = await checkRateLimit(request, "auth/login/request-otp", { email });
+      if (!rateLimit.allowed) {
+        return rateLimitResponse(rateLimit);
+      }
+
       const user = await prisma.user.findUnique({
         where: { email },
-        select: { id: true, email: true, name: true, password: true, status: true, isTOTPEnabled: true, role: true },
+        select: { ...OTP_RECIPIENT_SELECT, password: true, status: true, isTOTPEnabled: true, loginLockUntil: true },
       });
 
       if (!user || !user.password || user.status !== "ACTIVE") {
@@ -80,22 +95,49 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: "Invalid email or password" }, { status: 401 });
       }
 
+      const lockout = AccountLockout.status(user);
+      if (lockout.locked) {
+        log.warn("Mode B: Account locked", { userId: user.id });
+        return NextResponse.json(
+          {
+            error: "Account temporarily locked due to too many failed attempts. Please try again later.",
+            lockedUntil: lockout.lockUntil?.toISOString(),
+            retryAfter: lockout.retryAfterSeconds,
+          },
+          { status: 423, headers: { "Retry-After": String(lockout.retryAfterSeconds) } }
+        );
+      }
+
       const isPasswordValid = await verifyPassword(password, user.password);
       if (!isPasswordValid) {
         log.warn("Mode B: Password mismatch", { userId: user.id });
+        const failure = await AccountLockout.recordFailure(user.id, {
+          ipAddress: getClientIp(request),
+          userAgent: request.headers.get("user-agent") || "unknown",
+        });
+        if (failure.locked) {
+          return NextResponse.json(
+            {
+              error: "Account temporarily locked due to too many failed attempts. Please try again later.",
+              lockedUntil: failure.lockUntil?.toISOString(),
+              retryAfter: failure.retryAfterSeconds,
+            },
+            { status: 423, headers: { "Retry-After": String(failure.retryAfterSeconds) } }
+          );
+        }
         return NextResponse.json({ error: "Invalid email or password" }, { status: 401 });
       }
+      await AccountLockout.recordSuccess(user.id);
       
       // Set user details for the common OTP sending logic below
       userIdForOTP = user.id;
       userEmailForOTP = user.email;
-      userNameForOTP = user.name || undefined;
-      userRoleForOTP = user.role;
       userIsTOTPEnabled = user.isTOTPEnabled;
+      recipient = user;
     }
 
     // Common logic for sending OTP
-    if (!userIdForOTP || !userEmailForOTP || !userRoleForOTP) {
+    if (!userIdForOTP || !userEmailForOTP || !recipient) {
         log.error("Critical error: User details for OTP generation are missing.");
         return NextResponse.json({ error: "Could not identify user for OTP generation." }, { status: 500 });
     }
@@ -103,54 +145,99 @@ export async function POST(request: NextRequest) {
     // If user has TOTP (Google Authenticator, etc.) enabled, bypass email OTP
     if (userIsTOTPEnabled) {
       log.info("TOTP enabled; instructing to continue with 2FA", { userId: userIdForOTP });
-      return NextResponse.json(
+      const twoFactorResponse = NextResponse.json(
         { requires2FA: true, message: "Two-factor authentication is enabled; continue with 2FA verification." },
         { status: 200 }
       );
+      if (!resending) {
+        const { token } = await LoginTransaction.begin(request, {
+          userId: userIdForOTP,
+          flow: "SIGN_IN",
+          method: "email_password",
+          steps: ["PASSWORD", "TOTP"],
+          completed: ["PASSWORD"],
+        });
+        LoginTransaction.setCookie(twoFactorResponse, token);
+      }
+      return twoFactorResponse;
+    }
+
+    if (requestedChannel === "sms" && !smsAvailable(recipient)) {
+      return NextResponse.json(
+        { error: "There is no verified phone number on this account." },
+        { status: 400 }
+      );
+    }
+
+    // Enforce resend cooldown and hourly caps (per email and per IP)
+    const throttle = await reserveOTPSend(userEmailForOTP, "login", getClientIp(request));
+    if (!throttle.allowed) {
+      log.warn("OTP send throttled", { userId: userIdForOTP, reason: throttle.reason });
+      return NextResponse.json(
+        {
+          error: describeOTPThrottle(throttle),
+          reason: throttle.reason,
+          retryAfter: throttle.retryAfterSeconds,
+        },
+        { status: 429, headers: { "Retry-After": String(throttle.retryAfterSeconds) } }
+      );
     }
 
     // Generate and store a new OTP
     const otp = generateOTP();
-    await storeOTP(userEmailForOTP, otp);
+    await storeOTP(userEmailForOTP, otp, "login");
     log.debug("OTP generated and stored", { userId: userIdForOTP });
 
-    // Send OTP email
-    const sent = await sendOTPEmail(userEmailForOTP, otp, userNameForOTP || "User");
-    if (!sent) {
-      log.error("Failed to send OTP email", { userId: userIdForOTP });
+    // A first send starts the transaction: password done, code next
+    let transactionToken: string | undefined;
+    if (!transaction) {
+      const started = await LoginTransaction.begin(request, {
+        userId: userIdForOTP,
+        flow: "SIGN_IN",
+        method: "email_password",
+        steps: ["PASSWORD", "EMAIL_OTP"],
+        completed: ["PASSWORD"],
+      });
+      transaction = started.transaction;
+      transactionToken = started.token;
+    }
+
+    // Send OTP by email (with a magic link when enabled) or SMS
+    const loginCode = await deliverOTP(recipient, otp, "login", transaction.id, requestedChannel);
+    if (!loginCode.sent) {
+      log.error("Failed to send OTP", { userId: userIdForOTP, channel: loginCode.channel });
       return NextResponse.json({ error: "Failed to send verification code" }, { status: 500 });
     }
 
-    // Issue a new short-lived token for the OTP verification step
-    const otpTempToken = await TokenService.generateTOTPVerificationToken(
-      userIdForOTP,
-      userEmailForOTP,
-      userEmailForOTP, // username
-      userRoleForOTP,
-      userNameForOTP
-    );
-    log.debug("New otp_temp_token minted", { userId: userIdForOTP });
+    // The new code gets the full ttl to be entered
+    if (resending) {
+      await LoginTransaction.touch(transaction);
+    }
 
     // Audit log
-    await prisma.auditLog.create({
-      data: {
-        userId: userIdForOTP,
-        action: "LOGIN_OTP_SENT",
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-        userAgent: request.headers.get("user-agent") || "unknown",
-        details: { purpose: tempTokenCookie ? "login_resend" : "login_initial", ttlMinutes: 10 },
+    await recordAuditEvent(request, {
+      action: "LOGIN_OTP_SENT",
+      userId: userIdForOTP,
+      details: {
+        purpose: resending ? "login_resend" : "login_initial",
+        ...(resending ? {} : { loginMethod: "email_password" }),
+        ttlMinutes: 10,
+        delivery: describeDelivery(loginCode),
       },
     });
     log.debug("Audit log recorded", { userId: userIdForOTP });
 
-    const res = NextResponse.json({ success: true, message: "Verification code sent" });
-    res.cookies.set("otp_temp_token", otpTempToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 10 * 60, // 10 minutes
+    const res = NextResponse.json({
+      success: true,
+      message: loginCode.channel === "sms" ? "Verification code sent to your phone" : "Verification code sent",
+      channel: loginCode.channel,
+      smsAvailable: smsAvailable(recipient),
+      magicLink: loginCode.magicLink,
     });
-    
+    if (transactionToken) {
+      LoginTransaction.setCookie(res, transactionToken);
+    }
+
     // Clean up old accessToken cookie if it exists from previous failed flows
     res.cookies.delete("accessToken");
 
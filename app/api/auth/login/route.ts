@@ -1,10 +1,15 @@
 // app/api/auth/login/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { verifyPassword } from "@/lib/auth";
-import { TokenService } from "@/lib/jwt";
 import { PrismaClient } from "@/app/generated/prisma";
-import { generateOTP, storeOTP } from "@/lib/otp";
-import { sendOTPEmail } from "@/lib/gmail"; // Import your existing email service
+import { describeOTPThrottle, generateOTP, reserveOTPSend, storeOTP } from "@/lib/otp";
+import { LoginTransaction } from "@/lib/login-transaction";
+import { deliverOTP, describeDelivery, smsAvailable } from "@/lib/otp-delivery";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+import { AccountLockout } from "@/lib/account-lockout";
+import { recordAuditEvent } from "@/lib/audit";
+import { createRequestLogger } from "@/lib/logger";
 
 // ✅ reCAPTCHA VERIFICATION FUNCTION
 async function verifyRecaptcha(
@@ -44,6 +49,7 @@ async function verifyRecaptcha(
 }
 
 export async function POST(request: NextRequest) {
+  const log = createRequestLogger("auth/login");
   let prisma;
 
   try {
@@ -53,6 +59,12 @@ export async function POST(request: NextRequest) {
 
     console.log("Login attempt for:", email);
 
+    // ✅ RATE LIMIT (per IP and per email)
+    const rateLimit = await checkRateLimit(request, "auth/login", { email });
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
     // ✅ VALIDATE reCAPTCHA TOKEN FIRST
     if (!recaptchaToken) {
       console.error("No reCAPTCHA token provided");
@@ -100,6 +112,10 @@ export async function POST(request: NextRequest) {
         plan: true,
         isTOTPEnabled: true,
         verified: true,
+        phoneNumber: true,
+        phoneVerifiedAt: true,
+        otpChannel: true,
+        loginLockUntil: true,
       },
     });
 
@@ -120,10 +136,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ✅ CHECK LOCKOUT BEFORE TOUCHING THE PASSWORD
+    const lockout = AccountLockout.status(user);
+    if (lockout.locked) {
+      log.warn("Locked account login attempt", { userId: user.id, lockedUntil: lockout.lockUntil?.toISOString() });
+      return NextResponse.json(
+        {
+          error: "Account temporarily locked due to too many failed attempts. Please try again later.",
+          lockedUntil: lockout.lockUntil?.toISOString(),
+          retryAfter: lockout.retryAfterSeconds,
+        },
+        { status: 423, headers: { "Retry-After": String(lockout.retryAfterSeconds) } }
+      );
+    }
+
     // ✅ VERIFY PASSWORD
     const isPasswordValid = await verifyPassword(password, user.password);
     if (!isPasswordValid) {
-      console.log("Invalid password for user:", email);
+      log.warn("Invalid password", { userId: user.id });
+      const failure = await AccountLockout.recordFailure(user.id, {
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get("user-agent") || "unknown",
+      });
+      if (failure.locked) {
+        return NextResponse.json(
+          {
+            error: "Account temporarily locked due to too many failed attempts. Please try again later.",
+            lockedUntil: failure.lockUntil?.toISOString(),
+            retryAfter: failure.retryAfterSeconds,
+          },
+          { status: 423, headers: { "Retry-After": String(failure.retryAfterSeconds) } }
+        );
+      }
       return NextResponse.json(
         { error: "Invalid email or password" },
         { status: 401 }
@@ -131,61 +175,76 @@ export async function POST(request: NextRequest) {
     }
 
     console.log("Password verified for user:", user.id);
+    await AccountLockout.recordSuccess(user.id);
 
     // ✅ CHECK IF USER NEEDS OTP VERIFICATION (when TOTP is disabled)
     if (!user.isTOTPEnabled) {
       console.log("TOTP not enabled, requiring email OTP for user:", user.id);
 
+      // ✅ ENFORCE OTP RESEND COOLDOWN / HOURLY CAPS
+      const throttle = await reserveOTPSend(user.email, "login", getClientIp(request));
+      if (!throttle.allowed) {
+        log.warn("OTP send throttled", { userId: user.id, reason: throttle.reason });
+        return NextResponse.json(
+          {
+            error: describeOTPThrottle(throttle),
+            reason: throttle.reason,
+            retryAfter: throttle.retryAfterSeconds,
+          },
+          { status: 429, headers: { "Retry-After": String(throttle.retryAfterSeconds) } }
+        );
+      }
+
       // ✅ GENERATE OTP CODE
       const otpCode = generateOTP();
-      console.log(`Generated OTP for ${user.email}: ${otpCode}`);
 
-      // ✅ STORE OTP IN MEMORY STORE
-      await storeOTP(user.email, otpCode);
+      // ✅ STORE OTP (hashed, database-backed)
+      await storeOTP(user.email, otpCode, "login");
 
-      // ✅ SEND OTP VIA EMAIL USING YOUR EXISTING SERVICE
-      const emailSent = await sendOTPEmail(
-        user.email,
-        otpCode,
-        user.name || "User"
-      );
+      // ✅ START THE SIGN-IN TRANSACTION: CAPTCHA AND PASSWORD DONE, CODE NEXT
+      const { transaction, token } = await LoginTransaction.begin(request, {
+        userId: user.id,
+        flow: "SIGN_IN",
+        method: "email_password",
+        steps: ["CAPTCHA", "PASSWORD", "EMAIL_OTP"],
+        completed: ["CAPTCHA", "PASSWORD"],
+      });
+
+      // ✅ SEND OTP BY EMAIL (WITH A MAGIC LINK WHEN ENABLED) OR SMS
+      const loginCode = await deliverOTP(user, otpCode, "login", transaction.id);
 
-      if (!emailSent) {
+      if (!loginCode.sent) {
+        if (loginCode.channel === "sms") {
+          return NextResponse.json(
+            { error: "Failed to send verification code by SMS. Please try again." },
+            { status: 503 }
+          );
+        }
         throw new Error("Failed to send verification email");
       }
 
-      // Generate OTP verification token (for email OTP)
-      const otpToken = await TokenService.generateTOTPVerificationToken(
-        user.id,
-        user.email,
-        user.email,
-        user.role,
-        user.name || undefined
-      );
-
       // ✅ CREATE AUDIT LOG FOR OTP REQUIRED
-      await prisma.auditLog.create({
-        data: {
-          userId: user.id,
-          action: "LOGIN_OTP_REQUIRED",
-          ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-          userAgent: request.headers.get("user-agent") || "unknown",
-          details: {
-            recaptchaVerified: true,
-            recaptchaScore: recaptchaResult.score || 0,
-            loginMethod: "email_password",
-            verificationType: "email_otp",
-            otpSent: true,
-            emailService: "gmail",
-          },
+      await recordAuditEvent(request, {
+        action: "LOGIN_OTP_REQUIRED",
+        userId: user.id,
+        details: {
+          loginMethod: "email_password",
+          recaptchaScore: recaptchaResult.score || 0,
+          delivery: describeDelivery(loginCode),
         },
       });
 
-      // Set a short-lived cookie with the temp OTP token
+      // Point the browser at the transaction with its cookie
       const res = NextResponse.json({
         success: true,
         requiresOTP: true,
-        message: "Email verification code sent to your email",
+        message:
+          loginCode.channel === "sms"
+            ? "Verification code sent to your phone"
+            : "Email verification code sent to your email",
+        channel: loginCode.channel,
+        smsAvailable: smsAvailable(user),
+        magicLink: loginCode.magicLink,
         userId: user.id,
         user: {
           id: user.id,
@@ -194,45 +253,33 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      res.cookies.set("otp_temp_token", otpToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        maxAge: 10 * 60, // 10 minutes
-        path: "/",
-      });
+      LoginTransaction.setCookie(res, token);
 
       return res;
     }
 
-    // ✅ TOTP ENABLED - Generate TOTP verification token
+    // ✅ TOTP ENABLED - Second factor is the remaining step
     console.log("TOTP enabled, requiring TOTP verification for user:", user.id);
 
-    const totpToken = await TokenService.generateTOTPVerificationToken(
-      user.id,
-      user.email,
-      user.email,
-      user.role,
-      user.name || undefined
-    );
+    const { token } = await LoginTransaction.begin(request, {
+      userId: user.id,
+      flow: "SIGN_IN",
+      method: "email_password",
+      steps: ["CAPTCHA", "PASSWORD", "TOTP"],
+      completed: ["CAPTCHA", "PASSWORD"],
+    });
 
     // ✅ CREATE AUDIT LOG FOR TOTP REQUIRED
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: "LOGIN_TOTP_REQUIRED",
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-        userAgent: request.headers.get("user-agent") || "unknown",
-        details: {
-          recaptchaVerified: true,
-          recaptchaScore: recaptchaResult.score || 0,
-          loginMethod: "email_password",
-          verificationType: "totp",
-        },
+    await recordAuditEvent(request, {
+      action: "LOGIN_TOTP_REQUIRED",
+      userId: user.id,
+      details: {
+        loginMethod: "email_password",
+        recaptchaScore: recaptchaResult.score || 0,
       },
     });
 
-    // Set a short-lived cookie with the temp TOTP token
+    // Point the browser at the transaction with its cookie
     const res = NextResponse.json({
       success: true,
       requiresTOTP: true,
@@ -245,13 +292,7 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    res.cookies.set("totp_temp_token", totpToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 10 * 60, // 10 minutes
-      path: "/",
-    });
+    LoginTransaction.setCookie(res, token);
 
     return res;
   } catch (error) {
@@ -1,10 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { TokenService } from "@/lib/jwt";
+import { SessionRegistry } from "@/lib/device-session";
+import { TokenRevocation } from "@/lib/token-revocation";
+import { recordAuditEvent } from "@/lib/audit";
+import { LoginTransaction } from "@/lib/login-transaction";
 
 export async function POST(request: NextRequest) {
   try {
     const refreshTokenCookie = request.cookies.get("refreshToken")?.value;
+    const accessTokenCookie = request.cookies.get("accessToken")?.value;
+
+    // Deny the current access token so it stops working before it expires
+    if (accessTokenCookie) {
+      try {
+        const payload = await TokenService.verifyAccessToken(accessTokenCookie);
+        await TokenRevocation.revokeAccessToken(payload, "logout");
+      } catch (error) {
+        // Expired or invalid tokens need no revocation
+      }
+    }
 
     if (refreshTokenCookie) {
       try {
@@ -12,6 +27,9 @@ export async function POST(request: NextRequest) {
         const decoded = TokenService.decodeToken(refreshTokenCookie);
         const userId = decoded?.userId;
 
+        // Close the device session before its refresh token goes away
+        await SessionRegistry.end(refreshTokenCookie);
+
         // Delete the refresh token from the database
         await prisma.refreshToken.deleteMany({
           where: {
@@ -28,14 +46,7 @@ export async function POST(request: NextRequest) {
           });
 
           // Create audit log
-          await prisma.auditLog.create({
-            data: {
-              userId: userId,
-              action: "LOGOUT",
-              ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-              userAgent: request.headers.get("user-agent") || "unknown",
-            },
-          });
+          await recordAuditEvent(request, { action: "LOGOUT", userId });
         }
       } catch (error) {
         // Even if there's an error, we proceed to clear cookies
@@ -43,6 +54,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // A half-finished sign-in or reset in this browser ends too
+    await LoginTransaction.discard(request);
+
     const response = NextResponse.json({
       success: true,
       message: "Logged out successfully",
@@ -51,7 +65,7 @@ export async function POST(request: NextRequest) {
     // Clear all relevant auth cookies
     response.cookies.delete("accessToken");
     response.cookies.delete("refreshToken");
-    response.cookies.delete("otp_temp_token"); // Also clear any pending OTP tokens
+    LoginTransaction.clearCookie(response); // Also clear any pending sign-in
 
     return response;
   } catch (error) {
@@ -0,0 +1,100 @@
+// app/api/auth/magic-link/route.ts
+// Landing page for the link in the login_magic_link email. Opened by a plain
+// navigation from the mail client, so every outcome is a redirect (a same-site
+// refresh once signed in).
+import { NextRequest, NextResponse } from "next/server";
+import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import { EmailLogin } from "@/lib/email-login";
+import { MagicLinkService } from "@/lib/magic-link";
+import { LoginTransaction } from "@/lib/login-transaction";
+
+function signinRedirect(request: NextRequest, error: string) {
+  return NextResponse.redirect(new URL(`/signin?error=${error}`, request.url));
+}
+
+// The session cookies are SameSite=strict, and a redirect chain started from
+// the mail client is cross-site, so the browser would leave them off the
+// redirected request. A refresh issued by this same-site page is not.
+function sameSiteRedirect(path: string) {
+  return new NextResponse(
+    `<!doctype html><meta http-equiv="refresh" content="0;url=${path}"><title>Signing in…</title>`,
+    { headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" } }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger("auth/magic-link");
+  try {
+    const rateLimit = await checkRateLimit(request, "auth/magic-link");
+    if (!rateLimit.allowed) {
+      return signinRedirect(request, "magic_link_rate_limited");
+    }
+
+    if (!(await MagicLinkService.isEnabled())) {
+      return signinRedirect(request, "magic_link_disabled");
+    }
+
+    const token = request.nextUrl.searchParams.get("token");
+    if (!token) {
+      return signinRedirect(request, "magic_link_invalid");
+    }
+
+    // The link only works in the browser whose sign-in it was sent for
+    const pending = await LoginTransaction.resume(request, "SIGN_IN", "EMAIL_OTP");
+    const transaction = pending.success ? pending.transaction : null;
+    const result = await MagicLinkService.consume(token, transaction?.id);
+
+    if (!result.success) {
+      log.warn("Magic link rejected", { reason: result.reason, userId: result.userId });
+      if (result.userId) {
+        await recordAuditEvent(request, {
+          action: "LOGIN_MAGIC_LINK_FAILED",
+          userId: result.userId,
+          details: { reason: result.reason },
+        });
+      }
+      const error =
+        result.reason === "browser_mismatch"
+          ? "magic_link_other_browser"
+          : result.reason === "expired"
+            ? "magic_link_expired"
+            : result.reason === "account_inactive"
+              ? "account_inactive"
+              : "magic_link_invalid";
+      return signinRedirect(request, error);
+    }
+
+    const outcome = await EmailLogin.complete(request, transaction!, "magic_link");
+
+    if (outcome.status === "user_not_found") {
+      log.error("User not found after magic link", { userId: result.userId });
+      return signinRedirect(request, "magic_link_invalid");
+    }
+
+    if (outcome.status === "transaction_expired") {
+      const expiredResponse = signinRedirect(request, "magic_link_expired");
+      EmailLogin.applyCookies(expiredResponse, outcome);
+      return expiredResponse;
+    }
+
+    if (outcome.status === "totp_step_up") {
+      const verifyUrl = new URL("/verify-totp", request.url);
+      verifyUrl.searchParams.set("reason", "new_sign_in");
+      const stepUpResponse = NextResponse.redirect(verifyUrl);
+      EmailLogin.applyCookies(stepUpResponse, outcome);
+      return stepUpResponse;
+    }
+
+    log.info("Signed in with magic link", { userId: outcome.user.id });
+    const response = sameSiteRedirect("/authenticated");
+    EmailLogin.applyCookies(response, outcome);
+    return response;
+  } catch (error) {
+    log.error("Magic link sign-in error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return signinRedirect(request, "magic_link_failed");
+  }
+}
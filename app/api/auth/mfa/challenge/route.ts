@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LoginTransaction } from "@/lib/login-transaction";
+import { MfaService } from "@/lib/mfa";
+import { guardRequest } from "@/lib/route-guard";
+import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+// The sign-in waiting for a second factor if there is one, else the signed-in user
+async function challengedUserId(request: NextRequest): Promise<string | null> {
+  const pending = await LoginTransaction.resume(request, "SIGN_IN", "TOTP");
+  if (pending.success) {
+    return pending.transaction.userId;
+  }
+  const guard = await guardRequest(request, { allowPendingEnrollment: true });
+  return guard.authorized ? guard.user.userId : null;
+}
+
+// Starts a security key check: returns options for navigator.credentials.get()
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger("auth/mfa/challenge");
+  try {
+    const rateLimit = await checkRateLimit(request, "auth/verify-totp");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    const userId = await challengedUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const options = await MfaService.securityKeyChallenge(userId);
+    if (!options) {
+      return NextResponse.json({ error: "No security keys are registered" }, { status: 400 });
+    }
+    return NextResponse.json({ options });
+  } catch (error) {
+    log.error("Failed to create security key challenge", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
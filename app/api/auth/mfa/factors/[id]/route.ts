@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { MfaService, isMfaMethod, parseFactorName } from "@/lib/mfa";
+import { MFA_CONFIG } from "@/lib/mfa-config";
+import { recordAuditEvent } from "@/lib/audit";
+import { sendEmail } from "@/lib/email";
+import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Renames a factor ({ name }) and/or makes it the default ({ isDefault: true })
+export const PATCH = withRouteGuard<RouteContext>({}, async (request, { params }, user) => {
+  const log = createRequestLogger("auth/mfa/factors/update");
+  try {
+    const { id } = await params;
+    const { name: rawName, isDefault } = await request.json();
+
+    if (rawName === undefined && isDefault !== true) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    let result;
+    if (rawName !== undefined) {
+      const name = parseFactorName(rawName);
+      if (!name) {
+        return NextResponse.json(
+          { error: `Name must be 1-${MFA_CONFIG.nameMaxLength} characters` },
+          { status: 400 }
+        );
+      }
+      result = await MfaService.rename(user.userId, id, name);
+      if (!result.success) {
+        return NextResponse.json({ error: "Factor not found" }, { status: 404 });
+      }
+      await recordAuditEvent(request, {
+        action: "MFA_FACTOR_RENAMED",
+        userId: user.userId,
+        details: { factorId: id, name },
+      });
+    }
+
+    if (isDefault === true) {
+      result = await MfaService.setDefault(user.userId, id);
+      if (!result.success) {
+        return NextResponse.json({ error: "Factor not found" }, { status: 404 });
+      }
+      await recordAuditEvent(request, {
+        action: "MFA_DEFAULT_CHANGED",
+        userId: user.userId,
+        details: { factorId: id },
+      });
+    }
+
+    return NextResponse.json({ success: true, factor: result?.success ? result.factor : undefined });
+  } catch (error) {
+    log.error("Failed to update second factor", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+// Removes a factor after a fresh second-factor check ({ method, token | credential }).
+// Removing the last one turns two-factor authentication off.
+export const DELETE = withRouteGuard<RouteContext>({}, async (request, { params }, user) => {
+  const log = createRequestLogger("auth/mfa/factors/remove");
+  try {
+    const { id } = await params;
+    const { method, token, credential } = await request.json();
+    if (!isMfaMethod(method) || (method === "security_key" ? !credential : !token)) {
+      return NextResponse.json(
+        { error: "Verification token, backup code or security key required" },
+        { status: 400 }
+      );
+    }
+
+    const rateLimit = await checkRateLimit(request, "auth/2fa/disable", { email: user.email });
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    const verification = await MfaService.verify(user.userId, method, {
+      code: token ? String(token) : undefined,
+      credential,
+    });
+    if (!verification.success) {
+      const status = verification.reason === "locked" ? 423 : 400;
+      const error =
+        verification.reason === "locked"
+          ? "Account temporarily locked due to too many failed attempts"
+          : verification.reason === "challenge_expired"
+            ? "Security key request expired. Please try again."
+            : "Verification failed";
+      return NextResponse.json({ error }, { status });
+    }
+
+    const result = await MfaService.remove(user.userId, id);
+    if (!result.success) {
+      return NextResponse.json({ error: "Factor not found" }, { status: 404 });
+    }
+
+    await recordAuditEvent(request, {
+      action: "MFA_FACTOR_REMOVED",
+      userId: user.userId,
+      details: { factorId: id, type: result.factor.type, name: result.factor.name },
+    });
+
+    if (result.disabled) {
+      await recordAuditEvent(request, {
+        action: "TOTP_DISABLED",
+        userId: user.userId,
+        details: { method: "factor_removed" },
+      });
+      await sendEmail(user.email, "totp_disabled", {
+        name: user.name || "User",
+        disabledAt: new Date(),
+        method: "factor_removed",
+      });
+    }
+
+    return NextResponse.json({ success: true, disabled: result.disabled });
+  } catch (error) {
+    log.error("Failed to remove second factor", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { MfaService } from "@/lib/mfa";
+import { createRequestLogger } from "@/lib/logger";
+
+// Lists the signed-in user's second factors
+export const GET = withRouteGuard(
+  { allowPendingEnrollment: true },
+  async (request: NextRequest, _context, user) => {
+    const log = createRequestLogger("auth/mfa/factors");
+    try {
+      const summary = await MfaService.summary(user.userId);
+      return NextResponse.json(summary);
+    } catch (error) {
+      log.error("Failed to list second factors", { error: String(error) });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LoginTransaction } from "@/lib/login-transaction";
+import { MfaService } from "@/lib/mfa";
+import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+// Second-factor choices for /verify-totp, for the sign-in transaction waiting
+// on its TOTP step
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger("auth/mfa/methods");
+  try {
+    const rateLimit = await checkRateLimit(request, "auth/verify-totp");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    const pending = await LoginTransaction.resume(request, "SIGN_IN", "TOTP");
+    if (!pending.success) {
+      return NextResponse.json(
+        {
+          error:
+            pending.reason === "missing"
+              ? "Verification session not found. Please log in again."
+              : "TOTP verification session expired. Please login again.",
+        },
+        { status: 401 }
+      );
+    }
+
+    const methods = await MfaService.methods(pending.transaction.userId);
+    return NextResponse.json({ methods });
+  } catch (error) {
+    log.error("Failed to list second-factor methods", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { MfaService } from "@/lib/mfa";
+import { createRequestLogger } from "@/lib/logger";
+
+// Starts adding a security key: returns options for navigator.credentials.create()
+export const POST = withRouteGuard(
+  { allowPendingEnrollment: true },
+  async (request: NextRequest, _context, user) => {
+    const log = createRequestLogger("auth/mfa/security-keys/options");
+    try {
+      const options = await MfaService.securityKeyRegistrationOptions({
+        id: user.userId,
+        email: user.email,
+        name: user.name ?? null,
+      });
+      return NextResponse.json({ options });
+    } catch (error) {
+      log.error("Failed to create security key registration options", { error: String(error) });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { MfaService, parseFactorName } from "@/lib/mfa";
+import { MFA_CONFIG } from "@/lib/mfa-config";
+import { TokenRevocation } from "@/lib/token-revocation";
+import { recordAuditEvent } from "@/lib/audit";
+import { sendEmail } from "@/lib/email";
+import { createRequestLogger } from "@/lib/logger";
+
+const ENROLL_ERRORS: Record<string, { error: string; status: number }> = {
+  challenge_expired: { error: "Security key setup timed out. Please try again.", status: 400 },
+  already_registered: { error: "This security key is already registered", status: 409 },
+  limit_reached: {
+    error: `You can enroll up to ${MFA_CONFIG.maxFactorsPerUser} two-factor methods`,
+    status: 400,
+  },
+};
+
+// Finishes adding a security key. When it is the user's first factor this
+// turns two-factor authentication on and returns a fresh set of backup codes.
+export const POST = withRouteGuard(
+  { allowPendingEnrollment: true },
+  async (request: NextRequest, _context, user) => {
+    const log = createRequestLogger("auth/mfa/security-keys");
+    try {
+      const { credential, name: rawName } = await request.json();
+      const name = parseFactorName(rawName, MFA_CONFIG.defaultNames.SECURITY_KEY);
+      if (!credential || !name) {
+        return NextResponse.json(
+          { error: `Credential and a name of at most ${MFA_CONFIG.nameMaxLength} characters are required` },
+          { status: 400 }
+        );
+      }
+
+      const result = await MfaService.addSecurityKey(user.userId, credential, name);
+      if (!result.success) {
+        const failure = ENROLL_ERRORS[result.reason] ?? {
+          error: "Security key could not be verified",
+          status: 400,
+        };
+        return NextResponse.json({ error: failure.error, reason: result.reason }, { status: failure.status });
+      }
+
+      await recordAuditEvent(request, {
+        action: "MFA_FACTOR_ADDED",
+        userId: user.userId,
+        details: { factorId: result.factor.id, type: result.factor.type, name: result.factor.name },
+      });
+
+      if (result.firstFactor) {
+        await recordAuditEvent(request, { action: "TOTP_ENABLED", userId: user.userId });
+        await sendEmail(user.email, "totp_enabled", {
+          name: user.name || "User",
+          enabledAt: result.factor.createdAt,
+        });
+      }
+
+      // Same as 2fa/verify: drop the token that still carries the enrollment hold
+      if (user.totpEnrollmentRequired) {
+        await TokenRevocation.revokeAccessToken(user, "totp_enrolled");
+      }
+
+      return NextResponse.json({
+        success: true,
+        factor: result.factor,
+        backupCodes: result.backupCodes,
+      });
+    } catch (error) {
+      log.error("Failed to add security key", { error: String(error) });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  }
+);
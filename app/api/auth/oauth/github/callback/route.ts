@@ -6,10 +6,11 @@ import {
 } from "@/lib/oauth";
 import { PrismaClient } from "@/app/generated/prisma";
 import { generateOTP, storeOTP } from "@/lib/otp";
-import { sendOTPEmail } from "@/lib/gmail";
-import { TokenService } from "@/lib/jwt";
-import { setPreAuthAccessCookie, clearNextAuthCookies } from "@/lib/cookies";
+import { LoginTransaction } from "@/lib/login-transaction";
+import { deliverOTP, describeDelivery } from "@/lib/otp-delivery";
+import { clearNextAuthCookies } from "@/lib/cookies";
 import { createRequestLogger, redact } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
 
 export async function GET(request: NextRequest) {
   let prisma;
@@ -104,12 +105,21 @@ export async function GET(request: NextRequest) {
 
     // Always require OTP after OAuth (GitHub)
     const otp = generateOTP();
-    await storeOTP(user.email, otp);
+    await storeOTP(user.email, otp, "login");
     log.debug("OTP generated and stored");
 
+    // Sign-in transaction: provider done, code next
+    const { transaction, token } = await LoginTransaction.begin(request, {
+      userId: user.id,
+      flow: "SIGN_IN",
+      method: "oauth_github",
+      steps: ["OAUTH", "EMAIL_OTP"],
+      completed: ["OAUTH"],
+    });
+
     // Send OTP via email
-    const sent = await sendOTPEmail(user.email, otp, user.name || "User");
-    if (!sent) {
+    const loginCode = await deliverOTP(user, otp, "login", transaction.id);
+    if (!loginCode.sent) {
       log.error("Failed to send OTP email");
       return NextResponse.redirect(
         new URL("/signin?error=send_failed", request.url)
@@ -117,28 +127,15 @@ export async function GET(request: NextRequest) {
     }
     log.info("OTP email sent");
 
-    // ✅ FIX: Generate the same OTP token that the login route uses
-    const otpToken = await TokenService.generateTOTPVerificationToken(
-      user.id,
-      user.email,
-      user.email,
-      user.role,
-      user.name || undefined
-    );
-
     // Audit log (OTP sent for OAuth login)
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: "LOGIN_OTP_SENT",
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-        userAgent: request.headers.get("user-agent") || "unknown",
-        details: {
-          provider: "github",
-          ttlMinutes: 10,
-          loginMethod: "oauth_github",
-          verificationType: "email_otp",
-        },
+    await recordAuditEvent(request, {
+      action: "LOGIN_OTP_SENT",
+      userId: user.id,
+      details: {
+        purpose: "login_initial",
+        loginMethod: "oauth_github",
+        ttlMinutes: 10,
+        delivery: describeDelivery(loginCode),
       },
     });
     log.debug("Audit log recorded");
@@ -150,14 +147,8 @@ export async function GET(request: NextRequest) {
 
     const response = NextResponse.redirect(verifyUrl);
 
-    // ✅ FIX: Set the same cookie that verify-otp route expects
-    response.cookies.set("otp_temp_token", otpToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 10 * 60, // 10 minutes
-      path: "/",
-    });
+    // The same transaction cookie the password sign-in sets
+    LoginTransaction.setCookie(response, token);
 
     // Clear other cookies
     clearNextAuthCookies(response);
@@ -166,7 +157,7 @@ export async function GET(request: NextRequest) {
     log.info("Redirecting to verify-otp", {
       path: verifyUrl.pathname,
       query: verifyUrl.search,
-      otpTokenSet: true,
+      transactionStarted: true,
     });
     return response;
   } catch (error) {
@@ -2,10 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { exchangeGoogleCodeForToken, getGoogleUserProfile, googleOAuthConfig } from "@/lib/oauth";
 import { PrismaClient } from "@/app/generated/prisma";
 import { generateOTP, storeOTP } from "@/lib/otp";
-import { sendOTPEmail } from "@/lib/gmail";
-import { TokenService } from "@/lib/jwt";
+import { LoginTransaction } from "@/lib/login-transaction";
+import { deliverOTP, describeDelivery } from "@/lib/otp-delivery";
 import { createRequestLogger, redact } from "@/lib/logger";
-import {clearNextAuthCookies, setPreAuthAccessCookie} from "@/lib/cookies";
+import {clearNextAuthCookies} from "@/lib/cookies";
+import { recordAuditEvent } from "@/lib/audit";
 
 export async function GET(request: NextRequest) {
     let prisma;
@@ -97,33 +98,23 @@ export async function GET(request: NextRequest) {
 
         // If user has TOTP enabled, require authenticator code
         if (user.isTOTPEnabled) {
-            const totpToken = await TokenService.generateTOTPVerificationToken(
-                user.id,
-                user.email,
-                user.email,
-                user.role,
-                user.name || undefined
-            );
+            const { token } = await LoginTransaction.begin(request, {
+                userId: user.id,
+                flow: "SIGN_IN",
+                method: "oauth_google",
+                steps: ["OAUTH", "TOTP"],
+                completed: ["OAUTH"],
+            });
 
-            await prisma.auditLog.create({
-                data: {
-                    userId: user.id,
-                    action: "LOGIN_TOTP_REQUIRED",
-                    ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-                    userAgent: request.headers.get("user-agent") || "unknown",
-                    details: { provider: "google", totpRequired: true },
-                },
+            await recordAuditEvent(request, {
+                action: "LOGIN_TOTP_REQUIRED",
+                userId: user.id,
+                details: { loginMethod: "oauth_google" },
             });
 
             const verifyUrl = new URL("/verify-totp", request.url);
             const response = NextResponse.redirect(verifyUrl);
-            response.cookies.set("totp_temp_token", totpToken, {
-                httpOnly: true,
-                secure: process.env.NODE_ENV === "production",
-                sameSite: "lax",
-                maxAge: 10 * 60,
-                path: "/",
-            });
+            LoginTransaction.setCookie(response, token);
             clearNextAuthCookies(response);
             response.cookies.delete("oauth_state");
 
@@ -134,36 +125,28 @@ export async function GET(request: NextRequest) {
         // If TOTP is NOT enabled, send an email OTP as a fallback 2FA
         try {
             const otp = generateOTP();
-            await storeOTP(user.email, otp);
-            await sendOTPEmail(user.email, otp, user.name ?? "User");
-
-            const otpToken = await TokenService.generateTOTPVerificationToken(
-                user.id,
-                user.email,
-                user.email,
-                user.role,
-                user.name || undefined
-            );
-
-            await prisma.auditLog.create({
-                data: {
-                    userId: user.id,
-                    action: "LOGIN_OTP_REQUIRED",
-                    ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-                    userAgent: request.headers.get("user-agent") || "unknown",
-                    details: { provider: "google", totpRequired: false, otpType: "email" },
+            await storeOTP(user.email, otp, "login");
+            const { transaction, token } = await LoginTransaction.begin(request, {
+                userId: user.id,
+                flow: "SIGN_IN",
+                method: "oauth_google",
+                steps: ["OAUTH", "EMAIL_OTP"],
+                completed: ["OAUTH"],
+            });
+            const loginCode = await deliverOTP(user, otp, "login", transaction.id);
+
+            await recordAuditEvent(request, {
+                action: "LOGIN_OTP_REQUIRED",
+                userId: user.id,
+                details: {
+                    loginMethod: "oauth_google",
+                    delivery: describeDelivery(loginCode),
                 },
             });
 
             const verifyUrl = new URL("/verify-otp", request.url);
             const response = NextResponse.redirect(verifyUrl);
-            response.cookies.set("otp_temp_token", otpToken, {
-                httpOnly: true,
-                secure: process.env.NODE_ENV === "production",
-                sameSite: "lax",
-                maxAge: 10 * 60, // 10 minutes
-                path: "/",
-            });
+            LoginTransaction.setCookie(response, token);
             clearNextAuthCookies(response);
             response.cookies.delete("oauth_state");
 
@@ -193,7 +176,7 @@ export async function GET(request: NextRequest) {
         );
 
         response.cookies.delete("oauth_state");
-        response.cookies.delete("totp_temp_token");
+        LoginTransaction.clearCookie(response);
 
         return response;
     } finally {
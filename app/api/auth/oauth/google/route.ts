@@ -2,10 +2,18 @@ import { NextRequest, NextResponse } from "next/server";
 import { generateGoogleOAuthUrl, googleOAuthConfig } from "@/lib/oauth";
 import { v4 as uuidv4 } from "uuid";
 import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit } from "@/lib/rate-limit";
 
 export async function GET(request: NextRequest) {
   const log = createRequestLogger("oauth/google/init");
   try {
+    const rateLimit = await checkRateLimit(request, "auth/oauth/start");
+    if (!rateLimit.allowed) {
+      return NextResponse.redirect(
+        new URL("/signin?error=rate_limited", request.url)
+      );
+    }
+
     // Generate state parameter for security
     const state = uuidv4();
     log.debug("Starting Google OAuth initiation", { state: state.slice(0, 8) + "***" });
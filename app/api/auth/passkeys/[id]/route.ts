@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { PasskeyService, parsePasskeyName } from "@/lib/passkeys";
+import { recordAuditEvent } from "@/lib/audit";
+import { createRequestLogger } from "@/lib/logger";
+import { WEBAUTHN_CONFIG } from "@/lib/webauthn-config";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Renames one of the signed-in user's passkeys
+export const PATCH = withRouteGuard<RouteContext>({}, async (request, { params }, user) => {
+  const log = createRequestLogger("auth/passkeys/rename");
+  try {
+    const { id } = await params;
+    const { name: rawName } = await request.json();
+    const name = parsePasskeyName(rawName);
+    if (!name) {
+      return NextResponse.json(
+        { error: `Name must be 1-${WEBAUTHN_CONFIG.nameMaxLength} characters` },
+        { status: 400 }
+      );
+    }
+
+    const result = await PasskeyService.rename(user.userId, id, name);
+    if (!result.success) {
+      return NextResponse.json({ error: "Passkey not found" }, { status: 404 });
+    }
+
+    await recordAuditEvent(request, {
+      action: "PASSKEY_RENAMED",
+      userId: user.userId,
+      details: { passkeyId: id, name },
+    });
+
+    return NextResponse.json({ success: true, passkey: result.passkey });
+  } catch (error) {
+    log.error("Failed to rename passkey", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+// Removes one of the signed-in user's passkeys
+export const DELETE = withRouteGuard<RouteContext>({}, async (request: NextRequest, { params }, user) => {
+  const log = createRequestLogger("auth/passkeys/remove");
+  try {
+    const { id } = await params;
+    const result = await PasskeyService.remove(user.userId, id);
+    if (!result.success) {
+      return NextResponse.json({ error: "Passkey not found" }, { status: 404 });
+    }
+
+    await recordAuditEvent(request, {
+      action: "PASSKEY_REMOVED",
+      userId: user.userId,
+      details: { passkeyId: id, name: result.passkey.name },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error("Failed to remove passkey", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
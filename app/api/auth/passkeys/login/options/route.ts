@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PasskeyService } from "@/lib/passkeys";
+import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+// Starts a passkey sign-in: returns options for navigator.credentials.get()
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger("auth/passkeys/login/options");
+  try {
+    const rateLimit = await checkRateLimit(request, "auth/passkeys/login");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    const options = await PasskeyService.authenticationOptions();
+    return NextResponse.json({ options });
+  } catch (error) {
+    log.error("Failed to create passkey sign-in options", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
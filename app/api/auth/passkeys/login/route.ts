@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TokenService } from "@/lib/jwt";
+import { setAuthCookies } from "@/lib/cookies";
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { SessionRegistry } from "@/lib/device-session";
+import { effectivePermissions } from "@/lib/roles";
+import { auditContextFrom, recordAuditEvent } from "@/lib/audit";
+import { LoginRisk } from "@/lib/login-risk";
+import { PasskeyService } from "@/lib/passkeys";
+
+// Finishes a passkey sign-in and issues the same session as verify-totp.
+// A user-verified passkey is possession plus biometric/PIN, so it skips both
+// the emailed code and TOTP, and login risk here only decides the alert.
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger("auth/passkeys/login");
+  try {
+    const rateLimit = await checkRateLimit(request, "auth/passkeys/login");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    const { credential } = await request.json();
+    if (!credential) {
+      return NextResponse.json({ error: "Credential is required" }, { status: 400 });
+    }
+
+    const result = await PasskeyService.finishAuthentication(credential);
+    if (!result.success) {
+      await recordAuditEvent(request, {
+        action: "LOGIN_PASSKEY_FAILED",
+        userId: result.userId ?? null,
+        details: { reason: result.reason },
+      });
+      return NextResponse.json(
+        {
+          error:
+            result.reason === "challenge_expired"
+              ? "Passkey sign-in timed out. Please try again."
+              : "Passkey sign-in failed",
+        },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: result.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        status: true,
+        company: true,
+        plan: true,
+        isTOTPEnabled: true,
+        totpEnrollmentRequired: true,
+        customRole: { select: { permissions: true } },
+      },
+    });
+
+    // The password lockout is not checked: a passkey never touches the
+    // password, and it is the way back in while someone is guessing it
+    if (!user || user.status !== "ACTIVE") {
+      log.warn("Passkey sign-in for unavailable account", { userId: result.userId });
+      await recordAuditEvent(request, {
+        action: "LOGIN_PASSKEY_FAILED",
+        userId: result.userId,
+        details: { reason: "account_inactive", passkeyId: result.passkey.id },
+      });
+      return NextResponse.json(
+        { error: "Account is not active. Please contact support." },
+        { status: 401 }
+      );
+    }
+
+    const requestContext = auditContextFrom(request);
+    const risk = await LoginRisk.evaluate(user.id, requestContext);
+
+    const sessionPayload = {
+      userId: user.id,
+      email: user.email,
+      username: user.email,
+      name: user.name || undefined,
+      role: user.role,
+      permissions: effectivePermissions(user.role, user.customRole?.permissions),
+      isTOTPEnabled: user.isTOTPEnabled,
+      totpEnrollmentRequired: user.totpEnrollmentRequired && !user.isTOTPEnabled,
+    };
+
+    const { token: accessToken, expiresAt: accessTokenExpiresAt } = await TokenService.generateAccessToken(sessionPayload);
+    const { token: refreshToken, expiresAt: refreshTokenExpiresAt } = await TokenService.generateRefreshToken(sessionPayload);
+
+    await prisma.token.create({
+      data: {
+        userId: user.id,
+        token: accessToken,
+        expiresAt: accessTokenExpiresAt,
+      },
+    });
+
+    await SessionRegistry.start(
+      { userId: user.id, refreshToken, expiresAt: refreshTokenExpiresAt },
+      requestContext
+    );
+
+    await recordAuditEvent(request, {
+      action: "LOGIN_PASSKEY_VERIFIED",
+      userId: user.id,
+      details: { passkeyId: result.passkey.id, backedUp: result.passkey.backedUp },
+    });
+
+    if (risk.alert) {
+      await LoginRisk.report(user, risk, requestContext, "alerted");
+    }
+
+    log.info("Passkey sign-in successful", { userId: user.id, passkeyId: result.passkey.id });
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Login successful",
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        company: user.company,
+        plan: user.plan,
+        isTOTPEnabled: user.isTOTPEnabled,
+      },
+    });
+
+    setAuthCookies(response, { accessToken, refreshToken });
+
+    return response;
+  } catch (error) {
+    log.error("Passkey sign-in error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json({ error: "Passkey sign-in failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { PasskeyService } from "@/lib/passkeys";
+import { createRequestLogger } from "@/lib/logger";
+
+// Starts adding a passkey: returns options for navigator.credentials.create()
+export const POST = withRouteGuard({}, async (request: NextRequest, _context, user) => {
+  const log = createRequestLogger("auth/passkeys/register/options");
+  try {
+    const options = await PasskeyService.registrationOptions({
+      id: user.userId,
+      email: user.email,
+      name: user.name ?? null,
+    });
+    return NextResponse.json({ options });
+  } catch (error) {
+    log.error("Failed to create passkey registration options", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { PasskeyService, parsePasskeyName } from "@/lib/passkeys";
+import { recordAuditEvent } from "@/lib/audit";
+import { createRequestLogger } from "@/lib/logger";
+import { WEBAUTHN_CONFIG } from "@/lib/webauthn-config";
+
+const REGISTRATION_ERRORS: Record<string, { error: string; status: number }> = {
+  challenge_expired: { error: "Passkey setup timed out. Please try again.", status: 400 },
+  already_registered: { error: "This passkey is already registered", status: 409 },
+  limit_reached: {
+    error: `You can register up to ${WEBAUTHN_CONFIG.maxPasskeysPerUser} passkeys`,
+    status: 400,
+  },
+};
+
+// Finishes adding a passkey with the browser's attestation response
+export const POST = withRouteGuard({}, async (request: NextRequest, _context, user) => {
+  const log = createRequestLogger("auth/passkeys/register");
+  try {
+    const { credential, name: rawName } = await request.json();
+    const name = parsePasskeyName(rawName);
+    if (!credential || !name) {
+      return NextResponse.json(
+        { error: `Credential and a name of at most ${WEBAUTHN_CONFIG.nameMaxLength} characters are required` },
+        { status: 400 }
+      );
+    }
+
+    const result = await PasskeyService.finishRegistration(user.userId, credential, name);
+    if (!result.success) {
+      const failure = REGISTRATION_ERRORS[result.reason] ?? {
+        error: "Passkey could not be verified",
+        status: 400,
+      };
+      return NextResponse.json({ error: failure.error, reason: result.reason }, { status: failure.status });
+    }
+
+    await recordAuditEvent(request, {
+      action: "PASSKEY_REGISTERED",
+      userId: user.userId,
+      details: { passkeyId: result.passkey.id, name: result.passkey.name, backedUp: result.passkey.backedUp },
+    });
+
+    return NextResponse.json({ success: true, passkey: result.passkey });
+  } catch (error) {
+    log.error("Failed to register passkey", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
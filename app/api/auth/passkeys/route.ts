@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { PasskeyService } from "@/lib/passkeys";
+import { createRequestLogger } from "@/lib/logger";
+
+// Lists the signed-in user's passkeys
+export const GET = withRouteGuard({}, async (request: NextRequest, _context, user) => {
+  const log = createRequestLogger("auth/passkeys");
+  try {
+    const passkeys = await PasskeyService.list(user.userId);
+    return NextResponse.json({ passkeys });
+  } catch (error) {
+    log.error("Failed to list passkeys", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
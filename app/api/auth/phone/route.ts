@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { PhoneService } from "@/lib/phone";
+import { isOTPChannel } from "@/lib/otp-delivery";
+import { maskPhoneNumber } from "@/lib/sms";
+import { recordAuditEvent } from "@/lib/audit";
+import { createRequestLogger } from "@/lib/logger";
+
+// The signed-in user's phone number and where their codes are sent
+export const GET = withRouteGuard({}, async (_request: NextRequest, _context, user) => {
+  const log = createRequestLogger("auth/phone");
+  try {
+    return NextResponse.json({ phone: await PhoneService.view(user.userId) });
+  } catch (error) {
+    log.error("Failed to load phone number", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+// Body: { otpChannel: "email" | "sms" }
+export const PATCH = withRouteGuard({}, async (request: NextRequest, _context, user) => {
+  const log = createRequestLogger("auth/phone");
+  try {
+    const { otpChannel } = await request.json();
+    if (!isOTPChannel(otpChannel)) {
+      return NextResponse.json({ error: "otpChannel must be email or sms" }, { status: 400 });
+    }
+
+    const result = await PhoneService.setChannel(user.userId, otpChannel);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Add and verify a phone number before choosing SMS" },
+        { status: 409 }
+      );
+    }
+
+    await recordAuditEvent(request, {
+      action: "OTP_CHANNEL_CHANGED",
+      userId: user.userId,
+      details: { channel: otpChannel },
+    });
+
+    return NextResponse.json({ success: true, phone: result.phone });
+  } catch (error) {
+    log.error("Failed to change code delivery", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+// Removes the phone number; codes go back to email
+export const DELETE = withRouteGuard({}, async (request: NextRequest, _context, user) => {
+  const log = createRequestLogger("auth/phone");
+  try {
+    const before = await PhoneService.view(user.userId);
+    const result = await PhoneService.remove(user.userId);
+    if (!result.success || !before.phoneNumber) {
+      return NextResponse.json({ error: "No phone number on this account" }, { status: 404 });
+    }
+
+    await recordAuditEvent(request, {
+      action: "PHONE_REMOVED",
+      userId: user.userId,
+      details: { phoneNumber: maskPhoneNumber(before.phoneNumber) },
+    });
+
+    return NextResponse.json({ success: true, phone: result.phone });
+  } catch (error) {
+    log.error("Failed to remove phone number", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
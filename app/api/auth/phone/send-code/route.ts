@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { PhoneService } from "@/lib/phone";
+import { describeOTPThrottle } from "@/lib/otp";
+import { normalizePhoneNumber } from "@/lib/sms";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+import { createRequestLogger } from "@/lib/logger";
+
+// Texts a code to the number the user wants to add. Body: { phoneNumber }
+export const POST = withRouteGuard({}, async (request: NextRequest, _context, user) => {
+  const log = createRequestLogger("auth/phone/send-code");
+  try {
+    const rateLimit = await checkRateLimit(request, "auth/phone/send-code");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    const { phoneNumber: rawPhone } = await request.json();
+    const phoneNumber = normalizePhoneNumber(rawPhone);
+    if (!phoneNumber) {
+      return NextResponse.json(
+        { error: "Enter the phone number in international format, e.g. +1 555 010 1234" },
+        { status: 400 }
+      );
+    }
+
+    const result = await PhoneService.sendCode(user.userId, phoneNumber, getClientIp(request));
+    if (!result.success) {
+      if (result.reason === "throttled") {
+        return NextResponse.json(
+          {
+            error: describeOTPThrottle(result.throttle),
+            reason: result.throttle.reason,
+            retryAfter: result.throttle.retryAfterSeconds,
+          },
+          { status: 429, headers: { "Retry-After": String(result.throttle.retryAfterSeconds) } }
+        );
+      }
+      return result.reason === "taken"
+        ? NextResponse.json({ error: "That phone number is already in use" }, { status: 409 })
+        : NextResponse.json({ error: "Failed to send the text message. Please try again." }, { status: 503 });
+    }
+
+    return NextResponse.json({ success: true, phoneNumber });
+  } catch (error) {
+    log.error("Failed to send phone verification code", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRouteGuard } from "@/lib/route-guard";
+import { PhoneService } from "@/lib/phone";
+import { maskPhoneNumber, normalizePhoneNumber } from "@/lib/sms";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import { createRequestLogger } from "@/lib/logger";
+
+// Saves the number once the texted code checks out. Body: { phoneNumber, code }
+export const POST = withRouteGuard({}, async (request: NextRequest, _context, user) => {
+  const log = createRequestLogger("auth/phone/verify");
+  try {
+    const rateLimit = await checkRateLimit(request, "auth/phone/verify");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    const { phoneNumber: rawPhone, code } = await request.json();
+    const phoneNumber = normalizePhoneNumber(rawPhone);
+    if (!phoneNumber || !code) {
+      return NextResponse.json({ error: "Phone number and code are required" }, { status: 400 });
+    }
+
+    const result = await PhoneService.confirm(user.userId, phoneNumber, String(code));
+    if (!result.success) {
+      if (result.reason === "taken") {
+        return NextResponse.json({ error: "That phone number is already in use" }, { status: 409 });
+      }
+      if (result.reason === "mismatch") {
+        return NextResponse.json(
+          { error: "Invalid code", reason: result.reason, attemptsRemaining: result.attemptsRemaining },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: "This code is no longer valid. Please request a new one.", reason: result.reason },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent(request, {
+      action: "PHONE_VERIFIED",
+      userId: user.userId,
+      details: { phoneNumber: maskPhoneNumber(phoneNumber) },
+    });
+
+    log.info("Phone number verified", { userId: user.userId });
+    return NextResponse.json({ success: true, phone: result.phone });
+  } catch (error) {
+    log.error("Failed to verify phone number", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RefreshTokenService } from "@/lib/refresh-token";
+import { COOKIE_NAMES, clearAuthCookies, setAuthCookies } from "@/lib/cookies";
+import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+
+export async function POST(request: NextRequest) {
+  const log = createRequestLogger("auth/refresh");
+  try {
+    const rateLimit = await checkRateLimit(request, "auth/refresh");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    const refreshToken = request.cookies.get(COOKIE_NAMES.refreshToken)?.value;
+
+    if (!refreshToken) {
+      return NextResponse.json({ error: "Refresh token missing" }, { status: 401 });
+    }
+
+    const result = await RefreshTokenService.rotate(refreshToken, {
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get("user-agent") || "unknown",
+    });
+
+    if (!result.success) {
+      log.info("Refresh rejected", { reason: result.reason });
+      const response = NextResponse.json(
+        { error: "Session expired. Please sign in again.", reason: result.reason },
+        { status: 401 }
+      );
+      clearAuthCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      accessTokenExpiresAt: result.accessTokenExpiresAt.toISOString(),
+    });
+    setAuthCookies(response, {
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+    });
+
+    log.debug("Session refreshed", { userId: result.userId });
+    return response;
+  } catch (error) {
+    log.error("Refresh error", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
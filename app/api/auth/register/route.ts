@@ -2,10 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { verifyOTP } from "@/lib/otp";
 import { hashPassword } from "@/lib/auth";
 import { TokenService } from "@/lib/jwt";
+import { setAuthCookies } from "@/lib/cookies";
 import {
   validatePassword,
   defaultRequirements,
 } from "@/lib/passwordValidation"; // ✅ ADD THIS IMPORT
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+import { SessionRegistry } from "@/lib/device-session";
+import { effectivePermissions } from "@/lib/roles";
+import { recordAuditEvent } from "@/lib/audit";
 
 // Use direct Prisma client for now to avoid import issues
 import { PrismaClient } from "@/app/generated/prisma";
@@ -15,6 +21,11 @@ export async function POST(request: NextRequest) {
   try {
     console.log("Verify OTP Register endpoint hit");
 
+    const rateLimit = await checkRateLimit(request, "auth/register");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
     // Parse request body
     let body;
     try {
@@ -70,7 +81,7 @@ export async function POST(request: NextRequest) {
 
     // ✅ VERIFY OTP FIRST
     console.log("Verifying OTP for email:", email);
-    const isOTPValid = await verifyOTP(email, otp);
+    const isOTPValid = await verifyOTP(email, otp, "register");
 
     if (!isOTPValid) {
       console.log("Invalid OTP provided:", otp);
@@ -131,6 +142,7 @@ export async function POST(request: NextRequest) {
       email: user.email,
       name: user.name ?? undefined,
       role: user.role,
+      permissions: effectivePermissions(user.role),
       isTOTPEnabled: user.isTOTPEnabled,
       otpRequired: false,
       otpVerified: true,
@@ -148,28 +160,23 @@ export async function POST(request: NextRequest) {
         expiresAt: accessTokenExpiresAt,
       },
     });
-    await prisma.refreshToken.create({
-        data: {
-            userId: user.id,
-            token: refreshToken,
-            expiresAt: refreshTokenExpiresAt,
-        },
-    });
+    await SessionRegistry.start(
+      { userId: user.id, refreshToken, expiresAt: refreshTokenExpiresAt },
+      {
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get("user-agent") || "unknown",
+      }
+    );
     console.log("Tokens saved to DB");
 
     // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: "REGISTER_WITH_OTP", // ✅ Changed to reflect OTP registration
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-        userAgent: request.headers.get("user-agent") || "unknown",
-        details: {
-          company: company,
-          plan: plan,
-          method: "OTP_VERIFICATION", // ✅ Added OTP method
-          passwordStrength: passwordValidation.strength, // ✅ Added password strength
-        },
+    await recordAuditEvent(request, {
+      action: "REGISTER_WITH_OTP",
+      userId: user.id,
+      details: {
+        company,
+        plan,
+        passwordStrength: passwordValidation.strength,
       },
     });
     console.log("Audit log created");
@@ -187,20 +194,7 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Set HTTP-only cookies
-    response.cookies.set("accessToken", accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 15 * 60, // 15 minutes
-    });
-
-    response.cookies.set("refreshToken", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-    });
+    setAuthCookies(response, { accessToken, refreshToken });
 
     console.log("OTP Registration completed successfully");
     return response;
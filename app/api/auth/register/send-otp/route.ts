@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
-import { generateOTP, storeOTP } from '@/lib/otp';
-import { sendOTPEmail } from '@/lib/gmail';
+import { describeOTPThrottle, generateOTP, reserveOTPSend, storeOTP } from '@/lib/otp';
+import { sendEmail } from '@/lib/email';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/client-ip';
 
 export async function POST(request: Request) {
   try {
@@ -16,16 +18,34 @@ export async function POST(request: Request) {
       );
     }
 
+    const rateLimit = await checkRateLimit(request, 'auth/register/send-otp', { email });
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    // Enforce resend cooldown and hourly caps (per email and per IP)
+    const throttle = await reserveOTPSend(email, 'register', getClientIp(request));
+    if (!throttle.allowed) {
+      console.warn('OTP send throttled:', { reason: throttle.reason });
+      return NextResponse.json(
+        {
+          error: describeOTPThrottle(throttle),
+          reason: throttle.reason,
+          retryAfter: throttle.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } }
+      );
+    }
+
     // Generate OTP
     const otp = generateOTP();
-    console.log('Generated OTP for registration:', otp);
     
     // Store OTP
-    await storeOTP(email, otp);
+    await storeOTP(email, otp, 'register');
     console.log('OTP stored for email:', email);
     
     // Send OTP email
-    const emailSent = await sendOTPEmail(email, otp, name || 'New User');
+    const emailSent = await sendEmail(email, 'registration_otp', { name: name || 'New User', code: otp });
 
     if (!emailSent) {
       console.error('Failed to send OTP email to:', email);
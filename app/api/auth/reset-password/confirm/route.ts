@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@/app/generated/prisma";
 import { createRequestLogger } from "@/lib/logger";
-import { TokenService } from "@/lib/jwt";
+import { LoginTransaction } from "@/lib/login-transaction";
 import { hashPassword } from "@/lib/auth";
+import { TokenRevocation } from "@/lib/token-revocation";
+import { getClientIp } from "@/lib/client-ip";
+import { sendEmail } from "@/lib/email";
 
 const prisma = new PrismaClient();
 
@@ -10,9 +13,10 @@ export async function POST(request: NextRequest) {
     const log = createRequestLogger("auth/reset-password/confirm");
     try {
         const { password } = await request.json();
-        const finalToken = request.cookies.get("password_reset_final_token")?.value;
+        // Every step of the reset must be done; finishing spends the transaction
+        const pending = await LoginTransaction.resume(request, "PASSWORD_RESET", null);
 
-        if (!finalToken) {
+        if (!pending.success) {
             return NextResponse.json({ error: "Password reset session not found. Please try again." }, { status: 400 });
         }
 
@@ -20,20 +24,36 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: "Password is required" }, { status: 400 });
         }
 
-        const payload = await TokenService.verifyTOTPToken(finalToken);
+        if (!(await LoginTransaction.finish(pending.transaction))) {
+            return NextResponse.json({ error: "Password reset session not found. Please try again." }, { status: 400 });
+        }
+
+        const userId = pending.transaction.userId;
         const hashedPassword = await hashPassword(password);
 
-        await prisma.user.update({
-            where: { id: payload.userId },
+        const user = await prisma.user.update({
+            where: { id: userId },
             data: { password: hashedPassword },
+            select: { email: true, name: true },
+        });
+
+        // Sign out every existing session; they were authenticated with the old password
+        await TokenRevocation.revokeAllForUser(userId, "password_reset");
+
+        await sendEmail(user.email, "password_changed", {
+            name: user.name || "User",
+            changedAt: new Date(),
+            ipAddress: getClientIp(request),
         });
 
         const response = NextResponse.json({ success: true });
-        response.cookies.delete("password_reset_final_token");
+        LoginTransaction.clearCookie(response);
 
         return response;
-    } catch (error: any) {
-        log.error("Password reset confirmation error", { error: error.message });
+    } catch (error) {
+        log.error("Password reset confirmation error", {
+            error: error instanceof Error ? error.message : String(error),
+        });
         return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
     }
 }
@@ -1,18 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@/app/generated/prisma";
 import { createRequestLogger } from "@/lib/logger";
-import { TokenService } from "@/lib/jwt";
+import { LoginTransaction } from "@/lib/login-transaction";
 import { verifyOTP } from "@/lib/otp";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
 
 const prisma = new PrismaClient();
 
 export async function POST(request: NextRequest) {
   const log = createRequestLogger("auth/reset-password/verify-otp");
   try {
+    const rateLimit = await checkRateLimit(request, "auth/reset-password/verify");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
     const { verificationCode } = await request.json();
-    const resetToken = request.cookies.get("password_reset_token")?.value;
+    const pending = await LoginTransaction.resume(request, "PASSWORD_RESET", "EMAIL_OTP");
 
-    if (!resetToken) {
+    if (!pending.success) {
       return NextResponse.json(
         { error: "Password reset session not found. Please try again." },
         { status: 400 }
@@ -26,11 +32,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const payload = await TokenService.verifyTOTPToken(resetToken);
-    const isValid = await verifyOTP(
-      payload.email, // Change from userId to email
-      verificationCode
-    );
+    const user = await prisma.user.findUnique({
+      where: { id: pending.transaction.userId },
+      select: { email: true },
+    });
+    const isValid = user
+      ? await verifyOTP(user.email, verificationCode, "password_reset")
+      : false;
 
     if (!isValid) {
       return NextResponse.json(
@@ -39,23 +47,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const finalToken = await TokenService.generateTOTPVerificationToken(
-      payload.userId,
-      payload.email,
-      payload.email,
-      "USER"
-    );
-    const response = NextResponse.json({ success: true });
-    response.cookies.set("password_reset_final_token", finalToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 5 * 60, // 5 minutes
-      path: "/",
-    });
-    response.cookies.delete("password_reset_token");
+    // The code is the only step, so the reset can now be confirmed
+    if (!(await LoginTransaction.advance(pending.transaction, "EMAIL_OTP"))) {
+      return NextResponse.json(
+        { error: "Password reset session not found. Please try again." },
+        { status: 400 }
+      );
+    }
 
-    return response;
+    return NextResponse.json({ success: true });
   } catch (error: any) {
     log.error("Password reset OTP verification error", {
       error: error.message,
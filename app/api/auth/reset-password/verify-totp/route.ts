@@ -1,18 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PrismaClient } from "@/app/generated/prisma";
 import { createRequestLogger } from "@/lib/logger";
-import { TokenService } from "@/lib/jwt";
-import { TOTPAuth } from "@/lib/totp-auth";
-
-const prisma = new PrismaClient();
+import { LoginTransaction } from "@/lib/login-transaction";
+import { MfaService } from "@/lib/mfa";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
 
 export async function POST(request: NextRequest) {
     const log = createRequestLogger("auth/reset-password/verify-totp");
     try {
+        const rateLimit = await checkRateLimit(request, "auth/reset-password/verify");
+        if (!rateLimit.allowed) {
+            return rateLimitResponse(rateLimit);
+        }
+
         const { token } = await request.json();
-        const resetToken = request.cookies.get("password_reset_token")?.value;
+        const pending = await LoginTransaction.resume(request, "PASSWORD_RESET", "TOTP");
 
-        if (!resetToken) {
+        if (!pending.success) {
             return NextResponse.json({ error: "Password reset session not found. Please try again." }, { status: 400 });
         }
 
@@ -20,25 +23,21 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: "Verification code is required" }, { status: 400 });
         }
 
-        const payload = await TokenService.verifyTOTPToken(resetToken);
-        const { success } = await TOTPAuth.verifyTOTP(payload.userId, token);
+        const verification = await MfaService.verify(pending.transaction.userId, "totp", { code: String(token) });
 
-        if (!success) {
+        if (!verification.success) {
+            if (verification.reason === "locked") {
+                return NextResponse.json({ error: "Too many failed attempts. Please try again later." }, { status: 423 });
+            }
             return NextResponse.json({ error: "Invalid verification code" }, { status: 400 });
         }
 
-        const finalToken = await TokenService.generateTOTPVerificationToken(payload.userId, payload.email, payload.email, "USER");
-        const response = NextResponse.json({ success: true });
-        response.cookies.set("password_reset_final_token", finalToken, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === "production",
-            sameSite: "lax",
-            maxAge: 5 * 60, // 5 minutes
-            path: "/",
-        });
-        response.cookies.delete("password_reset_token");
-
-        return response;
+        // TOTP is the only step, so the reset can now be confirmed
+        if (!(await LoginTransaction.advance(pending.transaction, "TOTP"))) {
+            return NextResponse.json({ error: "Password reset session not found. Please try again." }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
     } catch (error: any) {
         log.error("Password reset TOTP verification error", { error: error.message });
         return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
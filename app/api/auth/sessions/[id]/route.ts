@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAccessTokenPayload } from "@/lib/auth";
+import { COOKIE_NAMES, clearAuthCookies } from "@/lib/cookies";
+import { SessionRegistry } from "@/lib/device-session";
+import { createRequestLogger } from "@/lib/logger";
+import { getClientIp } from "@/lib/client-ip";
+
+// Revoke a single session. Revoking the current one also signs this browser out.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const log = createRequestLogger("auth/sessions/revoke");
+  try {
+    const payload = await getAccessTokenPayload(request);
+    if (!payload) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const currentSessionId = await SessionRegistry.findIdByRefreshToken(
+      request.cookies.get(COOKIE_NAMES.refreshToken)?.value
+    );
+
+    const revoked = await SessionRegistry.revoke(payload.userId, id, {
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get("user-agent") || "unknown",
+    });
+    if (!revoked) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    log.info("Session revoked", { userId: payload.userId, sessionId: id });
+
+    const current = id === currentSessionId;
+    const response = NextResponse.json({ success: true, signedOut: current });
+    if (current) {
+      clearAuthCookies(response);
+    }
+    return response;
+  } catch (error) {
+    log.error("Failed to revoke session", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
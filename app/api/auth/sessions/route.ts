@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAccessTokenPayload } from "@/lib/auth";
+import { COOKIE_NAMES } from "@/lib/cookies";
+import { SessionRegistry } from "@/lib/device-session";
+import { createRequestLogger } from "@/lib/logger";
+import { getClientIp } from "@/lib/client-ip";
+
+// List the signed-in user's active sessions
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger("auth/sessions/list");
+  try {
+    const payload = await getAccessTokenPayload(request);
+    if (!payload) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const { userId } = payload;
+
+    const currentSessionId = await SessionRegistry.findIdByRefreshToken(
+      request.cookies.get(COOKIE_NAMES.refreshToken)?.value
+    );
+    const sessions = await SessionRegistry.list(userId, currentSessionId);
+
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    log.error("Failed to list sessions", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Sign out of every session except the current one
+export async function DELETE(request: NextRequest) {
+  const log = createRequestLogger("auth/sessions/revoke-others");
+  try {
+    const payload = await getAccessTokenPayload(request);
+    if (!payload) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const { userId } = payload;
+
+    const currentSessionId = await SessionRegistry.findIdByRefreshToken(
+      request.cookies.get(COOKIE_NAMES.refreshToken)?.value
+    );
+    const revoked = await SessionRegistry.revokeOthers(userId, currentSessionId, {
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get("user-agent") || "unknown",
+    });
+
+    log.info("Other sessions revoked", { userId, revoked });
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    log.error("Failed to revoke sessions", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TokenService } from "@/lib/jwt";
+import { TokenRevocation } from "@/lib/token-revocation";
+import { COOKIE_NAMES } from "@/lib/cookies";
+import { createRequestLogger } from "@/lib/logger";
+
+// Revocation lookup for the Edge middleware, which cannot reach the database.
+// Only reports on the caller's own access token cookie.
+export async function GET(request: NextRequest) {
+  const log = createRequestLogger("auth/token-status");
+  try {
+    const accessToken = request.cookies.get(COOKIE_NAMES.accessToken)?.value;
+    if (!accessToken) {
+      return NextResponse.json({ active: false }, { status: 401 });
+    }
+
+    let payload;
+    try {
+      payload = await TokenService.verifyAccessToken(accessToken);
+    } catch {
+      return NextResponse.json({ active: false }, { status: 401 });
+    }
+
+    if (await TokenRevocation.isRevoked(payload)) {
+      log.debug("Revoked access token presented", { userId: payload.userId });
+      return NextResponse.json({ active: false, reason: "revoked" }, { status: 401 });
+    }
+
+    return NextResponse.json({ active: true });
+  } catch (error) {
+    log.error("Token status check failed", { error: String(error) });
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,28 +1,34 @@
 // app/api/auth/verify-otp/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { TokenService } from "@/lib/jwt";
-import { PrismaClient } from "@/app/generated/prisma";
+import { prisma } from "@/lib/prisma";
 import { createRequestLogger } from "@/lib/logger";
-import { verifyOTP } from "@/lib/otp";
-
-const prisma = new PrismaClient();
+import { checkOTP } from "@/lib/otp";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { EmailLogin } from "@/lib/email-login";
+import { LoginTransaction } from "@/lib/login-transaction";
 
 export async function POST(request: NextRequest) {
   const log = createRequestLogger("auth/verify-otp");
   try {
+    const rateLimit = await checkRateLimit(request, "auth/verify-otp");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
     const { verificationCode } = await request.json();
     log.debug("Incoming verify-otp payload", {
       codeLength: verificationCode ? String(verificationCode).length : 0,
     });
 
-    const cookieToken = request.cookies.get("otp_temp_token")?.value;
-    if (!cookieToken) {
-      log.warn("Missing OTP temp token cookie");
+    const pending = await LoginTransaction.resume(request, "SIGN_IN", "EMAIL_OTP");
+    if (!pending.success) {
+      log.warn("No sign-in waiting for a code", { reason: pending.reason });
       return NextResponse.json(
         { error: "Verification session not found. Please log in again." },
         { status: 400 }
       );
     }
+    const { transaction } = pending;
 
     if (!verificationCode) {
       return NextResponse.json(
@@ -31,113 +37,91 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const tokenPayload = await TokenService.verifyTOTPToken(cookieToken);
-    log.debug("OTP token verified", {
-      userId: tokenPayload.userId,
-      email: tokenPayload.email,
+    const user = await prisma.user.findUnique({
+      where: { id: transaction.userId },
+      select: { email: true },
     });
+    if (!user) {
+      log.error("User not found for pending sign-in", { userId: transaction.userId });
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
 
-    // ✅ FIX: Use email instead of userId for OTP verification
-    const isValid = await verifyOTP(
-      tokenPayload.email, // Changed from userId to email
-      verificationCode
-    );
+    // Codes are keyed by email whichever channel delivered them
+    const otpResult = await checkOTP(user.email, verificationCode, "login");
 
-    if (!isValid) {
+    if (!otpResult.success) {
       log.warn("Invalid OTP code", {
-        userId: tokenPayload.userId,
-        email: tokenPayload.email,
-        providedCode: verificationCode,
+        userId: transaction.userId,
+        reason: otpResult.reason,
       });
+
+      if (otpResult.reason === "too_many_attempts") {
+        return NextResponse.json(
+          {
+            error: "Too many incorrect attempts. Please request a new code.",
+            reason: otpResult.reason,
+          },
+          { status: 400 }
+        );
+      }
+
+      if (otpResult.reason === "expired" || otpResult.reason === "not_found") {
+        return NextResponse.json(
+          {
+            error: "Verification code has expired. Please request a new code.",
+            reason: otpResult.reason,
+          },
+          { status: 400 }
+        );
+      }
+
       return NextResponse.json(
-        { error: "Invalid verification code" },
+        {
+          error: "Invalid verification code",
+          reason: otpResult.reason,
+          attemptsRemaining: otpResult.attemptsRemaining,
+        },
         { status: 400 }
       );
     }
 
-    log.info("OTP code is valid", {
-      userId: tokenPayload.userId,
-      email: tokenPayload.email,
-    });
+    log.info("OTP code is valid", { userId: transaction.userId });
 
-    const user = await prisma.user.findUnique({
-      where: { id: tokenPayload.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        isTOTPEnabled: true,
-      },
-    });
+    const outcome = await EmailLogin.complete(request, transaction, "email_otp");
 
-    if (!user) {
+    if (outcome.status === "user_not_found") {
       log.error("User not found after OTP verification", {
-        userId: tokenPayload.userId,
+        userId: transaction.userId,
       });
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const { token: accessToken, expiresAt: accessTokenExpiresAt } = await TokenService.generateAccessToken({ ...user });
-    const { token: refreshToken, expiresAt: refreshTokenExpiresAt } = await TokenService.generateRefreshToken({ ...user });
-
-    await prisma.token.create({
-        data: {
-            userId: user.id,
-            token: accessToken,
-            expiresAt: accessTokenExpiresAt,
-        },
-    });
-
-    await prisma.refreshToken.create({
-        data: {
-            userId: user.id,
-            token: refreshToken,
-            expiresAt: refreshTokenExpiresAt,
-        },
-    });
+    if (outcome.status === "transaction_expired") {
+      const expiredResponse = NextResponse.json(
+        { error: "Verification session expired. Please log in again." },
+        { status: 400 }
+      );
+      EmailLogin.applyCookies(expiredResponse, outcome);
+      return expiredResponse;
+    }
 
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: "LOGIN_OTP_VERIFIED",
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-        userAgent: request.headers.get("user-agent") || "unknown",
-        details: {
-          email: user.email,
-          verificationMethod: "email_otp",
-        },
-      },
-    });
+    if (outcome.status === "totp_step_up") {
+      const stepUpResponse = NextResponse.json({
+        success: true,
+        requiresTOTP: true,
+        stepUp: true,
+        message: "Additional verification required for this sign-in",
+      });
+      EmailLogin.applyCookies(stepUpResponse, outcome);
+      return stepUpResponse;
+    }
 
     const response = NextResponse.json({
       success: true,
       message: "Login successful",
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-    });
-
-    response.cookies.set("accessToken", accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 15 * 60, // 15 minutes
-      path: "/",
-    });
-
-    response.cookies.set("refreshToken", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-      path: "/",
+      user: outcome.user,
     });
-
-    response.cookies.delete("otp_temp_token");
+    EmailLogin.applyCookies(response, outcome);
 
     return response;
   } catch (error) {
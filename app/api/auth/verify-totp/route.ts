@@ -1,93 +1,111 @@
 import { NextRequest, NextResponse } from "next/server";
 import { TokenService } from "@/lib/jwt";
-import { TOTPAuth } from "@/lib/totp-auth";
+import { setAuthCookies } from "@/lib/cookies";
+import { MfaService, isMfaMethod, type MfaMethod } from "@/lib/mfa";
 import { PrismaClient } from "@/app/generated/prisma";
-import { createRequestLogger, redact } from "@/lib/logger";
+import { createRequestLogger } from "@/lib/logger";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { SessionRegistry } from "@/lib/device-session";
+import { effectivePermissions } from "@/lib/roles";
+import { auditContextFrom, recordAuditEvent } from "@/lib/audit";
+import { LoginRisk } from "@/lib/login-risk";
+import { LoginTransaction } from "@/lib/login-transaction";
+import type { SecondFactorMethod } from "@/lib/audit-events";
+
+const AUDIT_METHODS: Record<MfaMethod, SecondFactorMethod> = {
+  totp: "totp_code",
+  security_key: "security_key",
+  backup_code: "backup_code",
+};
 
 const prisma = new PrismaClient();
 
 export async function POST(request: NextRequest) {
   const log = createRequestLogger("auth/verify-totp");
   try {
+    const rateLimit = await checkRateLimit(request, "auth/verify-totp");
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
     const {
-      totpToken: bodyToken,
       verificationCode,
       useBackupCode = false,
+      method: requestedMethod,
+      factorId,
+      credential,
     } = await request.json();
+    // useBackupCode predates the method field and is still accepted
+    const method: MfaMethod = isMfaMethod(requestedMethod)
+      ? requestedMethod
+      : useBackupCode
+        ? "backup_code"
+        : "totp";
     log.debug("Incoming verify-totp payload", {
-      hasBodyToken: !!bodyToken,
       codeLength: verificationCode ? String(verificationCode).length : 0,
-      useBackupCode,
+      method,
     });
 
-    // Try to get token from body first, then from cookies
-    let totpToken = bodyToken;
-
-    if (!totpToken) {
-      // Check if token is in cookies (for OAuth flow)
-      const cookieToken = request.cookies.get("totp_temp_token")?.value;
-      log.debug("Attempted to read token from cookie", { hasCookieToken: !!cookieToken });
-      if (cookieToken) {
-        totpToken = cookieToken;
-      }
+    const pending = await LoginTransaction.resume(request, "SIGN_IN", "TOTP");
+    if (!pending.success) {
+      log.warn("No sign-in waiting for a second factor", { reason: pending.reason });
+      return NextResponse.json(
+        { error: "TOTP verification session expired. Please login again." },
+        { status: 401 }
+      );
     }
+    const { transaction } = pending;
 
-    log.debug("Final TOTP token source", {
-        fromBody: !!bodyToken,
-        fromCookie: !bodyToken && !!totpToken,
-        token: redact(totpToken),
-    });
-
-    if (!totpToken || !verificationCode) {
-      log.warn("Missing token or code", {
-          hasToken: !!totpToken,
-          hasCode: !!verificationCode,
-      });
+    const hasProof = method === "security_key" ? !!credential : !!verificationCode;
+    if (!hasProof) {
+      log.warn("Missing verification code", { method });
       return NextResponse.json(
-        { error: "TOTP token and verification code are required" },
+        { error: "Verification code is required" },
         { status: 400 }
       );
     }
 
-    // Verify the TOTP verification token
-    const tokenPayload = await TokenService.verifyTOTPToken(totpToken);
-    log.debug("TOTP token verified", { userId: tokenPayload.userId, email: tokenPayload.email });
-
-
-    let isValid = false;
-
-    if (useBackupCode) {
-      log.debug("Verifying backup code...");
-      // Verify backup code
-      isValid = await TOTPAuth.verifyBackupCode(
-        tokenPayload.userId,
-        verificationCode
-      );
-      log.debug("Backup code verification result", { isValid });
-    } else {
-      log.debug("Verifying TOTP code...");
-      // Verify TOTP code
-      const result = await TOTPAuth.verifyTOTP(
-        tokenPayload.userId,
-        verificationCode
+    const verification = await MfaService.verify(transaction.userId, method, {
+      factorId: typeof factorId === "string" ? factorId : undefined,
+      code: verificationCode ? String(verificationCode) : undefined,
+      credential,
+    });
+    log.debug("Second factor verification result", { method, success: verification.success });
+
+    if (!verification.success) {
+      log.warn("Second factor rejected", { userId: transaction.userId, reason: verification.reason });
+      if (verification.reason === "locked") {
+        return NextResponse.json(
+          { error: "Too many failed attempts. Please try again later." },
+          { status: 423 }
+        );
+      }
+      return NextResponse.json(
+        {
+          error:
+            verification.reason === "challenge_expired"
+              ? "Security key request expired. Please try again."
+              : "Invalid verification code",
+        },
+        { status: 400 }
       );
-      isValid = result.success;
-      log.debug("TOTP code verification result", { isValid, delta: result.success });
     }
 
-    if (!isValid) {
-      log.warn("Invalid verification code", { userId: tokenPayload.userId });
+    log.info("Verification code is valid", { userId: transaction.userId });
+
+    // TOTP is the last step; finishing spends the transaction so it can't be replayed
+    const advanced = await LoginTransaction.advance(transaction, "TOTP");
+    if (!advanced || !(await LoginTransaction.finish(advanced))) {
+      log.warn("Sign-in transaction already used", { userId: transaction.userId });
       return NextResponse.json(
-        { error: "Invalid verification code" },
-        { status: 400 }
+        { error: "TOTP verification session expired. Please login again." },
+        { status: 401 }
       );
     }
 
-    log.info("Verification code is valid", { userId: tokenPayload.userId });
-
     // Get user data
     const user = await prisma.user.findUnique({
-      where: { id: tokenPayload.userId },
+      where: { id: transaction.userId },
       select: {
         id: true,
         email: true,
@@ -96,16 +114,23 @@ export async function POST(request: NextRequest) {
         company: true,
         plan: true,
         isTOTPEnabled: true,
+        customRole: { select: { permissions: true } },
       },
     });
 
     if (!user) {
-      log.error("User not found after successful TOTP verification", { userId: tokenPayload.userId });
+      log.error("User not found after successful TOTP verification", { userId: transaction.userId });
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    // TOTP is already the strongest factor, so risk here only decides the alert
+    const requestContext = auditContextFrom(request);
+    const risk = await LoginRisk.evaluate(user.id, requestContext);
+
     log.debug("User found, generating final tokens...");
 
+    const permissions = effectivePermissions(user.role, user.customRole?.permissions);
+
     // Generate FINAL access token with TOTP verified
     const { token: finalAccessToken, expiresAt: accessTokenExpiresAt } = await TokenService.generateAccessToken(
       {
@@ -114,6 +139,7 @@ export async function POST(request: NextRequest) {
         username: user.email,
         name: user.name || undefined,
         role: user.role,
+        permissions,
         isTOTPEnabled: user.isTOTPEnabled,
       }
     );
@@ -124,6 +150,7 @@ export async function POST(request: NextRequest) {
       username: user.email,
       name: user.name || undefined,
       role: user.role,
+      permissions,
       isTOTPEnabled: user.isTOTPEnabled,
     });
 
@@ -138,31 +165,28 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    await prisma.refreshToken.create({
-        data: {
-            userId: user.id,
-            token: refreshToken,
-            expiresAt: refreshTokenExpiresAt,
-        },
-    });
+    await SessionRegistry.start(
+      { userId: user.id, refreshToken, expiresAt: refreshTokenExpiresAt },
+      requestContext
+    );
     log.debug("Tokens saved to DB");
 
     // Audit log
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: "LOGIN_TOTP_VERIFIED",
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
-        userAgent: request.headers.get("user-agent") || "unknown",
-        details: {
-          method: useBackupCode ? "backup_code" : "totp_code",
-          success: true,
-          source: bodyToken ? "regular_login" : "oauth_login",
-        },
+    await recordAuditEvent(request, {
+      action: "LOGIN_TOTP_VERIFIED",
+      userId: user.id,
+      details: {
+        method: AUDIT_METHODS[method],
+        factorId: verification.factorId ?? undefined,
+        source: transaction.method === "email_password" ? "regular_login" : "oauth_login",
       },
     });
     log.debug("Audit log created");
 
+    if (risk.alert) {
+      await LoginRisk.report(user, risk, requestContext, "alerted");
+    }
+
     // Prepare response
     const response = NextResponse.json({
       success: true,
@@ -178,47 +202,14 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Set final cookies
-    response.cookies.set("accessToken", finalAccessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 15 * 60, // 15 minutes
-      path: "/",
-    });
-
-    response.cookies.set("refreshToken", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-      path: "/",
-    });
-
-    // Clear the temporary TOTP cookie if it exists
-    response.cookies.delete("totp_temp_token");
-
-    // Set TOTP verified flag
-    response.cookies.set("totp_verified", "true", {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 30 * 60, // 30 minutes
-      path: "/",
-    });
+    setAuthCookies(response, { accessToken: finalAccessToken, refreshToken });
+    LoginTransaction.clearCookie(response);
 
     log.info("Successfully verified TOTP and returning response");
     return response;
   } catch (error) {
     log.error("TOTP verification error", { error: error instanceof Error ? error.message : String(error) });
 
-    if (error instanceof Error && error.message.includes("expired")) {
-      return NextResponse.json(
-        { error: "TOTP verification session expired. Please login again." },
-        { status: 401 }
-      );
-    }
-
     return NextResponse.json(
       { error: "TOTP verification failed" },
       { status: 500 }
@@ -0,0 +1,96 @@
+// app/api/email-preview/route.ts
+// Renders email templates with sample data so designers can check them in a
+// browser. Off in production unless EMAIL_PREVIEW_ENABLED=true.
+//
+//   GET /api/email-preview                               index of templates
+//   GET /api/email-preview?template=login_otp            HTML body
+//   GET /api/email-preview?template=login_otp&format=text
+//   GET /api/email-preview?template=new_sign_in&location=<b>x</b>
+//
+// String variables in the sample can be overridden by query parameters of the
+// same name, which is handy for checking long names or escaping.
+import { NextRequest, NextResponse } from "next/server";
+import {
+  EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_NAMES,
+  html,
+  isEmailTemplateName,
+  renderEmailTemplate,
+  type EmailTemplateName,
+  type EmailTemplateVariables,
+} from "@/lib/email-templates";
+
+function isPreviewEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.EMAIL_PREVIEW_ENABLED === "true";
+}
+
+function sampleWithOverrides<T extends EmailTemplateName>(
+  name: T,
+  params: URLSearchParams
+): EmailTemplateVariables[T] {
+  const vars: Record<string, unknown> = { ...EMAIL_TEMPLATES[name].sample };
+  for (const [key, value] of Object.entries(vars)) {
+    const override = params.get(key);
+    if (override !== null && (typeof value === "string" || value === null)) {
+      vars[key] = override;
+    }
+  }
+  return vars as EmailTemplateVariables[T];
+}
+
+function renderIndex(): string {
+  return html`<!doctype html>
+<html>
+  <head><meta charset="utf-8" /><title>Email templates</title></head>
+  <body style="font-family: Arial, sans-serif; max-width: 720px; margin: 40px auto; color: #1e293b;">
+    <h1>Email templates</h1>
+    <table cellpadding="8" style="border-collapse: collapse; width: 100%;">
+      ${EMAIL_TEMPLATE_NAMES.map((name) => {
+        const template = EMAIL_TEMPLATES[name];
+        return html`
+          <tr style="border-top: 1px solid #e2e8f0;">
+            <td><code>${name}</code><br /><small>${template.description}</small></td>
+            <td><a href="?template=${name}">HTML</a></td>
+            <td><a href="?template=${name}&amp;format=text">Text</a></td>
+          </tr>`;
+      })}
+    </table>
+  </body>
+</html>`.value;
+}
+
+export async function GET(request: NextRequest) {
+  if (!isPreviewEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const template = params.get("template");
+  if (!template) {
+    return new NextResponse(renderIndex(), {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+
+  if (!isEmailTemplateName(template)) {
+    return NextResponse.json(
+      { error: "Unknown template", templates: EMAIL_TEMPLATE_NAMES },
+      { status: 404 }
+    );
+  }
+
+  const rendered = renderEmailTemplate(template, sampleWithOverrides(template, params));
+  const format = params.get("format") || "html";
+
+  if (format === "json") {
+    return NextResponse.json({ template, ...rendered });
+  }
+  if (format === "text") {
+    return new NextResponse(`Subject: ${rendered.subject}\n\n${rendered.text}`, {
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+  return new NextResponse(rendered.html, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
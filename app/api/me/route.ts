@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { TokenService } from "@/lib/jwt";
+import { verifyAccessToken } from "@/lib/auth";
+import { ALL_PERMISSIONS, can } from "@/lib/permissions";
 
 export async function GET(request: NextRequest) {
   try {
@@ -8,13 +9,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
     }
 
-    const payload = await TokenService.verifyToken(accessToken);
+    const payload = await verifyAccessToken(accessToken);
 
     const user = {
       userId: payload.userId as string,
       email: (payload as any).email as string,
       name: (payload as any).name as string | undefined,
       role: payload.role as string,
+      permissions: ALL_PERMISSIONS.filter((permission) => can(payload, permission)),
     };
     console.log(payload)
 
@@ -32,7 +32,7 @@ export default function ForgotPasswordPage() {
             if (data.requiresTOTP) {
                 router.push('/reset-password/verify-totp');
             } else if (data.requiresOTP) {
-                router.push('/reset-password/verify-otp');
+                router.push(data.channel === 'sms' ? '/reset-password/verify-otp?channel=sms' : '/reset-password/verify-otp');
             } else {
                 setSuccess('If an account with that email exists, a password reset link has been sent.');
             }
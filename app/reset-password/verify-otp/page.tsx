@@ -1,10 +1,11 @@
 'use client';
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 
 export default function VerifyOTPPage() {
     const router = useRouter();
+    const sentBySms = useSearchParams().get('channel') === 'sms';
     const [code, setCode] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
@@ -39,8 +40,10 @@ export default function VerifyOTPPage() {
     return (
         <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white">
             <div className="max-w-md w-full space-y-8 p-8 bg-gray-800 shadow-lg rounded-lg">
-                <h2 className="text-center text-3xl font-extrabold">Verify Email</h2>
-                <p className="text-center text-sm text-gray-400">Enter the code sent to your email address to continue.</p>
+                <h2 className="text-center text-3xl font-extrabold">{sentBySms ? 'Verify Phone' : 'Verify Email'}</h2>
+                <p className="text-center text-sm text-gray-400">
+                    Enter the code sent to your {sentBySms ? 'phone by text message' : 'email address'} to continue.
+                </p>
                 <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
                     {error && <p className="text-red-500 text-center">{error}</p>}
                     <input
@@ -2,6 +2,10 @@
 
 import { useState, useEffect } from "react";
 import TOTPSetup from "@/components/totp-setup";
+import PasskeyManager from "@/components/passkey-manager";
+import PhoneNumberManager from "@/components/phone-number-manager";
+import MfaFactorManager, { type MfaFactor } from "@/components/mfa-factor-manager";
+import MfaVerifyPrompt, { type MfaMethod, type MfaProof } from "@/components/mfa-verify-prompt";
 
 interface TOTPStatus {
   isTOTPEnabled: boolean;
@@ -12,19 +16,115 @@ interface TOTPStatus {
   failedAttempts: number;
 }
 
+interface ActiveSession {
+  id: string;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
 export default function SecuritySettings() {
   const [totpStatus, setTOTPStatus] = useState<TOTPStatus | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showTOTPSetup, setShowTOTPSetup] = useState(false);
   const [showDisablePrompt, setShowDisablePrompt] = useState(false);
-  const [verificationCode, setVerificationCode] = useState("");
+  const [mfaFactors, setMfaFactors] = useState<MfaFactor[]>([]);
+  const [backupCodesRemaining, setBackupCodesRemaining] = useState(0);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [enrollmentRequired, setEnrollmentRequired] = useState(false);
 
   useEffect(() => {
     fetchTOTPStatus();
+    fetchMfaFactors();
+    fetchSessions();
+    // Set by middleware when the account must enroll TOTP before continuing
+    if (new URLSearchParams(window.location.search).get("enrollTotp") === "required") {
+      setEnrollmentRequired(true);
+    }
   }, []);
 
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch("/api/auth/sessions", {
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch sessions");
+      }
+
+      setSessions(data.sessions);
+    } catch (err: any) {
+      setError(err.message || "Failed to load active sessions");
+    }
+  };
+
+  const handleRevokeSession = async (session: ActiveSession) => {
+    if (
+      session.current &&
+      !confirm("This will sign you out of this browser. Continue?")
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke session");
+      }
+
+      if (data.signedOut) {
+        window.location.href = "/signin";
+        return;
+      }
+
+      setSuccess("Session signed out");
+      fetchSessions();
+    } catch (err: any) {
+      setError(err.message || "Failed to revoke session");
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    if (!confirm("Sign out of all other devices?")) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/auth/sessions", {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke sessions");
+      }
+
+      setSuccess(
+        `Signed out of ${data.revoked} other session${data.revoked === 1 ? "" : "s"}`
+      );
+      fetchSessions();
+    } catch (err: any) {
+      setError(err.message || "Failed to revoke sessions");
+    }
+  };
+
   const fetchTOTPStatus = async () => {
     try {
       const response = await fetch("/api/auth/2fa/status", {
@@ -45,39 +145,59 @@ export default function SecuritySettings() {
     }
   };
 
-  const handleDisableTOTP = async () => {
-    if (!verificationCode) {
-      setError("Please enter your verification code.");
-      return;
-    }
-
+  const fetchMfaFactors = async () => {
     try {
-      const response = await fetch("/api/auth/2fa/disable", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+      const response = await fetch("/api/auth/mfa/factors", {
         credentials: "include",
-        body: JSON.stringify({
-          token: verificationCode,
-        }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || "Failed to disable TOTP");
+        throw new Error(data.error || "Failed to fetch two-factor methods");
       }
 
-      setSuccess("Two-Factor Authentication has been disabled");
-      setShowDisablePrompt(false);
-      setVerificationCode("");
-      fetchTOTPStatus();
+      setMfaFactors(data.factors);
+      setBackupCodesRemaining(data.backupCodesRemaining);
     } catch (err: any) {
-      setError(err.message || "Failed to disable TOTP");
+      setError(err.message || "Failed to load two-factor methods");
     }
   };
 
+  const refreshTwoFactor = () => {
+    fetchTOTPStatus();
+    fetchMfaFactors();
+  };
+
+  // Ways the user can confirm a sensitive two-factor change
+  const verifyMethods: MfaMethod[] = [
+    ...(mfaFactors.some((f) => f.type === "TOTP") ? ["totp" as const] : []),
+    ...(mfaFactors.some((f) => f.type === "SECURITY_KEY") ? ["security_key" as const] : []),
+    ...(backupCodesRemaining > 0 ? ["backup_code" as const] : []),
+  ];
+
+  // Errors are thrown back to the prompt, which shows them
+  const handleDisableTOTP = async (proof: MfaProof) => {
+    const response = await fetch("/api/auth/2fa/disable", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify(proof),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to disable TOTP");
+    }
+
+    setSuccess("Two-Factor Authentication has been disabled");
+    setShowDisablePrompt(false);
+    refreshTwoFactor();
+  };
+
   const handleRegenerateBackupCodes = async () => {
     if (
       !confirm(
@@ -129,7 +249,9 @@ export default function SecuritySettings() {
               ← Back to Security Settings
             </button>
             <h1 className="text-2xl font-bold">
-              Enable Two-Factor Authentication
+              {totpStatus?.isTOTPEnabled
+                ? "Add an Authenticator App"
+                : "Enable Two-Factor Authentication"}
             </h1>
           </div>
 
@@ -137,8 +259,13 @@ export default function SecuritySettings() {
             <TOTPSetup
               onSetupComplete={() => {
                 setShowTOTPSetup(false);
-                setSuccess("Two-Factor Authentication enabled successfully!");
-                fetchTOTPStatus();
+                setEnrollmentRequired(false);
+                setSuccess(
+                  totpStatus?.isTOTPEnabled
+                    ? "Authenticator app added"
+                    : "Two-Factor Authentication enabled successfully!"
+                );
+                refreshTwoFactor();
               }}
               onCancel={() => setShowTOTPSetup(false)}
             />
@@ -165,6 +292,12 @@ export default function SecuritySettings() {
       <div className="max-w-4xl mx-auto">
         <h1 className="text-3xl font-bold mb-8">Security Settings</h1>
 
+        {enrollmentRequired && !totpStatus?.isTOTPEnabled && (
+          <div className="mb-6 p-4 bg-yellow-500/20 border border-yellow-500/30 rounded-lg text-yellow-300">
+            Your account requires two-factor authentication. Set up an authenticator app or security key to continue.
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 p-4 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300">
             {error}
@@ -268,6 +401,77 @@ export default function SecuritySettings() {
           )}
         </div>
 
+        <MfaFactorManager
+          factors={mfaFactors}
+          methods={verifyMethods}
+          onAddAuthenticator={() => setShowTOTPSetup(true)}
+          onChange={refreshTwoFactor}
+        />
+
+        <PasskeyManager />
+
+        <PhoneNumberManager />
+
+        {/* Active Sessions Card */}
+        <div className="bg-gray-800 rounded-lg p-6 border border-cyan-500/30 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-semibold">Active Sessions</h2>
+              <p className="text-gray-400 text-sm">
+                Devices that are currently signed in to your account
+              </p>
+            </div>
+            {sessions.some((s) => !s.current) && (
+              <button
+                onClick={handleRevokeOtherSessions}
+                className="px-4 py-2 border border-red-500/30 text-red-300 hover:bg-red-500/10 rounded-lg transition-colors text-sm"
+              >
+                Sign out all other sessions
+              </button>
+            )}
+          </div>
+
+          {sessions.length === 0 ? (
+            <p className="text-gray-400 text-sm">No active sessions found.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {sessions.map((session) => (
+                <li
+                  key={session.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <p className="text-white">
+                      {session.browser || "Unknown browser"} on{" "}
+                      {session.os || "Unknown OS"}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-500/20 text-green-300 border border-green-500/30">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-gray-400 text-sm">
+                      {session.deviceType || "unknown"} ·{" "}
+                      {session.ipAddress || "Unknown IP"} · Last active{" "}
+                      {new Date(session.lastSeenAt).toLocaleString()}
+                    </p>
+                    <p className="text-gray-500 text-xs">
+                      Signed in{" "}
+                      {new Date(session.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeSession(session)}
+                    className="px-3 py-1 border border-red-500/30 text-red-300 hover:bg-red-500/10 rounded-lg transition-colors text-sm"
+                  >
+                    {session.current ? "Sign out" : "Revoke"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
         {/* Security Tips */}
         <div className="bg-gray-800 rounded-lg p-6 border border-blue-500/30">
           <h3 className="text-lg font-semibold mb-3">Security Tips</h3>
@@ -282,35 +486,14 @@ export default function SecuritySettings() {
       </div>
 
       {showDisablePrompt && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center">
-          <div className="bg-gray-800 rounded-lg p-6 border border-cyan-500/30 w-full max-w-md">
-            <h2 className="text-xl font-semibold mb-4">Disable Two-Factor Authentication</h2>
-            <p className="text-gray-400 mb-4">
-              To confirm, please enter a verification code from your authenticator app.
-            </p>
-            <input
-              type="text"
-              value={verificationCode}
-              onChange={(e) => setVerificationCode(e.target.value)}
-              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg mb-4"
-              placeholder="6-digit code"
-            />
-            <div className="flex justify-end space-x-3">
-              <button
-                onClick={() => setShowDisablePrompt(false)}
-                className="px-4 py-2 border border-gray-600 text-gray-300 hover:bg-gray-700 rounded-lg"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleDisableTOTP}
-                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg"
-              >
-                Disable
-              </button>
-            </div>
-          </div>
-        </div>
+        <MfaVerifyPrompt
+          title="Disable Two-Factor Authentication"
+          description="This removes all of your authenticator apps, security keys and backup codes. To confirm, verify with one of them."
+          confirmLabel="Disable"
+          methods={verifyMethods}
+          onConfirm={handleDisableTOTP}
+          onCancel={() => setShowDisablePrompt(false)}
+        />
       )}
     </div>
   );
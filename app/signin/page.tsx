@@ -8,6 +8,22 @@ import React, {
 } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import {
+  getCredential,
+  isWebAuthnSupported,
+  webauthnErrorMessage,
+} from "@/lib/webauthn-browser";
+
+// Messages for the ?error= codes the magic-link landing route redirects with
+const MAGIC_LINK_ERRORS: Record<string, string> = {
+  magic_link_invalid: "That sign-in link is invalid or has already been used. Please sign in again.",
+  magic_link_expired: "That sign-in link has expired. Please sign in again.",
+  magic_link_other_browser:
+    "Sign-in links only work in the browser you signed in from. Open the link there, or enter the emailed code instead.",
+  magic_link_disabled: "Sign-in links are turned off. Please sign in with your password.",
+  magic_link_rate_limited: "Too many sign-in attempts. Please wait a few minutes and try again.",
+  magic_link_failed: "Sign-in failed. Please try again.",
+};
 
 // Declare grecaptcha for TypeScript
 declare global {
@@ -25,8 +41,9 @@ export default function Login() {
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [socialLoading, setSocialLoading] = useState<
-    "google" | "github" | null
+    "google" | "github" | "passkey" | null
   >(null);
+  const [passkeySupported, setPasskeySupported] = useState(false);
   const [error, setError] = useState<string>("");
   const [success, setSuccess] = useState<string>("");
   const [showPassword, setShowPassword] = useState(false);
@@ -37,6 +54,14 @@ export default function Login() {
   const recaptchaWidgetId = useRef<number | null>(null);
   const router = useRouter();
 
+  useEffect(() => {
+    setPasskeySupported(isWebAuthnSupported());
+    const errorCode = new URLSearchParams(window.location.search).get("error");
+    if (errorCode && MAGIC_LINK_ERRORS[errorCode]) {
+      setError(MAGIC_LINK_ERRORS[errorCode]);
+    }
+  }, []);
+
   // ✅ LOAD reCAPTCHA v2 SCRIPT
   useEffect(() => {
     const loadRecaptcha = () => {
@@ -138,6 +163,43 @@ export default function Login() {
     }
   };
 
+  // ✅ PASSKEY LOGIN (no email, password or reCAPTCHA needed)
+  const handlePasskeyLogin = async () => {
+    setSocialLoading("passkey");
+    setError("");
+    setSuccess("");
+    try {
+      const optionsResponse = await fetch("/api/auth/passkeys/login/options", {
+        method: "POST",
+      });
+      const optionsData = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        throw new Error(optionsData.error || "Failed to start passkey sign-in");
+      }
+
+      const credential = await getCredential(optionsData.options);
+
+      const response = await fetch("/api/auth/passkeys/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ credential }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Passkey sign-in failed");
+      }
+
+      setSuccess(
+        `Success! Signed in as ${data.user.role === "ADMIN" ? "Admin" : "User"}`
+      );
+      window.location.href =
+        data.user.role === "ADMIN" ? "/admindashboard" : "/authenticated";
+    } catch (error) {
+      setError(webauthnErrorMessage(error, "Passkey sign-in failed"));
+      setSocialLoading(null);
+    }
+  };
+
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setIsLoading(true);
@@ -205,7 +267,12 @@ export default function Login() {
         console.log(
           "Email OTP verification required - redirecting to /verify-otp"
         );
-        window.location.href = "/verify-otp";
+        const params = new URLSearchParams();
+        if (data.magicLink) params.set("magicLink", "1");
+        if (data.channel === "sms") params.set("channel", "sms");
+        if (data.smsAvailable) params.set("sms", "1");
+        const query = params.toString();
+        window.location.href = query ? `/verify-otp?${query}` : "/verify-otp";
         return;
       }
 
@@ -425,6 +492,17 @@ export default function Login() {
               </button>
             </div>
 
+            {/* Passkey Login Button */}
+            {passkeySupported && (
+              <button
+                onClick={handlePasskeyLogin}
+                disabled={!!socialLoading}
+                className="w-full flex items-center justify-center gap-2 py-3 px-4 mb-6 border border-cyan-500/30 rounded-lg text-cyan-300 hover:bg-cyan-500/10 transition-all font-medium disabled:opacity-50 text-sm"
+              >
+                {socialLoading === "passkey" ? "Waiting for passkey..." : "🔑 Sign in with a passkey"}
+              </button>
+            )}
+
             {/* Divider */}
             <div className="relative mb-6">
               <div className="absolute inset-0 flex items-center">
@@ -12,8 +12,12 @@ export default function VerifyOTPPage() {
   const [error, setError] = useState('');
   const [resendCooldown, setResendCooldown] = useState(0);
   const [resendError, setResendError] = useState('');
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
 
   const redirectTo = searchParams.get('redirectTo') || '/authenticated';
+  const [magicLinkSent, setMagicLinkSent] = useState(searchParams.get('magicLink') === '1');
+  const [channel, setChannel] = useState<'email' | 'sms'>(searchParams.get('channel') === 'sms' ? 'sms' : 'email');
+  const [smsAvailable, setSmsAvailable] = useState(searchParams.get('sms') === '1');
 
   useEffect(() => {
     document.getElementById('code-0')?.focus();
@@ -71,10 +75,15 @@ export default function VerifyOTPPage() {
 
       const data = await response.json();
 
-      if (data.success) {
+      if (data.success && data.requiresTOTP) {
+        // Unfamiliar sign-in: the server asks for the authenticator code too
+        const params = new URLSearchParams({ redirectTo, reason: 'new_sign_in' });
+        router.push(`/verify-totp?${params.toString()}`);
+      } else if (data.success) {
         router.push(redirectTo);
       } else {
         setError(data.error || 'Verification failed');
+        setAttemptsRemaining(typeof data.attemptsRemaining === 'number' ? data.attemptsRemaining : null);
         setCode(new Array(6).fill(''));
         document.getElementById('code-0')?.focus();
       }
@@ -85,7 +94,8 @@ export default function VerifyOTPPage() {
     }
   };
 
-  const handleResendOTP = async () => {
+  // Resends over the current channel, or switches to the other one
+  const handleResendOTP = async (nextChannel: 'email' | 'sms' = channel) => {
     if (resendCooldown > 0) return;
 
     setResendError('');
@@ -94,12 +104,23 @@ export default function VerifyOTPPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
+        body: JSON.stringify({ channel: nextChannel }),
       });
 
       const data = await response.json();
 
-      if (data.success) {
+      if (response.status === 429) {
+        // Server-side throttle: count down from Retry-After
+        const retryAfter = Number(response.headers.get('Retry-After') ?? data.retryAfter);
+        setResendCooldown(Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 60);
+        setResendError(data.error || 'Too many requests. Please wait before trying again.');
+      } else if (data.success) {
+        setMagicLinkSent(Boolean(data.magicLink));
+        setChannel(data.channel === 'sms' ? 'sms' : 'email');
+        setSmsAvailable(Boolean(data.smsAvailable));
         setResendCooldown(60);
+        setAttemptsRemaining(null);
+        setError('');
       } else {
         setResendError(data.error || 'Failed to resend OTP');
       }
@@ -111,13 +132,24 @@ export default function VerifyOTPPage() {
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <div className="max-w-md w-full space-y-8 p-8 bg-white shadow-lg rounded-lg">
-        <h2 className="text-center text-3xl font-extrabold text-gray-900">Check your email</h2>
+        <h2 className="text-center text-3xl font-extrabold text-gray-900">
+          {channel === 'sms' ? 'Check your phone' : 'Check your email'}
+        </h2>
         <p className="text-center text-sm text-gray-600">
-          We've sent a 6-digit verification code to your email address.
+          {channel === 'sms'
+            ? "We've texted a 6-digit verification code to your phone."
+            : magicLinkSent
+              ? "We've emailed you a sign-in link. Open it in this browser, or enter the 6-digit code from the same email."
+              : "We've sent a 6-digit verification code to your email address."}
         </p>
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           {error && <p className="text-red-500 text-center">{error}</p>}
+          {attemptsRemaining !== null && (
+            <p className="text-sm text-gray-500 text-center">
+              {attemptsRemaining} attempt{attemptsRemaining === 1 ? '' : 's'} remaining for this code
+            </p>
+          )}
           
           <div className="flex justify-center space-x-2">
             {code.map((digit, index) => (
@@ -147,15 +179,31 @@ export default function VerifyOTPPage() {
 
         <div className="text-center">
           <button
-            onClick={handleResendOTP}
+            onClick={() => handleResendOTP()}
             disabled={resendCooldown > 0}
             className="text-sm text-blue-600 hover:underline disabled:text-gray-500 disabled:cursor-not-allowed"
           >
-            {resendCooldown > 0 ? `Resend OTP in ${resendCooldown}s` : 'Resend OTP'}
+            {resendCooldown > 0 ? `Resend OTP in ${formatCountdown(resendCooldown)}` : 'Resend OTP'}
           </button>
+          {smsAvailable && (
+            <button
+              onClick={() => handleResendOTP(channel === 'sms' ? 'email' : 'sms')}
+              disabled={resendCooldown > 0}
+              className="block mx-auto mt-2 text-sm text-blue-600 hover:underline disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              {channel === 'sms' ? 'Email me the code instead' : 'Text me the code instead'}
+            </button>
+          )}
           {resendError && <p className="text-red-500 text-center text-sm mt-2">{resendError}</p>}
         </div>
       </div>
     </div>
   );
 }
+
+function formatCountdown(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+}
@@ -2,6 +2,23 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { getCredential, webauthnErrorMessage } from '@/lib/webauthn-browser';
+
+type MfaMethod = 'totp' | 'security_key' | 'backup_code';
+
+interface MethodOption {
+  method: MfaMethod;
+  factorId: string | null;
+  name: string;
+  isDefault: boolean;
+}
+
+const DEFAULT_OPTION: MethodOption = {
+  method: 'totp',
+  factorId: null,
+  name: 'Authenticator app',
+  isDefault: true,
+};
 
 export default function VerifyTOTPPage() {
   const router = useRouter();
@@ -10,16 +27,47 @@ export default function VerifyTOTPPage() {
   const [code, setCode] = useState(['', '', '', '', '', '']);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [methods, setMethods] = useState<MethodOption[]>([]);
+  const [selected, setSelected] = useState<MethodOption>(DEFAULT_OPTION);
+  const [showMethods, setShowMethods] = useState(false);
+
+  const useBackupCode = selected.method === 'backup_code';
 
   const redirectTo = searchParams.get('redirectTo') || '/authenticated';
+  const isStepUp = searchParams.get('reason') === 'new_sign_in';
 
   // Auto-focus first input on component mount
   useEffect(() => {
     const firstInput = document.getElementById('code-0');
     firstInput?.focus();
+    fetchMethods();
   }, []);
 
+  // The default factor is offered first; the rest are behind "Try another way"
+  const fetchMethods = async () => {
+    try {
+      const response = await fetch('/api/auth/mfa/methods', { credentials: 'include' });
+      const data = await response.json();
+      if (response.ok && data.methods.length > 0) {
+        setMethods(data.methods);
+        selectMethod(data.methods[0]);
+      }
+    } catch (err) {
+      console.error('Failed to load verification methods:', err);
+    }
+  };
+
+  const completeSignIn = (data: any) => {
+    if (data.success) {
+      // Server clears the httpOnly cookie on success.
+      // Redirect to the intended destination.
+      router.push(redirectTo);
+      return true;
+    }
+    setError(data.error || 'Verification failed');
+    return false;
+  };
+
   const handleCodeChange = (index: number, value: string) => {
     if (value.length > 1) {
       // Handle paste
@@ -91,18 +139,14 @@ export default function VerifyTOTPPage() {
         credentials: 'include', // Important to send cookies
         body: JSON.stringify({
           verificationCode,
-          useBackupCode,
+          method: selected.method,
+          factorId: selected.factorId,
         }),
       });
 
       const data = await response.json();
 
-      if (data.success) {
-        // Server clears the httpOnly cookie on success.
-        // Redirect to the intended destination.
-        router.push(redirectTo);
-      } else {
-        setError(data.error || 'Verification failed');
+      if (!completeSignIn(data)) {
         // Clear code on error
         setCode(['', '', '', '', '', '']);
         document.getElementById('code-0')?.focus();
@@ -115,24 +159,70 @@ export default function VerifyTOTPPage() {
     }
   };
 
-  const handleUseBackupCode = () => {
-    setUseBackupCode(true);
-    setCode(['']); // Single input for backup code
+  const handleSecurityKey = async () => {
+    setIsLoading(true);
     setError('');
-    setTimeout(() => {
-      document.getElementById('backup-code-input')?.focus();
-    }, 100);
+
+    try {
+      const optionsResponse = await fetch('/api/auth/mfa/challenge', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const optionsData = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        throw new Error(optionsData.error || 'Failed to start security key check');
+      }
+
+      const credential = await getCredential(optionsData.options);
+
+      const response = await fetch('/api/auth/verify-totp', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ method: 'security_key', credential }),
+      });
+      completeSignIn(await response.json());
+    } catch (err) {
+      setError(webauthnErrorMessage(err, 'Security key verification failed'));
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleBackToTOTP = () => {
-    setUseBackupCode(false);
-    setCode(['', '', '', '', '', '']);
+  const selectMethod = (option: MethodOption) => {
+    setSelected(option);
+    setShowMethods(false);
     setError('');
-    setTimeout(() => {
-      document.getElementById('code-0')?.focus();
-    }, 100);
+    if (option.method === 'backup_code') {
+      setCode(['']); // Single input for backup code
+      setTimeout(() => {
+        document.getElementById('backup-code-input')?.focus();
+      }, 100);
+    } else if (option.method === 'totp') {
+      setCode(['', '', '', '', '', '']);
+      setTimeout(() => {
+        document.getElementById('code-0')?.focus();
+      }, 100);
+    }
   };
 
+  const handleUseBackupCode = () => {
+    selectMethod({ method: 'backup_code', factorId: null, name: 'Backup code', isDefault: false });
+  };
+
+  const handleBackToTOTP = () => {
+    selectMethod(methods.find((m) => m.method === 'totp') ?? DEFAULT_OPTION);
+  };
+
+  const methodLabel = (option: MethodOption) =>
+    option.method === 'security_key'
+      ? `Security key: ${option.name}`
+      : option.method === 'totp'
+        ? `Authenticator app: ${option.name}`
+        : 'Backup code';
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -143,18 +233,40 @@ export default function VerifyTOTPPage() {
           <p className="mt-2 text-center text-sm text-gray-600">
             {useBackupCode
               ? 'Enter your backup code'
-              : 'Enter the 6-digit code from your authenticator app'}
+              : selected.method === 'security_key'
+                ? `Use your security key (${selected.name})`
+                : 'Enter the 6-digit code from your authenticator app'}
           </p>
         </div>
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {isStepUp && (
+            <div className="rounded-md bg-blue-50 p-4">
+              <div className="text-sm text-blue-700">
+                We don&apos;t recognize this device or location, so this sign-in
+                needs your second factor as well.
+              </div>
+            </div>
+          )}
+
           {error && (
             <div className="rounded-md bg-red-50 p-4">
               <div className="text-sm text-red-700">{error}</div>
             </div>
           )}
 
-          {useBackupCode ? (
+          {selected.method === 'security_key' ? (
+            <div>
+              <button
+                type="button"
+                onClick={handleSecurityKey}
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Waiting for security key...' : 'Use security key'}
+              </button>
+            </div>
+          ) : useBackupCode ? (
             <div>
               <label htmlFor="backup-code-input" className="sr-only">
                 Backup Code
@@ -170,13 +282,15 @@ export default function VerifyTOTPPage() {
                 onChange={(e) => setCode([e.target.value])}
                 disabled={isLoading}
               />
-              <button
-                type="button"
-                onClick={handleBackToTOTP}
-                className="mt-2 text-sm text-blue-600 hover:text-blue-500"
-              >
-                ← Use authenticator app instead
-              </button>
+              {methods.length === 0 && (
+                <button
+                  type="button"
+                  onClick={handleBackToTOTP}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-500"
+                >
+                  ← Use authenticator app instead
+                </button>
+              )}
             </div>
           ) : (
             <div>
@@ -200,26 +314,60 @@ export default function VerifyTOTPPage() {
                   />
                 ))}
               </div>
+              {methods.length === 0 && (
+                <button
+                  type="button"
+                  onClick={handleUseBackupCode}
+                  className="mt-4 text-sm text-blue-600 hover:text-blue-500"
+                >
+                  Use a backup code instead
+                </button>
+              )}
+            </div>
+          )}
+
+          {methods.length > 1 && (
+            <div>
               <button
                 type="button"
-                onClick={handleUseBackupCode}
-                className="mt-4 text-sm text-blue-600 hover:text-blue-500"
+                onClick={() => setShowMethods(!showMethods)}
+                className="text-sm text-blue-600 hover:text-blue-500"
               >
-                Use a backup code instead
+                Try another way
               </button>
+              {showMethods && (
+                <ul className="mt-2 divide-y divide-gray-200 rounded-md border border-gray-200 bg-white">
+                  {methods.map((option) => (
+                    <li key={`${option.method}-${option.factorId ?? 'none'}`}>
+                      <button
+                        type="button"
+                        onClick={() => selectMethod(option)}
+                        className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-50 ${
+                          option === selected ? 'font-semibold text-gray-900' : 'text-gray-700'
+                        }`}
+                      >
+                        {methodLabel(option)}
+                        {option.isDefault && <span className="ml-2 text-xs text-gray-500">(default)</span>}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
 
-          <div>
-            <button
-              id="verify-button"
-              type="submit"
-              disabled={isLoading}
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? 'Verifying...' : 'Verify'}
-            </button>
-          </div>
+          {selected.method !== 'security_key' && (
+            <div>
+              <button
+                id="verify-button"
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
+          )}
 
           <div className="text-center">
             <button
@@ -234,7 +382,7 @@ export default function VerifyTOTPPage() {
           </div>
         </form>
 
-        {!useBackupCode && (
+        {selected.method === 'totp' && (
           <div className="mt-6 p-4 bg-yellow-50 rounded-md">
             <div className="flex">
               <div className="flex-shrink-0">
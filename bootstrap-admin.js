@@ -0,0 +1,63 @@
+const readline = require("readline");
+
+// Usage: ADMIN_SETUP_TOKEN=... ADMIN_EMAIL=... ADMIN_NAME=... node bootstrap-admin.js [--url http://localhost:3000]
+// Creates the first admin through /api/auth/bootstrap. The password is read
+// from ADMIN_PASSWORD or, when unset, from stdin so it stays out of shell history.
+const urlArg = process.argv.indexOf("--url");
+const baseUrl = urlArg !== -1 ? process.argv[urlArg + 1] : "http://localhost:3000";
+
+function prompt(question, { hidden = false } = {}) {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  if (hidden && process.stdin.isTTY) {
+    // Echo nothing while the password is typed
+    rl._writeToOutput = () => {};
+    process.stdout.write(question);
+  }
+  return new Promise((resolve) => {
+    rl.question(hidden && process.stdin.isTTY ? "" : question, (answer) => {
+      rl.close();
+      if (hidden && process.stdin.isTTY) process.stdout.write("\n");
+      resolve(answer.trim());
+    });
+  });
+}
+
+async function main() {
+  const setupToken = process.env.ADMIN_SETUP_TOKEN;
+  if (!setupToken) {
+    console.error("ADMIN_SETUP_TOKEN is not set. Generate one with `node generate-keys.js`.");
+    process.exit(1);
+  }
+
+  const email = process.env.ADMIN_EMAIL || (await prompt("Admin email: "));
+  const name = process.env.ADMIN_NAME || (await prompt("Admin name: "));
+  const password = process.env.ADMIN_PASSWORD || (await prompt("Admin password: ", { hidden: true }));
+
+  const response = await fetch(`${baseUrl}/api/auth/bootstrap`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${setupToken}`,
+    },
+    body: JSON.stringify({ email, name, password }),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (response.status === 404) {
+    console.error("Bootstrap is disabled: an admin already exists or ADMIN_SETUP_TOKEN is not set on the server.");
+    process.exit(1);
+  }
+  if (!response.ok) {
+    console.error(`Bootstrap failed (${response.status}): ${data.error || "unknown error"}`);
+    for (const detail of data.details || []) console.error(`  - ${detail}`);
+    process.exit(1);
+  }
+
+  console.log(`Admin ${data.user.email} created.`);
+  console.log("Sign in to enroll an authenticator app, then remove ADMIN_SETUP_TOKEN from the environment.");
+}
+
+main().catch((error) => {
+  console.error("Bootstrap failed:", error.message);
+  process.exit(1);
+});
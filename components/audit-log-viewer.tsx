@@ -0,0 +1,345 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+interface AuditLogEntry {
+  id: string;
+  userId: string | null;
+  userEmail: string | null;
+  userName: string | null;
+  action: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  timestamp: string;
+  details: unknown;
+}
+
+interface AuditFilters {
+  user: string;
+  action: string;
+  ip: string;
+  from: string;
+  to: string;
+}
+
+interface AuditLogViewerProps {
+  onClose: () => void;
+  // When set, the viewer shows a timeline for this user only
+  userId?: string;
+  userLabel?: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { user: "", action: "", ip: "", from: "", to: "" };
+
+export default function AuditLogViewer({ onClose, userId, userLabel }: AuditLogViewerProps) {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [integrity, setIntegrity] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const buildParams = (applied: AuditFilters) => {
+    const params = new URLSearchParams();
+    if (userId) params.set("userId", userId);
+    if (applied.user) params.set("user", applied.user);
+    if (applied.action) params.set("action", applied.action);
+    if (applied.ip) params.set("ip", applied.ip);
+    // Date inputs are local calendar days; widen "to" to the end of that day
+    if (applied.from) params.set("from", new Date(`${applied.from}T00:00:00`).toISOString());
+    if (applied.to) params.set("to", new Date(`${applied.to}T23:59:59.999`).toISOString());
+    return params;
+  };
+
+  const currentCursor = pageCursors[pageCursors.length - 1];
+
+  useEffect(() => {
+    fetchLogs();
+  }, [appliedFilters, currentCursor, userId]);
+
+  const fetchLogs = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const params = buildParams(appliedFilters);
+      if (currentCursor) params.set("cursor", currentCursor);
+
+      const response = await fetch(`/api/admin/audit-logs?${params}`, {
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load audit logs");
+      }
+      setLogs(data.logs);
+      setActions(data.actions);
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+    } catch (err: any) {
+      setError(err.message || "Failed to load audit logs");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const applyFilters = () => {
+    setPageCursors([null]);
+    setAppliedFilters(filters);
+  };
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setPageCursors([null]);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  const exportUrl = (format: "csv" | "json") => {
+    const params = buildParams(appliedFilters);
+    params.set("format", format);
+    return `/api/admin/audit-logs?${params}`;
+  };
+
+  const verifyIntegrity = async () => {
+    setIsVerifying(true);
+    setIntegrity(null);
+    try {
+      const response = await fetch("/api/admin/audit-logs/verify", {
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to verify audit log");
+      }
+      setIntegrity(
+        data.valid
+          ? { ok: true, message: `Hash chain intact (${data.checked} entries checked)` }
+          : {
+              ok: false,
+              message: `Hash chain broken at entry #${data.brokenAt.seq} (${data.brokenAt.reason})`,
+            }
+      );
+    } catch (err: any) {
+      setIntegrity({ ok: false, message: err.message || "Failed to verify audit log" });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+  const inputClass =
+    "px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white text-sm";
+
+  return (
+    <div className="rounded-2xl p-6 border border-green-500/20 bg-black/20">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-green-300">
+          {userId ? `🕒 Activity - ${userLabel || userId}` : "📜 Audit Log"}
+        </h2>
+        <div className="flex items-center space-x-3">
+          <span className="text-sm text-gray-400">{total} entries</span>
+          <button
+            onClick={verifyIntegrity}
+            disabled={isVerifying}
+            className="px-3 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 rounded text-yellow-300 text-xs transition-all disabled:opacity-50"
+          >
+            {isVerifying ? "Verifying..." : "Verify integrity"}
+          </button>
+          <a
+            href={exportUrl("csv")}
+            className="px-3 py-1 bg-green-500/20 hover:bg-green-500/30 rounded text-green-300 text-xs transition-all"
+          >
+            Export CSV
+          </a>
+          <a
+            href={exportUrl("json")}
+            className="px-3 py-1 bg-green-500/20 hover:bg-green-500/30 rounded text-green-300 text-xs transition-all"
+          >
+            Export JSON
+          </a>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg text-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-6">
+        {!userId && (
+          <input
+            type="search"
+            value={filters.user}
+            onChange={(e) => setFilters({ ...filters, user: e.target.value })}
+            placeholder="User email or name"
+            className={inputClass}
+          />
+        )}
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">All actions</option>
+          {actions.map((action) => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filters.ip}
+          onChange={(e) => setFilters({ ...filters, ip: e.target.value })}
+          placeholder="IP address"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          className={inputClass}
+        />
+        <div className="flex space-x-2">
+          <button
+            onClick={applyFilters}
+            className="flex-1 px-3 py-2 bg-purple-500/20 hover:bg-purple-500/30 rounded-lg text-purple-300 text-sm"
+          >
+            Apply
+          </button>
+          <button
+            onClick={resetFilters}
+            className="px-3 py-2 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg text-sm"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {integrity && (
+        <div
+          className={`mb-4 p-3 rounded-lg text-sm border ${
+            integrity.ok
+              ? "bg-green-500/20 border-green-500/30 text-green-300"
+              : "bg-red-500/20 border-red-500/30 text-red-300"
+          }`}
+        >
+          {integrity.message}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-400 mx-auto"></div>
+        </div>
+      ) : logs.length === 0 ? (
+        <div className="text-center py-8 text-gray-400">No audit entries match these filters.</div>
+      ) : userId ? (
+        <ol className="relative border-l border-green-500/30 ml-3">
+          {logs.map((log) => (
+            <li key={log.id} className="mb-6 ml-6">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-green-400"></span>
+              <div className="text-xs text-gray-500">{formatTimestamp(log.timestamp)}</div>
+              <div className="font-mono text-sm text-green-300">{log.action}</div>
+              <div className="text-xs text-gray-400">
+                {log.ipAddress || "unknown IP"} • {log.userAgent || "unknown agent"}
+              </div>
+              {log.details != null && (
+                <pre className="mt-2 p-2 bg-black/40 rounded text-xs text-gray-300 overflow-x-auto">
+                  {JSON.stringify(log.details, null, 2)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10 text-left text-gray-400">
+                <th className="py-3 px-4">Time</th>
+                <th className="py-3 px-4">Action</th>
+                <th className="py-3 px-4">User</th>
+                <th className="py-3 px-4">IP</th>
+                <th className="py-3 px-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map((log) => (
+                <React.Fragment key={log.id}>
+                  <tr className="border-b border-white/5 hover:bg-white/5">
+                    <td className="py-3 px-4 text-gray-300 whitespace-nowrap">
+                      {formatTimestamp(log.timestamp)}
+                    </td>
+                    <td className="py-3 px-4 font-mono text-green-300">{log.action}</td>
+                    <td className="py-3 px-4 text-gray-300">
+                      {log.userEmail || <span className="text-gray-500">—</span>}
+                    </td>
+                    <td className="py-3 px-4 text-gray-300">{log.ipAddress || "unknown"}</td>
+                    <td className="py-3 px-4">
+                      <button
+                        onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                        className="px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 rounded text-blue-300 text-xs transition-all"
+                      >
+                        {expandedId === log.id ? "Hide" : "Details"}
+                      </button>
+                    </td>
+                  </tr>
+                  {expandedId === log.id && (
+                    <tr className="border-b border-white/5">
+                      <td colSpan={5} className="px-4 pb-4">
+                        <div className="text-xs text-gray-400 mb-2">{log.userAgent || "unknown agent"}</div>
+                        <pre className="p-2 bg-black/40 rounded text-xs text-gray-300 overflow-x-auto">
+                          {JSON.stringify(log.details, null, 2)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      <div className="flex justify-between items-center mt-4 text-sm">
+        <button
+          onClick={() => setPageCursors(pageCursors.slice(0, -1))}
+          disabled={pageCursors.length <= 1 || isLoading}
+          className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg disabled:opacity-40"
+        >
+          Previous
+        </button>
+        <span className="text-gray-400">Page {pageCursors.length}</span>
+        <button
+          onClick={() => nextCursor && setPageCursors([...pageCursors, nextCursor])}
+          disabled={!nextCursor || isLoading}
+          className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
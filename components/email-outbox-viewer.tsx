@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type EmailStatus = "PENDING" | "SENDING" | "SENT" | "DEAD";
+
+interface OutboxEntry {
+  id: string;
+  to: string;
+  template: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+interface EmailOutboxViewerProps {
+  onClose: () => void;
+  canRetry: boolean;
+}
+
+const STATUSES: EmailStatus[] = ["PENDING", "SENDING", "SENT", "DEAD"];
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+  PENDING: "bg-yellow-500/20 text-yellow-300",
+  SENDING: "bg-blue-500/20 text-blue-300",
+  SENT: "bg-green-500/20 text-green-300",
+  DEAD: "bg-red-500/20 text-red-300",
+};
+
+export default function EmailOutboxViewer({ onClose, canRetry }: EmailOutboxViewerProps) {
+  const [messages, setMessages] = useState<OutboxEntry[]>([]);
+  const [counts, setCounts] = useState<Record<EmailStatus, number> | null>(null);
+  const [status, setStatus] = useState<EmailStatus | "">("");
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const currentCursor = pageCursors[pageCursors.length - 1];
+
+  useEffect(() => {
+    fetchMessages();
+  }, [status, currentCursor]);
+
+  const fetchMessages = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const params = new URLSearchParams();
+      if (status) params.set("status", status);
+      if (currentCursor) params.set("cursor", currentCursor);
+
+      const response = await fetch(`/api/admin/email-outbox?${params}`, {
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load email outbox");
+      }
+      setMessages(data.messages);
+      setCounts(data.counts);
+      setNextCursor(data.nextCursor);
+    } catch (err: any) {
+      setError(err.message || "Failed to load email outbox");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectStatus = (next: EmailStatus | "") => {
+    setPageCursors([null]);
+    setStatus(next);
+  };
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+    setError("");
+    try {
+      const response = await fetch(`/api/admin/email-outbox/${id}/retry`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to retry email");
+      }
+      await fetchMessages();
+    } catch (err: any) {
+      setError(err.message || "Failed to retry email");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg text-sm transition-all ${
+      active ? "bg-purple-500/30 text-purple-200" : "bg-black/40 text-gray-400 hover:bg-white/5"
+    }`;
+
+  return (
+    <div className="rounded-2xl p-6 border border-blue-500/20 bg-black/20">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-blue-300">✉️ Email Delivery</h2>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={fetchMessages}
+            disabled={isLoading}
+            className="px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 rounded text-blue-300 text-xs transition-all disabled:opacity-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg text-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {/* Status filter */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button onClick={() => selectStatus("")} className={tabClass(status === "")}>
+          All
+        </button>
+        {STATUSES.map((s) => (
+          <button key={s} onClick={() => selectStatus(s)} className={tabClass(status === s)}>
+            {s} {counts ? `(${counts[s]})` : ""}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400 mx-auto"></div>
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="text-center py-8 text-gray-400">No emails in this view.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10 text-left text-gray-400">
+                <th className="py-3 px-4">Queued</th>
+                <th className="py-3 px-4">To</th>
+                <th className="py-3 px-4">Template</th>
+                <th className="py-3 px-4">Status</th>
+                <th className="py-3 px-4">Attempts</th>
+                <th className="py-3 px-4">Last error</th>
+                <th className="py-3 px-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {messages.map((message) => (
+                <tr key={message.id} className="border-b border-white/5 hover:bg-white/5 align-top">
+                  <td className="py-3 px-4 text-gray-300 whitespace-nowrap">
+                    {formatTimestamp(message.createdAt)}
+                  </td>
+                  <td className="py-3 px-4 text-gray-300">{message.to}</td>
+                  <td className="py-3 px-4">
+                    <div className="font-mono text-blue-300">{message.template}</div>
+                    <div className="text-xs text-gray-500">{message.subject}</div>
+                  </td>
+                  <td className="py-3 px-4">
+                    <span className={`px-2 py-1 rounded-full text-xs ${STATUS_STYLES[message.status]}`}>
+                      {message.status}
+                    </span>
+                    <div className="mt-1 text-xs text-gray-500">
+                      {message.status === "SENT" && message.sentAt
+                        ? `Sent ${formatTimestamp(message.sentAt)}`
+                        : message.status === "PENDING"
+                          ? `Next try ${formatTimestamp(message.nextAttemptAt)}`
+                          : null}
+                    </div>
+                  </td>
+                  <td className="py-3 px-4 text-gray-300">
+                    {message.attempts}/{message.maxAttempts}
+                  </td>
+                  <td className="py-3 px-4 text-xs text-red-300 max-w-xs break-words">
+                    {message.lastError || <span className="text-gray-500">—</span>}
+                  </td>
+                  <td className="py-3 px-4">
+                    {message.status === "DEAD" && canRetry && (
+                      <button
+                        onClick={() => handleRetry(message.id)}
+                        disabled={retryingId === message.id}
+                        className="px-3 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 rounded text-yellow-300 text-xs transition-all disabled:opacity-50"
+                      >
+                        {retryingId === message.id ? "Retrying..." : "Retry"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      <div className="flex justify-between items-center mt-4 text-sm">
+        <button
+          onClick={() => setPageCursors(pageCursors.slice(0, -1))}
+          disabled={pageCursors.length <= 1 || isLoading}
+          className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg disabled:opacity-40"
+        >
+          Previous
+        </button>
+        <span className="text-gray-400">Page {pageCursors.length}</span>
+        <button
+          onClick={() => nextCursor && setPageCursors([...pageCursors, nextCursor])}
+          disabled={!nextCursor || isLoading}
+          className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import MfaVerifyPrompt, { type MfaMethod, type MfaProof } from "@/components/mfa-verify-prompt";
+import {
+  createCredential,
+  isWebAuthnSupported,
+  webauthnErrorMessage,
+} from "@/lib/webauthn-browser";
+
+export interface MfaFactor {
+  id: string;
+  type: "TOTP" | "SECURITY_KEY";
+  name: string;
+  isDefault: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface MfaFactorManagerProps {
+  factors: MfaFactor[];
+  methods: MfaMethod[]; // Ways to confirm a removal
+  onAddAuthenticator: () => void;
+  onChange: () => void;
+}
+
+const TYPE_LABELS: Record<MfaFactor["type"], string> = {
+  TOTP: "Authenticator app",
+  SECURITY_KEY: "Security key",
+};
+
+export default function MfaFactorManager({
+  factors,
+  methods,
+  onAddAuthenticator,
+  onChange,
+}: MfaFactorManagerProps) {
+  const [webauthnSupported, setWebauthnSupported] = useState(false);
+  const [keyName, setKeyName] = useState("");
+  const [isAddingKey, setIsAddingKey] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [removing, setRemoving] = useState<MfaFactor | null>(null);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    setWebauthnSupported(isWebAuthnSupported());
+  }, []);
+
+  const updateFactor = async (id: string, body: { name?: string; isDefault?: true }) => {
+    setError("");
+    setSuccess("");
+    try {
+      const response = await fetch(`/api/auth/mfa/factors/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update two-factor method");
+      }
+      setEditingId(null);
+      onChange();
+    } catch (err: any) {
+      setError(err.message || "Failed to update two-factor method");
+    }
+  };
+
+  const handleAddSecurityKey = async () => {
+    setIsAddingKey(true);
+    setError("");
+    setSuccess("");
+    try {
+      const optionsResponse = await fetch("/api/auth/mfa/security-keys/options", {
+        method: "POST",
+        credentials: "include",
+      });
+      const optionsData = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        throw new Error(optionsData.error || "Failed to start security key setup");
+      }
+
+      const credential = await createCredential(optionsData.options);
+
+      const response = await fetch("/api/auth/mfa/security-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ credential, name: keyName }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add security key");
+      }
+
+      setKeyName("");
+      setSuccess(`Security key "${data.factor.name}" added`);
+      if (data.backupCodes) {
+        alert(
+          `Two-factor authentication is now on. Your backup codes:\n\n${data.backupCodes.join(
+            "\n"
+          )}\n\nPlease save them in a secure place.`
+        );
+      }
+      onChange();
+    } catch (err) {
+      setError(webauthnErrorMessage(err, "Failed to add security key"));
+    } finally {
+      setIsAddingKey(false);
+    }
+  };
+
+  const handleRemove = async (proof: MfaProof) => {
+    if (!removing) return;
+    const response = await fetch(`/api/auth/mfa/factors/${removing.id}`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(proof),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to remove two-factor method");
+    }
+    setRemoving(null);
+    setSuccess(
+      data.disabled
+        ? "Two-factor authentication turned off"
+        : `"${removing.name}" removed`
+    );
+    onChange();
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-cyan-500/30 mb-6">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold">Two-Factor Methods</h2>
+        <p className="text-gray-400 text-sm">
+          Authenticator apps and security keys you can use as a second step when signing in
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-500/20 border border-green-500/30 rounded-lg text-green-300 text-sm">
+          {success}
+        </div>
+      )}
+
+      {factors.length === 0 ? (
+        <p className="text-gray-400 text-sm mb-4">No two-factor methods enrolled.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700 mb-4">
+          {factors.map((factor) => (
+            <li key={factor.id} className="flex items-center justify-between py-3">
+              <div>
+                {editingId === factor.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-sm"
+                  />
+                ) : (
+                  <p className="text-white">
+                    {factor.name}
+                    {factor.isDefault && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-500/20 text-green-300 border border-green-500/30">
+                        Default
+                      </span>
+                    )}
+                  </p>
+                )}
+                <p className="text-gray-400 text-sm">
+                  {TYPE_LABELS[factor.type]} · Added{" "}
+                  {new Date(factor.createdAt).toLocaleDateString()} · Last used{" "}
+                  {factor.lastUsedAt ? new Date(factor.lastUsedAt).toLocaleString() : "never"}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                {editingId === factor.id ? (
+                  <>
+                    <button
+                      onClick={() => updateFactor(factor.id, { name: editingName })}
+                      className="px-3 py-1 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/10 rounded-lg transition-colors text-sm"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-700 rounded-lg text-sm"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {!factor.isDefault && (
+                      <button
+                        onClick={() => updateFactor(factor.id, { isDefault: true })}
+                        className="px-3 py-1 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/10 rounded-lg transition-colors text-sm"
+                      >
+                        Make default
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        setEditingId(factor.id);
+                        setEditingName(factor.name);
+                      }}
+                      className="px-3 py-1 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/10 rounded-lg transition-colors text-sm"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => setRemoving(factor)}
+                      className="px-3 py-1 border border-red-500/30 text-red-300 hover:bg-red-500/10 rounded-lg transition-colors text-sm"
+                    >
+                      Remove
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={onAddAuthenticator}
+          className="px-4 py-2 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/10 rounded-lg transition-colors"
+        >
+          Add authenticator app
+        </button>
+        {webauthnSupported && (
+          <div className="flex flex-1 space-x-3">
+            <input
+              type="text"
+              value={keyName}
+              onChange={(e) => setKeyName(e.target.value)}
+              className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg"
+              placeholder="Security key name"
+            />
+            <button
+              onClick={handleAddSecurityKey}
+              disabled={isAddingKey}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-white font-medium transition-colors disabled:opacity-50"
+            >
+              {isAddingKey ? "Waiting for key..." : "Add security key"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {removing && (
+        <MfaVerifyPrompt
+          title={`Remove "${removing.name}"`}
+          description={
+            factors.length === 1
+              ? "This is your last two-factor method; removing it turns two-factor authentication off. Confirm with a current code or key."
+              : "Confirm with a current code or key."
+          }
+          confirmLabel="Remove"
+          methods={methods}
+          onConfirm={handleRemove}
+          onCancel={() => setRemoving(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { getCredential, webauthnErrorMessage } from "@/lib/webauthn-browser";
+
+export type MfaMethod = "totp" | "security_key" | "backup_code";
+
+export interface MfaProof {
+  method: MfaMethod;
+  token?: string;
+  credential?: unknown;
+}
+
+interface MfaVerifyPromptProps {
+  title: string;
+  description: string;
+  confirmLabel: string;
+  methods: MfaMethod[];
+  // Throws with a message to show when the server rejects the proof
+  onConfirm: (proof: MfaProof) => Promise<void>;
+  onCancel: () => void;
+}
+
+const METHOD_LABELS: Record<MfaMethod, string> = {
+  totp: "Authenticator app",
+  security_key: "Security key",
+  backup_code: "Backup code",
+};
+
+export default function MfaVerifyPrompt({
+  title,
+  description,
+  confirmLabel,
+  methods,
+  onConfirm,
+  onCancel,
+}: MfaVerifyPromptProps) {
+  const [method, setMethod] = useState<MfaMethod>(methods[0] ?? "totp");
+  const [token, setToken] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleConfirm = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      if (method === "security_key") {
+        const optionsResponse = await fetch("/api/auth/mfa/challenge", {
+          method: "POST",
+          credentials: "include",
+        });
+        const optionsData = await optionsResponse.json();
+        if (!optionsResponse.ok) {
+          throw new Error(optionsData.error || "Failed to start security key check");
+        }
+        const credential = await getCredential(optionsData.options);
+        await onConfirm({ method, credential });
+      } else {
+        if (!token.trim()) {
+          throw new Error("Please enter a code");
+        }
+        await onConfirm({ method, token: token.trim() });
+      }
+    } catch (err) {
+      setError(webauthnErrorMessage(err, "Verification failed"));
+      setToken("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center">
+      <div className="bg-gray-800 rounded-lg p-6 border border-cyan-500/30 w-full max-w-md">
+        <h2 className="text-xl font-semibold mb-4">{title}</h2>
+        <p className="text-gray-400 mb-4">{description}</p>
+
+        {methods.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {methods.map((m) => (
+              <button
+                key={m}
+                onClick={() => {
+                  setMethod(m);
+                  setError("");
+                }}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                  method === m
+                    ? "bg-cyan-500/30 text-cyan-200"
+                    : "border border-gray-600 text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                {METHOD_LABELS[m]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        {method === "security_key" ? (
+          <p className="text-gray-300 text-sm mb-4">
+            Insert or tap your security key when your browser asks for it.
+          </p>
+        ) : (
+          <input
+            type="text"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg mb-4"
+            placeholder={method === "backup_code" ? "Backup code" : "6-digit code"}
+          />
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-600 text-gray-300 hover:bg-gray-700 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isLoading}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-50"
+          >
+            {isLoading ? "Verifying..." : confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
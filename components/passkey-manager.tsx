@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  createCredential,
+  isWebAuthnSupported,
+  webauthnErrorMessage,
+} from "@/lib/webauthn-browser";
+
+interface Passkey {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export default function PasskeyManager() {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [supported, setSupported] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    setSupported(isWebAuthnSupported());
+    fetchPasskeys();
+  }, []);
+
+  const fetchPasskeys = async () => {
+    try {
+      const response = await fetch("/api/auth/passkeys", {
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load passkeys");
+      }
+      setPasskeys(data.passkeys);
+    } catch (err: any) {
+      setError(err.message || "Failed to load passkeys");
+    }
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    setError("");
+    setSuccess("");
+    try {
+      const optionsResponse = await fetch("/api/auth/passkeys/register/options", {
+        method: "POST",
+        credentials: "include",
+      });
+      const optionsData = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        throw new Error(optionsData.error || "Failed to start passkey setup");
+      }
+
+      const credential = await createCredential(optionsData.options);
+
+      const response = await fetch("/api/auth/passkeys/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ credential, name: newName.trim() || "Passkey" }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add passkey");
+      }
+
+      setNewName("");
+      setSuccess(`Passkey "${data.passkey.name}" added`);
+      fetchPasskeys();
+    } catch (err) {
+      setError(webauthnErrorMessage(err, "Failed to add passkey"));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    setError("");
+    setSuccess("");
+    try {
+      const response = await fetch(`/api/auth/passkeys/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name: editingName }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rename passkey");
+      }
+      setEditingId(null);
+      fetchPasskeys();
+    } catch (err: any) {
+      setError(err.message || "Failed to rename passkey");
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    if (!confirm(`Remove the passkey "${passkey.name}"? You will no longer be able to sign in with it.`)) {
+      return;
+    }
+    setError("");
+    setSuccess("");
+    try {
+      const response = await fetch(`/api/auth/passkeys/${passkey.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to remove passkey");
+      }
+      setSuccess("Passkey removed");
+      fetchPasskeys();
+    } catch (err: any) {
+      setError(err.message || "Failed to remove passkey");
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-cyan-500/30 mb-6">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold">Passkeys</h2>
+        <p className="text-gray-400 text-sm">
+          Sign in with your fingerprint, face or device PIN instead of a password
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-500/20 border border-green-500/30 rounded-lg text-green-300 text-sm">
+          {success}
+        </div>
+      )}
+
+      {passkeys.length === 0 ? (
+        <p className="text-gray-400 text-sm mb-4">No passkeys registered.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700 mb-4">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="flex items-center justify-between py-3">
+              <div>
+                {editingId === passkey.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-sm"
+                  />
+                ) : (
+                  <p className="text-white">
+                    {passkey.name}
+                    {passkey.backedUp && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-500/20 text-blue-300 border border-blue-500/30">
+                        Synced
+                      </span>
+                    )}
+                  </p>
+                )}
+                <p className="text-gray-400 text-sm">
+                  Added {new Date(passkey.createdAt).toLocaleDateString()} · Last used{" "}
+                  {passkey.lastUsedAt ? new Date(passkey.lastUsedAt).toLocaleString() : "never"}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                {editingId === passkey.id ? (
+                  <>
+                    <button
+                      onClick={() => handleRename(passkey.id)}
+                      className="px-3 py-1 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/10 rounded-lg transition-colors text-sm"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-700 rounded-lg text-sm"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => {
+                        setEditingId(passkey.id);
+                        setEditingName(passkey.name);
+                      }}
+                      className="px-3 py-1 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/10 rounded-lg transition-colors text-sm"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => handleRemove(passkey)}
+                      className="px-3 py-1 border border-red-500/30 text-red-300 hover:bg-red-500/10 rounded-lg transition-colors text-sm"
+                    >
+                      Remove
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {supported ? (
+        <div className="flex space-x-3">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg"
+            placeholder="Name, e.g. Work laptop"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={isAdding}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-white font-medium transition-colors disabled:opacity-50"
+          >
+            {isAdding ? "Waiting for passkey..." : "Add a passkey"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">This browser does not support passkeys.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface PhoneSettings {
+  phoneNumber: string | null;
+  verifiedAt: string | null;
+  otpChannel: "email" | "sms";
+}
+
+export default function PhoneNumberManager() {
+  const [phone, setPhone] = useState<PhoneSettings | null>(null);
+  const [newNumber, setNewNumber] = useState("");
+  const [pendingNumber, setPendingNumber] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    fetchPhone();
+  }, []);
+
+  const fetchPhone = async () => {
+    try {
+      const response = await fetch("/api/auth/phone", { credentials: "include" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load phone number");
+      }
+      setPhone(data.phone);
+    } catch (err: any) {
+      setError(err.message || "Failed to load phone number");
+    }
+  };
+
+  // Shared request flow: clears messages, reports the API error if any
+  const submit = async (url: string, init: RequestInit, fallbackError: string) => {
+    setIsBusy(true);
+    setError("");
+    setSuccess("");
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || fallbackError);
+      }
+      return data;
+    } catch (err: any) {
+      setError(err.message || fallbackError);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    const data = await submit(
+      "/api/auth/phone/send-code",
+      { method: "POST", body: JSON.stringify({ phoneNumber: newNumber }) },
+      "Failed to send code"
+    );
+    if (data) {
+      setPendingNumber(data.phoneNumber);
+      setCode("");
+      setSuccess(`We texted a code to ${data.phoneNumber}`);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!pendingNumber) return;
+    const data = await submit(
+      "/api/auth/phone/verify",
+      { method: "POST", body: JSON.stringify({ phoneNumber: pendingNumber, code }) },
+      "Failed to verify phone number"
+    );
+    if (data) {
+      setPhone(data.phone);
+      setPendingNumber(null);
+      setNewNumber("");
+      setCode("");
+      setSuccess("Phone number verified");
+    }
+  };
+
+  const handleChannel = async (otpChannel: "email" | "sms") => {
+    const data = await submit(
+      "/api/auth/phone",
+      { method: "PATCH", body: JSON.stringify({ otpChannel }) },
+      "Failed to update code delivery"
+    );
+    if (data) {
+      setPhone(data.phone);
+      setSuccess(otpChannel === "sms" ? "Codes will be sent by text message" : "Codes will be sent by email");
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm("Remove your phone number? Sign-in and reset codes will be sent by email.")) {
+      return;
+    }
+    const data = await submit("/api/auth/phone", { method: "DELETE" }, "Failed to remove phone number");
+    if (data) {
+      setPhone(data.phone);
+      setSuccess("Phone number removed");
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-cyan-500/30 mb-6">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold">Phone Number</h2>
+        <p className="text-gray-400 text-sm">
+          Receive sign-in and password reset codes by text message instead of email
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-500/20 border border-green-500/30 rounded-lg text-green-300 text-sm">
+          {success}
+        </div>
+      )}
+
+      {phone?.phoneNumber && (
+        <div className="flex items-center justify-between py-3 mb-4 border-b border-gray-700">
+          <div>
+            <p className="text-white">{phone.phoneNumber}</p>
+            <p className="text-gray-400 text-sm">
+              Verified {phone.verifiedAt ? new Date(phone.verifiedAt).toLocaleDateString() : ""}
+            </p>
+          </div>
+          <button
+            onClick={handleRemove}
+            disabled={isBusy}
+            className="px-3 py-1 border border-red-500/30 text-red-300 hover:bg-red-500/10 rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+
+      {phone?.phoneNumber && (
+        <div className="mb-4">
+          <p className="text-sm text-gray-300 mb-2">Send my codes by</p>
+          <div className="flex space-x-2">
+            {(["email", "sms"] as const).map((channel) => (
+              <button
+                key={channel}
+                onClick={() => handleChannel(channel)}
+                disabled={isBusy || phone.otpChannel === channel}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors border ${
+                  phone.otpChannel === channel
+                    ? "border-cyan-500 bg-cyan-500/20 text-cyan-200"
+                    : "border-gray-600 text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                {channel === "sms" ? "Text message" : "Email"}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pendingNumber ? (
+        <div className="flex space-x-3">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg"
+            placeholder="6-digit code"
+            maxLength={6}
+          />
+          <button
+            onClick={handleVerify}
+            disabled={isBusy || code.length !== 6}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-white font-medium transition-colors disabled:opacity-50"
+          >
+            Verify
+          </button>
+          <button
+            onClick={() => setPendingNumber(null)}
+            className="px-4 py-2 border border-gray-600 text-gray-300 hover:bg-gray-700 rounded-lg"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex space-x-3">
+          <input
+            type="tel"
+            value={newNumber}
+            onChange={(e) => setNewNumber(e.target.value)}
+            className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg"
+            placeholder="+1 555 010 1234"
+          />
+          <button
+            onClick={handleSendCode}
+            disabled={isBusy || !newNumber.trim()}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg text-white font-medium transition-colors disabled:opacity-50"
+          >
+            {phone?.phoneNumber ? "Change number" : "Add number"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface CustomRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  userCount: number;
+}
+
+interface RoleManagerProps {
+  onClose: () => void;
+  onRolesChanged?: (roles: CustomRole[]) => void;
+}
+
+export default function RoleManager({ onClose, onRolesChanged }: RoleManagerProps) {
+  const [permissions, setPermissions] = useState<Record<string, string>>({});
+  const [builtInRoles, setBuiltInRoles] = useState<Record<string, string[]>>({});
+  const [roles, setRoles] = useState<CustomRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [newRoleName, setNewRoleName] = useState("");
+  const [newRolePermissions, setNewRolePermissions] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch("/api/admin/roles", {
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load roles");
+      }
+      setPermissions(data.permissions);
+      setBuiltInRoles(data.builtInRoles);
+      setRoles(data.roles);
+      onRolesChanged?.(data.roles);
+    } catch (err: any) {
+      setError(err.message || "Failed to load roles");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (list: string[], permission: string) =>
+    list.includes(permission)
+      ? list.filter((p) => p !== permission)
+      : [...list, permission];
+
+  const handleTogglePermission = async (role: CustomRole, permission: string) => {
+    setError("");
+    try {
+      const response = await fetch(`/api/admin/roles/${role.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ permissions: toggle(role.permissions, permission) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update role");
+      }
+      fetchRoles();
+    } catch (err: any) {
+      setError(err.message || "Failed to update role");
+    }
+  };
+
+  const handleCreateRole = async () => {
+    setError("");
+    try {
+      const response = await fetch("/api/admin/roles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name: newRoleName, permissions: newRolePermissions }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create role");
+      }
+      setNewRoleName("");
+      setNewRolePermissions([]);
+      fetchRoles();
+    } catch (err: any) {
+      setError(err.message || "Failed to create role");
+    }
+  };
+
+  const handleDeleteRole = async (role: CustomRole) => {
+    if (
+      !confirm(
+        `Delete the "${role.name}" role? ${role.userCount} user(s) will lose its permissions.`
+      )
+    ) {
+      return;
+    }
+    setError("");
+    try {
+      const response = await fetch(`/api/admin/roles/${role.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete role");
+      }
+      fetchRoles();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete role");
+    }
+  };
+
+  const permissionKeys = Object.keys(permissions);
+
+  return (
+    <div className="rounded-2xl p-6 border border-purple-500/20 bg-black/20">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-purple-300">🔑 Roles & Permissions</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg text-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-400 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10">
+                <th className="text-left py-3 px-4 text-gray-400">Role</th>
+                {permissionKeys.map((permission) => (
+                  <th
+                    key={permission}
+                    title={permissions[permission]}
+                    className="py-3 px-2 text-gray-400 font-mono text-xs"
+                  >
+                    {permission}
+                  </th>
+                ))}
+                <th className="py-3 px-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(builtInRoles).map(([name, granted]) => (
+                <tr key={name} className="border-b border-white/5">
+                  <td className="py-3 px-4">
+                    {name}
+                    <span className="ml-2 text-xs text-gray-500">built-in</span>
+                  </td>
+                  {permissionKeys.map((permission) => (
+                    <td key={permission} className="text-center">
+                      <input type="checkbox" checked={granted.includes(permission)} disabled />
+                    </td>
+                  ))}
+                  <td></td>
+                </tr>
+              ))}
+              {roles.map((role) => (
+                <tr key={role.id} className="border-b border-white/5 hover:bg-white/5">
+                  <td className="py-3 px-4">
+                    {role.name}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {role.userCount} user{role.userCount === 1 ? "" : "s"}
+                    </span>
+                  </td>
+                  {permissionKeys.map((permission) => (
+                    <td key={permission} className="text-center">
+                      <input
+                        type="checkbox"
+                        checked={role.permissions.includes(permission)}
+                        onChange={() => handleTogglePermission(role, permission)}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-3 px-4">
+                    <button
+                      onClick={() => handleDeleteRole(role)}
+                      className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 rounded text-red-300 text-xs transition-all"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <td className="py-3 px-4">
+                  <input
+                    type="text"
+                    value={newRoleName}
+                    onChange={(e) => setNewRoleName(e.target.value)}
+                    placeholder="New role name"
+                    className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white"
+                  />
+                </td>
+                {permissionKeys.map((permission) => (
+                  <td key={permission} className="text-center">
+                    <input
+                      type="checkbox"
+                      checked={newRolePermissions.includes(permission)}
+                      onChange={() =>
+                        setNewRolePermissions(toggle(newRolePermissions, permission))
+                      }
+                    />
+                  </td>
+                ))}
+                <td className="py-3 px-4">
+                  <button
+                    onClick={handleCreateRole}
+                    disabled={!newRoleName.trim()}
+                    className="px-3 py-1 bg-purple-500/20 hover:bg-purple-500/30 rounded text-purple-300 text-xs transition-all disabled:opacity-40"
+                  >
+                    Create
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-gray-500 text-xs mt-4">
+            Permission changes apply to signed-in users the next time their session refreshes
+            (within 15 minutes).
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface SignInSettings {
+  magicLinkEnabled: boolean;
+}
+
+interface SignInSettingsPanelProps {
+  onClose: () => void;
+}
+
+const SETTINGS: { key: keyof SignInSettings; label: string; description: string }[] = [
+  {
+    key: "magicLinkEnabled",
+    label: "Magic-link sign-in",
+    description:
+      "Email a one-click sign-in link alongside the login code. Links are single-use, expire with the code, and only work in the browser that started the sign-in.",
+  },
+];
+
+export default function SignInSettingsPanel({ onClose }: SignInSettingsPanelProps) {
+  const [settings, setSettings] = useState<SignInSettings | null>(null);
+  const [savingKey, setSavingKey] = useState<keyof SignInSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const response = await fetch("/api/admin/settings", { credentials: "include" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load settings");
+      }
+      setSettings(data.settings);
+    } catch (err: any) {
+      setError(err.message || "Failed to load settings");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = async (key: keyof SignInSettings) => {
+    if (!settings) return;
+    setSavingKey(key);
+    setError("");
+    try {
+      const response = await fetch("/api/admin/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ [key]: !settings[key] }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update settings");
+      }
+      setSettings(data.settings);
+    } catch (err: any) {
+      setError(err.message || "Failed to update settings");
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl p-6 border border-yellow-500/20 bg-black/20">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-yellow-300">🔑 Sign-in Settings</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 border border-gray-600 text-gray-300 hover:bg-gray-800 rounded-lg text-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yellow-400 mx-auto"></div>
+        </div>
+      ) : settings ? (
+        <div className="space-y-4">
+          {SETTINGS.map(({ key, label, description }) => (
+            <div
+              key={key}
+              className="flex items-start justify-between gap-6 p-4 rounded-lg border border-white/10 bg-black/30"
+            >
+              <div>
+                <div className="font-semibold text-gray-200">{label}</div>
+                <p className="mt-1 text-sm text-gray-400">{description}</p>
+              </div>
+              <button
+                onClick={() => toggle(key)}
+                disabled={savingKey === key}
+                className={`shrink-0 px-4 py-1 rounded-lg text-sm transition-all disabled:opacity-50 ${
+                  settings[key]
+                    ? "bg-green-500/20 hover:bg-green-500/30 text-green-300"
+                    : "bg-gray-500/20 hover:bg-gray-500/30 text-gray-300"
+                }`}
+              >
+                {savingKey === key ? "Saving..." : settings[key] ? "Enabled" : "Disabled"}
+              </button>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            Changes can take up to 30 seconds to reach every server instance.
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
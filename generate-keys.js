@@ -1,11 +1,49 @@
 const crypto = require("crypto");
 
+// Usage: node generate-keys.js [--alg ES256|RS256]
+const algArg = process.argv.indexOf("--alg");
+const alg = algArg !== -1 ? process.argv[algArg + 1] : "ES256";
+
+if (!["ES256", "RS256"].includes(alg)) {
+  console.error(`Unsupported algorithm "${alg}". Use ES256 or RS256.`);
+  process.exit(1);
+}
+
 function generateKey() {
   return crypto.randomBytes(32).toString("base64");
 }
 
+function generateSigningKey() {
+  const { privateKey } =
+    alg === "ES256"
+      ? crypto.generateKeyPairSync("ec", { namedCurve: "P-256" })
+      : crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+  const kid = `${new Date().toISOString().slice(0, 10)}-${crypto
+    .randomBytes(4)
+    .toString("hex")}`;
+  const jwk = { ...privateKey.export({ format: "jwk" }), kid, alg };
+
+  const publicJwk = { ...jwk };
+  for (const field of ["d", "p", "q", "dp", "dq", "qi"]) delete publicJwk[field];
+
+  return { jwk, publicJwk };
+}
+
+const signing = generateSigningKey();
+
 console.log("=== GENERATE ENCRYPTION KEYS ===");
 console.log("");
 console.log("TOTP_SECRET_ENCRYPTION_KEY:", generateKey());
 console.log("BACKUP_CODES_ENCRYPTION_KEY:", generateKey());
+console.log("OTP_HASH_SECRET:", generateKey());
+console.log("MAGIC_LINK_SECRET:", generateKey());
+console.log("ADMIN_SETUP_TOKEN:", crypto.randomBytes(32).toString("hex"));
+console.log("");
+console.log(`=== JWT SIGNING KEY (${alg}) ===`);
+console.log("");
+console.log(`JWT_SIGNING_KEY='${JSON.stringify(signing.jwk)}'`);
+console.log("");
+console.log("Public key (add to JWT_VERIFICATION_KEYS when rotating this key out):");
+console.log(JSON.stringify(signing.publicJwk));
 console.log("");
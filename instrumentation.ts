@@ -0,0 +1,19 @@
+import { assertJwtKeysConfigured } from "@/lib/jwt-keys";
+import { magicLinkSecret } from "@/lib/magic-link-config";
+import { otpHashSecret } from "@/lib/otp-config";
+
+// Runs once when the server starts; refuse to boot without a JWT signing key
+// or the secrets sign-in needs
+export async function register() {
+  assertJwtKeysConfigured();
+  magicLinkSecret();
+  otpHashSecret();
+
+  // The background workers need Prisma and timers, so Node.js runtime only
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { EmailOutbox } = await import("@/lib/email-outbox");
+    EmailOutbox.startWorker();
+    const { Cleanup } = await import("@/lib/cleanup");
+    Cleanup.startWorker();
+  }
+}
@@ -0,0 +1,145 @@
+// lib/account-lockout.ts
+// Progressive lockout for failed password logins.
+// After `threshold` consecutive failures the account is locked; every further
+// failure doubles the lock duration (capped at `maxLockDuration`). The counter
+// only resets on a successful login or when an admin unlocks the account.
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/email";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+
+export const LOGIN_LOCKOUT_CONFIG = {
+  threshold: 5,
+  baseLockDuration: 5 * 60 * 1000, // 5 minutes
+  maxLockDuration: 24 * 60 * 60 * 1000, // 24 hours
+} as const;
+
+export interface LockoutContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface LockoutStatus {
+  locked: boolean;
+  lockUntil?: Date;
+  retryAfterSeconds?: number;
+}
+
+export class AccountLockout {
+  static lockDurationFor(failedAttempts: number): number {
+    const extra = Math.max(0, failedAttempts - LOGIN_LOCKOUT_CONFIG.threshold);
+    return Math.min(
+      LOGIN_LOCKOUT_CONFIG.baseLockDuration * 2 ** extra,
+      LOGIN_LOCKOUT_CONFIG.maxLockDuration
+    );
+  }
+
+  static status(user: { loginLockUntil: Date | null }): LockoutStatus {
+    if (user.loginLockUntil && user.loginLockUntil > new Date()) {
+      return {
+        locked: true,
+        lockUntil: user.loginLockUntil,
+        retryAfterSeconds: Math.ceil(
+          (user.loginLockUntil.getTime() - Date.now()) / 1000
+        ),
+      };
+    }
+    return { locked: false };
+  }
+
+  // Records a failed password attempt and locks the account when the threshold is reached
+  static async recordFailure(
+    userId: string,
+    context: LockoutContext = {}
+  ): Promise<LockoutStatus> {
+    const log = createRequestLogger("account-lockout/failure");
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginAttempts: { increment: 1 },
+        lastFailedLoginAt: new Date(),
+      },
+      select: { id: true, email: true, name: true, failedLoginAttempts: true },
+    });
+
+    await recordAuditEvent(context, {
+      action: "LOGIN_FAILED",
+      userId: user.id,
+      details: {
+        reason: "invalid_password",
+        failedAttempts: user.failedLoginAttempts,
+      },
+    });
+
+    if (user.failedLoginAttempts < LOGIN_LOCKOUT_CONFIG.threshold) {
+      return { locked: false };
+    }
+
+    const duration = this.lockDurationFor(user.failedLoginAttempts);
+    const lockUntil = new Date(Date.now() + duration);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { loginLockUntil: lockUntil },
+    });
+
+    await recordAuditEvent(context, {
+      action: "ACCOUNT_LOCKED",
+      userId: user.id,
+      details: {
+        failedAttempts: user.failedLoginAttempts,
+        lockUntil: lockUntil.toISOString(),
+        durationSeconds: Math.round(duration / 1000),
+      },
+    });
+
+    log.warn("Account locked after failed logins", {
+      userId: user.id,
+      failedAttempts: user.failedLoginAttempts,
+      durationSeconds: Math.round(duration / 1000),
+    });
+
+    const sent = await sendEmail(user.email, "account_locked", {
+      name: user.name || "User",
+      lockUntil,
+    });
+    if (!sent) {
+      log.error("Failed to send account locked email", { userId: user.id });
+    }
+
+    return {
+      locked: true,
+      lockUntil,
+      retryAfterSeconds: Math.ceil(duration / 1000),
+    };
+  }
+
+  static async recordSuccess(userId: string): Promise<void> {
+    await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ failedLoginAttempts: { gt: 0 } }, { loginLockUntil: { not: null } }],
+      },
+      data: { failedLoginAttempts: 0, loginLockUntil: null },
+    });
+  }
+
+  static async unlock(
+    userId: string,
+    adminUserId: string,
+    context: LockoutContext = {}
+  ): Promise<void> {
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, loginLockUntil: null },
+      select: { id: true },
+    });
+
+    await recordAuditEvent(context, {
+      action: "ACCOUNT_UNLOCKED",
+      userId: user.id,
+      details: { unlockedBy: adminUserId },
+    });
+  }
+}
@@ -0,0 +1,104 @@
+// lib/admin-bootstrap.ts
+// One-time creation of the first admin account.
+// Enabled only while ADMIN_SETUP_TOKEN is set and no ADMIN user exists; once
+// the first admin is created the bootstrap endpoint reports itself disabled.
+// The new admin must enroll TOTP before any session grants access.
+import { timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { hashPassword } from "@/lib/auth";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+
+export interface BootstrapAdminInput {
+  email: string;
+  password: string;
+  name: string;
+}
+
+export type BootstrapResult =
+  | { success: true; user: { id: string; email: string; name: string | null } }
+  | { success: false; reason: "admin_exists" | "email_taken" };
+
+export class AdminBootstrap {
+  static isConfigured(): boolean {
+    return Boolean(process.env.ADMIN_SETUP_TOKEN);
+  }
+
+  // Accepts "Authorization: Bearer <token>"
+  static verifySetupToken(authorizationHeader: string | null): boolean {
+    const expected = process.env.ADMIN_SETUP_TOKEN;
+    if (!expected || !authorizationHeader?.startsWith("Bearer ")) return false;
+
+    const provided = Buffer.from(authorizationHeader.slice("Bearer ".length).trim());
+    const wanted = Buffer.from(expected);
+    return provided.length === wanted.length && timingSafeEqual(provided, wanted);
+  }
+
+  static async adminExists(): Promise<boolean> {
+    const admin = await prisma.user.findFirst({
+      where: { role: "ADMIN" },
+      select: { id: true },
+    });
+    return admin !== null;
+  }
+
+  static async isAvailable(): Promise<boolean> {
+    return this.isConfigured() && !(await this.adminExists());
+  }
+
+  static async createInitialAdmin(
+    input: BootstrapAdminInput,
+    ctx: { ipAddress: string; userAgent: string }
+  ): Promise<BootstrapResult> {
+    const log = createRequestLogger("admin-bootstrap");
+    const email = input.email.trim().toLowerCase();
+    const hashedPassword = await hashPassword(input.password);
+
+    // Serializable so two concurrent bootstrap calls cannot both see "no admin"
+    const result = await prisma.$transaction(
+      async (tx): Promise<BootstrapResult> => {
+        const existingAdmin = await tx.user.findFirst({
+          where: { role: "ADMIN" },
+          select: { id: true },
+        });
+        if (existingAdmin) return { success: false, reason: "admin_exists" };
+
+        const emailTaken = await tx.user.findUnique({
+          where: { email },
+          select: { id: true },
+        });
+        if (emailTaken) return { success: false, reason: "email_taken" };
+
+        const user = await tx.user.create({
+          data: {
+            email,
+            password: hashedPassword,
+            name: input.name.trim(),
+            role: "ADMIN",
+            status: "ACTIVE",
+            company: "",
+            plan: "",
+            verified: true,
+            totpEnrollmentRequired: true,
+          },
+          select: { id: true, email: true, name: true },
+        });
+
+        return { success: true, user };
+      },
+      { isolationLevel: "Serializable" }
+    );
+
+    if (result.success) {
+      await recordAuditEvent(ctx, {
+        action: "ADMIN_BOOTSTRAPPED",
+        userId: result.user.id,
+        details: { email: result.user.email, totpEnrollmentRequired: true },
+      });
+      log.info("Initial admin created", { userId: result.user.id });
+    } else {
+      log.warn("Bootstrap rejected", { reason: result.reason });
+    }
+    return result;
+  }
+}
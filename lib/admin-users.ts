@@ -0,0 +1,266 @@
+// lib/admin-users.ts
+// Shapes and validation for the admin user-management API.
+import type { Prisma, UserRole, UserStatus } from "@/app/generated/prisma";
+
+export const ADMIN_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  status: true,
+  createdAt: true,
+  company: true,
+  plan: true,
+  failedLoginAttempts: true,
+  loginLockUntil: true,
+  isTOTPEnabled: true,
+  authProvider: true,
+  customRoleId: true,
+  customRole: { select: { id: true, name: true } },
+} as const;
+
+export interface AdminUserRecord {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  status: UserStatus;
+  createdAt: Date;
+  company: string;
+  plan: string;
+  failedLoginAttempts: number;
+  loginLockUntil: Date | null;
+  isTOTPEnabled: boolean;
+  authProvider: string | null;
+  customRoleId: string | null;
+  customRole: { id: string; name: string } | null;
+}
+
+// Format expected by app/admindashboard
+export function toAdminUserView(user: AdminUserRecord) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    company: user.company,
+    plan: user.plan,
+    createdAt: user.createdAt.toISOString(),
+    status: user.status.toLowerCase() as "active" | "inactive" | "suspended",
+    failedLoginAttempts: user.failedLoginAttempts,
+    lockedUntil:
+      user.loginLockUntil && user.loginLockUntil > new Date()
+        ? user.loginLockUntil.toISOString()
+        : null,
+    isTOTPEnabled: user.isTOTPEnabled,
+    authProvider: user.authProvider || "PASSWORD",
+    customRole: user.customRole,
+  };
+}
+
+export interface AdminUserUpdate {
+  name?: string | null;
+  company?: string;
+  plan?: string;
+  role?: UserRole;
+  status?: UserStatus;
+  customRoleId?: string | null;
+}
+
+const ROLES: UserRole[] = ["USER", "ADMIN"];
+const STATUSES: UserStatus[] = ["ACTIVE", "INACTIVE", "SUSPENDED"];
+const MAX_TEXT_LENGTH = 100;
+
+// Validates a PATCH body. Unknown fields are rejected rather than ignored so a
+// typo can't silently turn into a no-op.
+export function parseAdminUserUpdate(
+  body: unknown
+): { success: true; update: AdminUserUpdate } | { success: false; error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { success: false, error: "Request body must be a JSON object" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const update: AdminUserUpdate = {};
+
+  for (const [field, value] of Object.entries(input)) {
+    switch (field) {
+      case "name": {
+        if (value !== null && typeof value !== "string") {
+          return { success: false, error: "name must be a string" };
+        }
+        const name = value?.trim() || null;
+        if (name && name.length > MAX_TEXT_LENGTH) {
+          return { success: false, error: "name is too long" };
+        }
+        update.name = name;
+        break;
+      }
+      case "company":
+      case "plan": {
+        if (typeof value !== "string" || !value.trim()) {
+          return { success: false, error: `${field} must be a non-empty string` };
+        }
+        if (value.trim().length > MAX_TEXT_LENGTH) {
+          return { success: false, error: `${field} is too long` };
+        }
+        update[field] = value.trim();
+        break;
+      }
+      case "role": {
+        const role = String(value).toUpperCase() as UserRole;
+        if (!ROLES.includes(role)) {
+          return { success: false, error: `role must be one of ${ROLES.join(", ")}` };
+        }
+        update.role = role;
+        break;
+      }
+      case "status": {
+        const status = String(value).toUpperCase() as UserStatus;
+        if (!STATUSES.includes(status)) {
+          return { success: false, error: `status must be one of ${STATUSES.join(", ")}` };
+        }
+        update.status = status;
+        break;
+      }
+      case "customRoleId": {
+        if (value !== null && (typeof value !== "string" || !value)) {
+          return { success: false, error: "customRoleId must be a role id or null" };
+        }
+        update.customRoleId = value;
+        break;
+      }
+      default:
+        return { success: false, error: `Field "${field}" cannot be updated` };
+    }
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { success: false, error: "No fields to update" };
+  }
+  return { success: true, update };
+}
+
+export const ADMIN_USER_SORT_FIELDS = [
+  "createdAt",
+  "email",
+  "name",
+  "company",
+  "plan",
+  "role",
+  "status",
+] as const;
+export type AdminUserSortField = (typeof ADMIN_USER_SORT_FIELDS)[number];
+
+export const ADMIN_USER_PAGE_SIZE = { default: 25, max: 100 } as const;
+
+// User ids are cuids; anything else can't be a cursor
+const USER_ID_PATTERN = /^[a-z0-9]{1,64}$/i;
+
+export interface AdminUserQuery {
+  limit: number;
+  cursor?: string;
+  sort: AdminUserSortField;
+  order: "asc" | "desc";
+  where: Prisma.UserWhereInput;
+}
+
+// Parses GET /api/admin/users query parameters:
+//   q          case-insensitive match on email, name or company
+//   role       USER | ADMIN
+//   status     ACTIVE | INACTIVE | SUSPENDED
+//   plan       exact plan name
+//   twoFactor  true | false
+//   provider   PASSWORD | GOOGLE | GITHUB
+//   sort       one of ADMIN_USER_SORT_FIELDS (default createdAt)
+//   order      asc | desc (default desc)
+//   limit      page size (default 25, max 100)
+//   cursor     id of the last user on the previous page
+export function parseAdminUserQuery(
+  params: URLSearchParams
+): { success: true; query: AdminUserQuery } | { success: false; error: string } {
+  const conditions: Prisma.UserWhereInput[] = [];
+
+  const q = params.get("q")?.trim();
+  if (q) {
+    conditions.push({
+      OR: [
+        { email: { contains: q, mode: "insensitive" } },
+        { name: { contains: q, mode: "insensitive" } },
+        { company: { contains: q, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  const role = params.get("role");
+  if (role) {
+    const value = role.toUpperCase() as UserRole;
+    if (!ROLES.includes(value)) {
+      return { success: false, error: `role must be one of ${ROLES.join(", ")}` };
+    }
+    conditions.push({ role: value });
+  }
+
+  const status = params.get("status");
+  if (status) {
+    const value = status.toUpperCase() as UserStatus;
+    if (!STATUSES.includes(value)) {
+      return { success: false, error: `status must be one of ${STATUSES.join(", ")}` };
+    }
+    conditions.push({ status: value });
+  }
+
+  const plan = params.get("plan")?.trim();
+  if (plan) {
+    conditions.push({ plan: { equals: plan, mode: "insensitive" } });
+  }
+
+  const twoFactor = params.get("twoFactor");
+  if (twoFactor) {
+    if (twoFactor !== "true" && twoFactor !== "false") {
+      return { success: false, error: "twoFactor must be true or false" };
+    }
+    conditions.push({ isTOTPEnabled: twoFactor === "true" });
+  }
+
+  const provider = params.get("provider")?.toUpperCase();
+  if (provider) {
+    // Password accounts have no authProvider recorded
+    conditions.push(provider === "PASSWORD" ? { authProvider: null } : { authProvider: provider });
+  }
+
+  const sort = (params.get("sort") || "createdAt") as AdminUserSortField;
+  if (!ADMIN_USER_SORT_FIELDS.includes(sort)) {
+    return {
+      success: false,
+      error: `sort must be one of ${ADMIN_USER_SORT_FIELDS.join(", ")}`,
+    };
+  }
+
+  const order = params.get("order") || "desc";
+  if (order !== "asc" && order !== "desc") {
+    return { success: false, error: "order must be asc or desc" };
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : ADMIN_USER_PAGE_SIZE.default;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { success: false, error: "limit must be a positive integer" };
+  }
+
+  const cursor = params.get("cursor") || undefined;
+  if (cursor !== undefined && !USER_ID_PATTERN.test(cursor)) {
+    return { success: false, error: "cursor is not a valid user id" };
+  }
+
+  return {
+    success: true,
+    query: {
+      limit: Math.min(limit, ADMIN_USER_PAGE_SIZE.max),
+      cursor,
+      sort,
+      order,
+      where: conditions.length > 0 ? { AND: conditions } : {},
+    },
+  };
+}
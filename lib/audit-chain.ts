@@ -0,0 +1,191 @@
+// lib/audit-chain.ts
+// Tamper-evident hash chain over audit_logs (server only).
+// Each row stores hash = HMAC-SHA256(prevHash + canonical row content), where
+// prevHash is the hash of the row before it. Editing a row changes its hash;
+// deleting or inserting a row breaks the next row's prevHash link.
+//
+// AUDIT_CHAIN_SECRET keys the HMAC. Without it a plain SHA-256 is used, which
+// still catches accidental edits but not someone able to rewrite every hash.
+// Truncating the newest rows cannot be detected from inside the table, so
+// verify() returns the head hash for comparison with an external copy.
+import { createHash, createHmac } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma";
+
+export const AUDIT_CHAIN_GENESIS = "0".repeat(64);
+
+// pg_advisory_xact_lock key serializing appends to the chain
+const AUDIT_CHAIN_LOCK_ID = 0x61756474;
+
+const VERIFY_BATCH_SIZE = 500;
+
+export interface AuditChainEntry {
+  userId: string | null;
+  action: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  details: Prisma.JsonValue | undefined;
+}
+
+export type AuditChainBreakReason =
+  | "hash_mismatch" // Row content changed after it was written
+  | "link_mismatch" // A row before this one was removed, added or reordered
+  | "missing_hash" // Row inserted without going through the chain
+  | "user_mismatch"; // userId changed to something other than NULL
+
+export type AuditChainVerification =
+  | {
+      valid: true;
+      checked: number;
+      legacyRows: number;
+      head: { seq: number; hash: string } | null;
+    }
+  | {
+      valid: false;
+      checked: number;
+      legacyRows: number;
+      brokenAt: { id: string; seq: number; reason: AuditChainBreakReason };
+    };
+
+// JSON with object keys sorted, so Postgres jsonb key reordering does not
+// change the hash
+function canonicalJson(value: unknown): string {
+  if (value === undefined || value === null) return "null";
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function computeAuditHash(
+  row: {
+    recordedUserId: string | null;
+    action: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    timestamp: Date;
+    details: unknown;
+  },
+  prevHash: string
+): string {
+  const content = canonicalJson([
+    prevHash,
+    row.timestamp.toISOString(),
+    row.action,
+    row.recordedUserId,
+    row.ipAddress,
+    row.userAgent,
+    // Round-trip so the hash covers exactly what the jsonb column will hold
+    row.details === undefined ? null : JSON.parse(JSON.stringify(row.details)),
+  ]);
+  const secret = process.env.AUDIT_CHAIN_SECRET;
+  return secret
+    ? createHmac("sha256", secret).update(content).digest("hex")
+    : createHash("sha256").update(content).digest("hex");
+}
+
+export class AuditChain {
+  static async append(entry: AuditChainEntry): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      // Appends are serialized so two writers never link to the same row
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`;
+
+      const last = await tx.auditLog.findFirst({
+        where: { hash: { not: null } },
+        orderBy: { seq: "desc" },
+        select: { hash: true },
+      });
+      const prevHash = last?.hash ?? AUDIT_CHAIN_GENESIS;
+      const timestamp = new Date();
+      const hash = computeAuditHash(
+        { ...entry, recordedUserId: entry.userId, timestamp },
+        prevHash
+      );
+
+      await tx.auditLog.create({
+        data: {
+          userId: entry.userId,
+          recordedUserId: entry.userId,
+          action: entry.action,
+          ipAddress: entry.ipAddress,
+          userAgent: entry.userAgent,
+          details: entry.details as Prisma.InputJsonValue | undefined,
+          timestamp,
+          prevHash,
+          hash,
+        },
+      });
+    });
+  }
+
+  // Walks the whole table in seq order and stops at the first broken link
+  static async verify(): Promise<AuditChainVerification> {
+    let checked = 0;
+    let legacyRows = 0;
+    let expectedPrev: string | null = null;
+    let head: { seq: number; hash: string } | null = null;
+    let afterSeq = 0;
+
+    for (;;) {
+      const rows = await prisma.auditLog.findMany({
+        where: { seq: { gt: afterSeq } },
+        orderBy: { seq: "asc" },
+        take: VERIFY_BATCH_SIZE,
+        select: {
+          id: true,
+          seq: true,
+          userId: true,
+          recordedUserId: true,
+          action: true,
+          ipAddress: true,
+          userAgent: true,
+          timestamp: true,
+          details: true,
+          prevHash: true,
+          hash: true,
+        },
+      });
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        afterSeq = row.seq;
+        const broken = (reason: AuditChainBreakReason): AuditChainVerification => ({
+          valid: false,
+          checked,
+          legacyRows,
+          brokenAt: { id: row.id, seq: row.seq, reason },
+        });
+
+        if (!row.hash) {
+          // Rows older than the chain are expected only before its first link
+          if (expectedPrev === null) {
+            legacyRows++;
+            continue;
+          }
+          return broken("missing_hash");
+        }
+
+        if (row.prevHash !== (expectedPrev ?? AUDIT_CHAIN_GENESIS)) {
+          return broken("link_mismatch");
+        }
+        if (computeAuditHash(row, row.prevHash) !== row.hash) {
+          return broken("hash_mismatch");
+        }
+        // Deleting a user clears userId; any other change is tampering
+        if (row.userId !== null && row.userId !== row.recordedUserId) {
+          return broken("user_mismatch");
+        }
+
+        checked++;
+        expectedPrev = row.hash;
+        head = { seq: row.seq, hash: row.hash };
+      }
+    }
+
+    return { valid: true, checked, legacyRows, head };
+  }
+}
@@ -0,0 +1,179 @@
+// lib/audit-events.ts
+// Catalogue of audit log actions and the shape of each action's details.
+// Every write goes through recordAuditEvent() in lib/audit.ts, so adding an
+// event means adding it here first; the compiler then checks each call site.
+// Kept free of server imports so the admin dashboard can use the catalogue.
+
+import type { LoginRiskSignal } from "@/lib/login-risk-config";
+
+export type LoginMethod = "email_password" | "oauth_google" | "oauth_github";
+
+export type SecondFactorMethod = "totp_code" | "security_key" | "backup_code";
+
+// How the login code was sent: by email on its own, by email with a magic
+// link, or by SMS
+export type LoginCodeDelivery = "code" | "magic_link" | "sms";
+
+export interface AuditEventDetails {
+  // Sign-in
+  LOGIN_FAILED: { reason: "invalid_password"; failedAttempts: number };
+  LOGIN_OTP_REQUIRED: { loginMethod: LoginMethod; recaptchaScore?: number; delivery?: LoginCodeDelivery };
+  LOGIN_TOTP_REQUIRED: { loginMethod: LoginMethod; recaptchaScore?: number };
+  LOGIN_OTP_SENT: {
+    purpose: "login_initial" | "login_resend";
+    loginMethod?: LoginMethod;
+    ttlMinutes: number;
+    delivery?: LoginCodeDelivery;
+  };
+  LOGIN_OTP_VERIFIED: { verificationMethod: "email_otp" | "magic_link" };
+  LOGIN_MAGIC_LINK_FAILED: { reason: string };
+  LOGIN_TOTP_VERIFIED: {
+    method: SecondFactorMethod;
+    factorId?: string;
+    source: "regular_login" | "oauth_login";
+  };
+  LOGIN_PASSKEY_VERIFIED: { passkeyId: string; backedUp: boolean };
+  LOGIN_PASSKEY_FAILED: { reason: string; passkeyId?: string };
+  LOGOUT: undefined;
+  REGISTER_WITH_OTP: {
+    company: string;
+    plan: string;
+    passwordStrength: string;
+  };
+
+  // Account protection
+  ACCOUNT_LOCKED: { failedAttempts: number; lockUntil: string; durationSeconds: number };
+  ACCOUNT_UNLOCKED: { unlockedBy: string };
+  RATE_LIMIT_EXCEEDED: {
+    route: string;
+    by: string;
+    limit: number;
+    windowSeconds: number;
+    email?: string; // Only when the email matches no account
+  };
+  LOGIN_RISK_FLAGGED: {
+    score: number;
+    signals: LoginRiskSignal[];
+    outcome: "alerted" | "totp_step_up";
+    location?: string;
+  };
+
+  // Sessions and tokens
+  SESSION_REVOKED: { sessionId: string };
+  OTHER_SESSIONS_REVOKED: { keptSessionId: string | null; revokedSessions: number };
+  REFRESH_TOKEN_REUSE_DETECTED: {
+    familyId: string;
+    replayedTokenId: string;
+    revokedTokens: number;
+  };
+
+  // Two-factor authentication
+  TOTP_ENABLED: undefined;
+  TOTP_VERIFIED: undefined;
+  TOTP_DISABLED: { method: "totp_token" | "security_key" | "backup_code" | "factor_removed" };
+  TOTP_DISABLE_FAILED: {
+    reason: "invalid_totp_token" | "invalid_security_key" | "invalid_backup_code";
+    failedAttempts: number;
+    isLocked: boolean;
+  };
+  TOTP_DISABLE_ERROR: { error: string };
+  BACKUP_CODES_REGENERATED: undefined;
+  MFA_FACTOR_ADDED: { factorId: string; type: "TOTP" | "SECURITY_KEY"; name: string };
+  MFA_FACTOR_RENAMED: { factorId: string; name: string };
+  MFA_FACTOR_REMOVED: { factorId: string; type: "TOTP" | "SECURITY_KEY"; name: string };
+  MFA_DEFAULT_CHANGED: { factorId: string };
+  PASSKEY_REGISTERED: { passkeyId: string; name: string; backedUp: boolean };
+  PASSKEY_RENAMED: { passkeyId: string; name: string };
+  PASSKEY_REMOVED: { passkeyId: string; name: string };
+  PHONE_VERIFIED: { phoneNumber: string }; // Masked
+  PHONE_REMOVED: { phoneNumber: string }; // Masked
+  OTP_CHANNEL_CHANGED: { channel: "email" | "sms" };
+
+  // Administration
+  ADMIN_BOOTSTRAPPED: { email: string; totpEnrollmentRequired: boolean };
+  ADMIN_USER_UPDATED: {
+    updatedBy: string;
+    changes: Record<string, { from: unknown; to: unknown }>;
+  };
+  ADMIN_USER_DELETED: { deletedUserId: string; email: string; role: string };
+  ROLE_CREATED: { roleId: string; name: string; permissions: string[] };
+  ROLE_UPDATED: {
+    roleId: string;
+    changes: { name?: string; description?: string | null; permissions?: string[] };
+  };
+  ROLE_DELETED: { roleId: string };
+  AUDIT_LOG_EXPORTED: { format: "json" | "csv"; rows: number; filters: Record<string, string> };
+  AUDIT_CHAIN_VERIFIED: {
+    valid: boolean;
+    checked: number;
+    brokenAtSeq?: number;
+    reason?: string;
+  };
+  EMAIL_REQUEUED: { messageId: string; template: string; to: string };
+  AUTH_SETTINGS_UPDATED: { changes: Record<string, { from: unknown; to: unknown }> };
+}
+
+export type AuditAction = keyof AuditEventDetails;
+
+// One variant per action so `details` is checked against the action.
+// Actions without details may omit the field.
+export type AuditEvent = {
+  [A in AuditAction]: { action: A; userId: string | null } & (AuditEventDetails[A] extends undefined
+    ? { details?: undefined }
+    : { details: AuditEventDetails[A] });
+}[AuditAction];
+
+export const AUDIT_EVENT_CATEGORIES = {
+  LOGIN_FAILED: "sign_in",
+  LOGIN_OTP_REQUIRED: "sign_in",
+  LOGIN_TOTP_REQUIRED: "sign_in",
+  LOGIN_OTP_SENT: "sign_in",
+  LOGIN_OTP_VERIFIED: "sign_in",
+  LOGIN_MAGIC_LINK_FAILED: "sign_in",
+  LOGIN_TOTP_VERIFIED: "sign_in",
+  LOGIN_PASSKEY_VERIFIED: "sign_in",
+  LOGIN_PASSKEY_FAILED: "sign_in",
+  LOGOUT: "sign_in",
+  REGISTER_WITH_OTP: "sign_in",
+  ACCOUNT_LOCKED: "protection",
+  ACCOUNT_UNLOCKED: "protection",
+  RATE_LIMIT_EXCEEDED: "protection",
+  LOGIN_RISK_FLAGGED: "protection",
+  SESSION_REVOKED: "sessions",
+  OTHER_SESSIONS_REVOKED: "sessions",
+  REFRESH_TOKEN_REUSE_DETECTED: "sessions",
+  TOTP_ENABLED: "two_factor",
+  TOTP_VERIFIED: "two_factor",
+  TOTP_DISABLED: "two_factor",
+  TOTP_DISABLE_FAILED: "two_factor",
+  TOTP_DISABLE_ERROR: "two_factor",
+  BACKUP_CODES_REGENERATED: "two_factor",
+  MFA_FACTOR_ADDED: "two_factor",
+  MFA_FACTOR_RENAMED: "two_factor",
+  MFA_FACTOR_REMOVED: "two_factor",
+  MFA_DEFAULT_CHANGED: "two_factor",
+  PASSKEY_REGISTERED: "two_factor",
+  PASSKEY_RENAMED: "two_factor",
+  PASSKEY_REMOVED: "two_factor",
+  PHONE_VERIFIED: "two_factor",
+  PHONE_REMOVED: "two_factor",
+  OTP_CHANNEL_CHANGED: "two_factor",
+  ADMIN_BOOTSTRAPPED: "admin",
+  ADMIN_USER_UPDATED: "admin",
+  ADMIN_USER_DELETED: "admin",
+  ROLE_CREATED: "admin",
+  ROLE_UPDATED: "admin",
+  ROLE_DELETED: "admin",
+  AUDIT_LOG_EXPORTED: "admin",
+  AUDIT_CHAIN_VERIFIED: "admin",
+  EMAIL_REQUEUED: "admin",
+  AUTH_SETTINGS_UPDATED: "admin",
+} as const satisfies Record<AuditAction, string>;
+
+export type AuditEventCategory = (typeof AUDIT_EVENT_CATEGORIES)[AuditAction];
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_EVENT_CATEGORIES) as AuditAction[];
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === "string" && value in AUDIT_EVENT_CATEGORIES;
+}
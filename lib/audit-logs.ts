@@ -0,0 +1,176 @@
+// lib/audit-logs.ts
+// Query parsing and export formatting for the admin audit log API.
+import type { Prisma } from "@/app/generated/prisma";
+
+export const AUDIT_LOG_SELECT = {
+  id: true,
+  userId: true,
+  action: true,
+  ipAddress: true,
+  userAgent: true,
+  timestamp: true,
+  details: true,
+  user: { select: { email: true, name: true } },
+} as const;
+
+export interface AuditLogRecord {
+  id: string;
+  userId: string | null;
+  action: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  timestamp: Date;
+  details: Prisma.JsonValue;
+  user: { email: string; name: string | null } | null;
+}
+
+export function toAuditLogView(log: AuditLogRecord) {
+  return {
+    id: log.id,
+    userId: log.userId,
+    userEmail: log.user?.email ?? null,
+    userName: log.user?.name ?? null,
+    action: log.action,
+    ipAddress: log.ipAddress,
+    userAgent: log.userAgent,
+    timestamp: log.timestamp.toISOString(),
+    details: log.details,
+  };
+}
+
+export type AuditLogView = ReturnType<typeof toAuditLogView>;
+
+export const AUDIT_LOG_PAGE_SIZE = { default: 50, max: 200 } as const;
+
+// Exports ignore pagination but are capped to keep responses bounded
+export const AUDIT_LOG_EXPORT_LIMIT = 10_000;
+
+export type AuditLogFormat = "json" | "csv";
+
+export interface AuditLogQuery {
+  limit: number;
+  cursor?: string;
+  order: "asc" | "desc";
+  format?: AuditLogFormat;
+  where: Prisma.AuditLogWhereInput;
+}
+
+// Parses GET /api/admin/audit-logs query parameters:
+//   userId   exact user id
+//   user     case-insensitive match on the user's email or name
+//   action   one or more comma-separated action names
+//   ip       IP address prefix
+//   from     ISO date/time, inclusive
+//   to       ISO date/time, inclusive
+//   order    asc | desc (default desc)
+//   limit    page size (default 50, max 200)
+//   cursor   id of the last entry on the previous page
+//   format   json | csv to download every matching entry instead of a page
+export function parseAuditLogQuery(
+  params: URLSearchParams
+): { success: true; query: AuditLogQuery } | { success: false; error: string } {
+  const conditions: Prisma.AuditLogWhereInput[] = [];
+
+  const userId = params.get("userId")?.trim();
+  if (userId) {
+    conditions.push({ userId });
+  }
+
+  const user = params.get("user")?.trim();
+  if (user) {
+    conditions.push({
+      user: {
+        OR: [
+          { email: { contains: user, mode: "insensitive" } },
+          { name: { contains: user, mode: "insensitive" } },
+        ],
+      },
+    });
+  }
+
+  const actions = (params.get("action") || "")
+    .split(",")
+    .map((a) => a.trim().toUpperCase())
+    .filter(Boolean);
+  if (actions.length > 0) {
+    conditions.push({ action: { in: actions } });
+  }
+
+  const ip = params.get("ip")?.trim();
+  if (ip) {
+    conditions.push({ ipAddress: { startsWith: ip } });
+  }
+
+  const range: { gte?: Date; lte?: Date } = {};
+  for (const [param, bound] of [
+    ["from", "gte"],
+    ["to", "lte"],
+  ] as const) {
+    const value = params.get(param);
+    if (!value) continue;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return { success: false, error: `${param} must be an ISO date` };
+    }
+    range[bound] = date;
+  }
+  if (range.gte && range.lte && range.gte > range.lte) {
+    return { success: false, error: "from must be before to" };
+  }
+  if (range.gte || range.lte) {
+    conditions.push({ timestamp: range });
+  }
+
+  const order = params.get("order") || "desc";
+  if (order !== "asc" && order !== "desc") {
+    return { success: false, error: "order must be asc or desc" };
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : AUDIT_LOG_PAGE_SIZE.default;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { success: false, error: "limit must be a positive integer" };
+  }
+
+  const format = (params.get("format") || undefined) as AuditLogFormat | undefined;
+  if (format && format !== "json" && format !== "csv") {
+    return { success: false, error: "format must be json or csv" };
+  }
+
+  return {
+    success: true,
+    query: {
+      limit: Math.min(limit, AUDIT_LOG_PAGE_SIZE.max),
+      cursor: params.get("cursor") || undefined,
+      order,
+      format,
+      where: conditions.length > 0 ? { AND: conditions } : {},
+    },
+  };
+}
+
+const CSV_COLUMNS: (keyof AuditLogView)[] = [
+  "timestamp",
+  "action",
+  "userId",
+  "userEmail",
+  "ipAddress",
+  "userAgent",
+  "details",
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "string" ? value : JSON.stringify(value);
+  // Stop spreadsheet apps from evaluating attacker-controlled values as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toAuditLogCsv(logs: AuditLogView[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const log of logs) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(log[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,50 @@
+// lib/audit.ts
+// Single entry point for writing audit log rows.
+//
+//   await recordAuditEvent(request, {
+//     action: "LOGOUT",
+//     userId,
+//   });
+//
+// The client IP and user agent come from the request (see lib/client-ip.ts).
+// Library code that only has a captured context passes that instead.
+// Rows are appended to the hash chain in lib/audit-chain.ts, which takes its
+// own lock, so call this after (not inside) any surrounding transaction.
+import { getClientIp } from "@/lib/client-ip";
+import { AuditChain } from "@/lib/audit-chain";
+import type { Prisma } from "@/app/generated/prisma";
+import type { AuditEvent } from "@/lib/audit-events";
+
+export interface AuditRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type AuditSource = Request | AuditRequestContext;
+
+export function auditContextFrom(source: AuditSource): Required<AuditRequestContext> {
+  if (source instanceof Request) {
+    return {
+      ipAddress: getClientIp(source),
+      userAgent: source.headers.get("user-agent") || "unknown",
+    };
+  }
+  return {
+    ipAddress: source.ipAddress || "unknown",
+    userAgent: source.userAgent || "unknown",
+  };
+}
+
+export async function recordAuditEvent(
+  source: AuditSource,
+  event: AuditEvent
+): Promise<void> {
+  const { ipAddress, userAgent } = auditContextFrom(source);
+  await AuditChain.append({
+    userId: event.userId,
+    action: event.action,
+    ipAddress,
+    userAgent,
+    details: event.details as Prisma.JsonValue | undefined,
+  });
+}
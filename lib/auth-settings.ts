@@ -0,0 +1,92 @@
+// lib/auth-settings.ts
+// Sign-in settings an admin can change at runtime (server only).
+// Stored as one JSON document in system_settings; keys missing from the stored
+// document fall back to AUTH_SETTINGS_DEFAULTS, so adding a setting needs no
+// migration. Reads are cached briefly per process, so a change can take up to
+// cacheTtl to reach other server instances.
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@/app/generated/prisma";
+
+export interface AuthSettingsValues {
+  magicLinkEnabled: boolean; // Email a one-click sign-in link alongside the login code
+}
+
+export const AUTH_SETTINGS_DEFAULTS: AuthSettingsValues = {
+  magicLinkEnabled: false,
+};
+
+const SETTINGS_KEY = "auth";
+const CACHE_TTL = 30 * 1000;
+
+export type AuthSettingsChanges = {
+  [K in keyof AuthSettingsValues]?: { from: AuthSettingsValues[K]; to: AuthSettingsValues[K] };
+};
+
+export type AuthSettingsParseResult =
+  | { success: true; patch: Partial<AuthSettingsValues> }
+  | { success: false; error: string };
+
+let cached: { values: AuthSettingsValues; expiresAt: number } | null = null;
+
+function fromStored(value: Prisma.JsonValue | undefined): AuthSettingsValues {
+  const stored = value && typeof value === "object" && !Array.isArray(value) ? value : {};
+  return {
+    magicLinkEnabled:
+      typeof stored.magicLinkEnabled === "boolean"
+        ? stored.magicLinkEnabled
+        : AUTH_SETTINGS_DEFAULTS.magicLinkEnabled,
+  };
+}
+
+// Validates a PATCH body; unknown keys are rejected rather than ignored
+export function parseAuthSettingsPatch(body: unknown): AuthSettingsParseResult {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { success: false, error: "Request body must be an object" };
+  }
+  const patch: Partial<AuthSettingsValues> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!(key in AUTH_SETTINGS_DEFAULTS)) {
+      return { success: false, error: `Unknown setting: ${key}` };
+    }
+    if (typeof value !== typeof AUTH_SETTINGS_DEFAULTS[key as keyof AuthSettingsValues]) {
+      return { success: false, error: `${key} must be a ${typeof AUTH_SETTINGS_DEFAULTS[key as keyof AuthSettingsValues]}` };
+    }
+    patch[key as keyof AuthSettingsValues] = value;
+  }
+  if (Object.keys(patch).length === 0) {
+    return { success: false, error: "No settings to update" };
+  }
+  return { success: true, patch };
+}
+
+export class AuthSettings {
+  static async get(): Promise<AuthSettingsValues> {
+    if (cached && cached.expiresAt > Date.now()) return cached.values;
+    const row = await prisma.systemSetting.findUnique({ where: { key: SETTINGS_KEY } });
+    const values = fromStored(row?.value);
+    cached = { values, expiresAt: Date.now() + CACHE_TTL };
+    return values;
+  }
+
+  static async update(
+    patch: Partial<AuthSettingsValues>,
+    updatedBy: string
+  ): Promise<{ values: AuthSettingsValues; changes: AuthSettingsChanges }> {
+    const row = await prisma.systemSetting.findUnique({ where: { key: SETTINGS_KEY } });
+    const current = fromStored(row?.value);
+    const values = { ...current, ...patch };
+
+    const changes: AuthSettingsChanges = {};
+    for (const key of Object.keys(patch) as (keyof AuthSettingsValues)[]) {
+      if (current[key] !== values[key]) changes[key] = { from: current[key], to: values[key] };
+    }
+
+    await prisma.systemSetting.upsert({
+      where: { key: SETTINGS_KEY },
+      create: { key: SETTINGS_KEY, value: { ...values }, updatedBy },
+      update: { value: { ...values }, updatedBy },
+    });
+    cached = { values, expiresAt: Date.now() + CACHE_TTL };
+    return { values, changes };
+  }
+}
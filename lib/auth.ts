@@ -1,8 +1,11 @@
 // lib/auth.ts
 import bcrypt from "bcryptjs";
 import { NextAuthOptions } from "next-auth";
+import type { NextRequest } from "next/server";
 import CredentialsProvider from "next-auth/providers/credentials";
 import { TokenService, type TokenPayload } from "@/lib/jwt";
+import { TokenRevocation } from "@/lib/token-revocation";
+import { can } from "@/lib/permissions";
 import crypto from "crypto";
 import { PrismaClient } from "@/app/generated/prisma";
 
@@ -34,14 +37,32 @@ export async function generateRefreshToken(
   return TokenService.generateRefreshToken(payload);
 }
 
-export async function verifyAccessToken(token: string) {
-  return TokenService.verifyAccessToken(token);
+// Signature check plus the server-side revocation check (logout, suspension, ...)
+export async function verifyAccessToken(token: string): Promise<TokenPayload> {
+  const payload = await TokenService.verifyAccessToken(token);
+  if (await TokenRevocation.isRevoked(payload)) {
+    throw new Error("Token has been revoked");
+  }
+  return payload;
+}
+
+// Verifies the accessToken cookie; null when it is missing or invalid
+export async function getAccessTokenPayload(
+  request: NextRequest
+): Promise<TokenPayload | null> {
+  const token = request.cookies.get("accessToken")?.value;
+  if (!token) return null;
+  try {
+    return await verifyAccessToken(token);
+  } catch {
+    return null;
+  }
 }
 
 export async function verifyAdmin(token: string): Promise<TokenPayload> {
-    const payload = await TokenService.verifyAccessToken(token);
-    if (payload.role !== 'ADMIN') {
-        throw new Error('Unauthorized: Admin role required');
+    const payload = await verifyAccessToken(token);
+    if (!can(payload, 'admin:access')) {
+        throw new Error('Unauthorized: admin:access permission required');
     }
     return payload;
 }
@@ -0,0 +1,6 @@
+// lib/cleanup-config.ts
+export const CLEANUP_CONFIG = {
+  // Worker (started from instrumentation.ts in the Node.js runtime)
+  workerEnabled: process.env.CLEANUP_WORKER !== "off",
+  interval: 15 * 60 * 1000, // 15 minutes between passes
+} as const;
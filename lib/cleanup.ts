@@ -0,0 +1,66 @@
+// lib/cleanup.ts
+// Periodic pruning of short-lived auth rows (server only).
+// Each job deletes rows that can no longer affect a decision, e.g. expired
+// one-time codes; a failing job is logged and doesn't stop the others.
+import { createRequestLogger } from "@/lib/logger";
+import { CLEANUP_CONFIG } from "@/lib/cleanup-config";
+import { cleanupExpiredOTPs } from "@/lib/otp";
+import { pruneRateLimitHits } from "@/lib/rate-limit";
+import { TokenRevocation } from "@/lib/token-revocation";
+
+const CLEANUP_JOBS: Record<string, () => Promise<number>> = {
+  otps: cleanupExpiredOTPs,
+  rateLimitHits: pruneRateLimitHits,
+  // A denylisted jti only matters until the token would have expired anyway
+  revokedTokens: () => TokenRevocation.pruneExpired(),
+};
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let passRunning = false;
+
+export class Cleanup {
+  // Runs every job once; returns the rows each one removed
+  static async runOnce(): Promise<Record<string, number>> {
+    const log = createRequestLogger("cleanup");
+    const removed: Record<string, number> = {};
+    for (const [name, job] of Object.entries(CLEANUP_JOBS)) {
+      try {
+        removed[name] = await job();
+      } catch (error) {
+        log.error("Cleanup job failed", {
+          job: name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return removed;
+  }
+
+  static startWorker(): void {
+    if (workerTimer || !CLEANUP_CONFIG.workerEnabled) return;
+    workerTimer = setInterval(() => void this.tick(), CLEANUP_CONFIG.interval);
+    // Never keep the process alive just for cleanup
+    workerTimer.unref?.();
+    createRequestLogger("cleanup").info("Cleanup worker started", {
+      intervalMs: CLEANUP_CONFIG.interval,
+      jobs: Object.keys(CLEANUP_JOBS),
+    });
+    void this.tick();
+  }
+
+  static stopWorker(): void {
+    if (workerTimer) clearInterval(workerTimer);
+    workerTimer = null;
+  }
+
+  // A pass still running when the timer fires again is not overlapped
+  private static async tick(): Promise<void> {
+    if (passRunning) return;
+    passRunning = true;
+    try {
+      await this.runOnce();
+    } finally {
+      passRunning = false;
+    }
+  }
+}
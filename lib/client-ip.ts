@@ -0,0 +1,80 @@
+// lib/client-ip.ts
+// Resolves the real client address behind reverse proxies (Edge-safe).
+// X-Forwarded-For is a comma-separated chain where each proxy appends the
+// address it received the request from. Entries to the left of our own
+// proxies are supplied by the client and can be forged, so the chain is read
+// right to left and the first address that is not a trusted proxy wins.
+//
+// TRUSTED_PROXIES lists proxy addresses as exact IPs or IPv4 CIDR ranges,
+// e.g. "10.0.0.0/8,172.16.0.0/12,203.0.113.7". When unset only the nearest
+// hop (the rightmost entry) is believed.
+
+const TRUSTED_PROXIES = parseProxyList(process.env.TRUSTED_PROXIES);
+
+type ProxyRule = { kind: "exact"; address: string } | { kind: "cidr"; base: number; mask: number };
+
+function parseProxyList(value: string | undefined): ProxyRule[] {
+  if (!value) return [];
+  const rules: ProxyRule[] = [];
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [address, bits] = entry.split("/");
+    const base = ipv4ToInt(address);
+    if (bits !== undefined && base !== null) {
+      const prefix = Number(bits);
+      if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) continue;
+      const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+      rules.push({ kind: "cidr", base: (base & mask) >>> 0, mask });
+    } else {
+      rules.push({ kind: "exact", address: normalizeIp(address) });
+    }
+  }
+  return rules;
+}
+
+export function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+// Strips ports, brackets and the IPv4-mapped IPv6 prefix
+function normalizeIp(raw: string): string {
+  let ip = raw.trim().toLowerCase();
+  const bracketed = ip.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) ip = bracketed[1];
+  else if (/^\d{1,3}(\.\d{1,3}){3}:\d+$/.test(ip)) ip = ip.slice(0, ip.lastIndexOf(":"));
+  if (ip.startsWith("::ffff:") && ip.includes(".")) ip = ip.slice("::ffff:".length);
+  return ip;
+}
+
+export function isTrustedProxy(ip: string): boolean {
+  const address = normalizeIp(ip);
+  const asInt = ipv4ToInt(address);
+  return TRUSTED_PROXIES.some((rule) =>
+    rule.kind === "exact"
+      ? rule.address === address
+      : asInt !== null && ((asInt & rule.mask) >>> 0) === rule.base
+  );
+}
+
+export function getClientIp(request: Request): string {
+  const chain = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map(normalizeIp)
+    .filter(Boolean);
+
+  for (let i = chain.length - 1; i >= 0; i--) {
+    if (!isTrustedProxy(chain[i])) return chain[i];
+  }
+  // Every hop is one of ours: the leftmost is the closest we can get
+  if (chain.length > 0) return chain[0];
+
+  const realIp = request.headers.get("x-real-ip");
+  return realIp ? normalizeIp(realIp) : "unknown";
+}
@@ -31,7 +31,7 @@ const REFRESH_COOKIE_OPTIONS = {
 
 /**
  * Sets both access and refresh token cookies using standardized options.
- * Mirrors cookie handling in verify-otp route.
+ * Every sign-in method and the refresh route issue the session through this.
  */
 export function setAuthCookies(
   res: NextResponse,
@@ -43,14 +43,6 @@ export function setAuthCookies(
   res.cookies.delete(COOKIE_NAMES.legacyAuth);
 }
 
-/**
- * Sets a short-lived access token used during OTP pre-auth flows.
- * Matches options used in request-otp and OAuth callbacks.
- */
-export function setPreAuthAccessCookie(res: NextResponse, accessToken: string) {
-  res.cookies.set(COOKIE_NAMES.accessToken, accessToken, ACCESS_COOKIE_OPTIONS);
-}
-
 /**
  * Clears our auth cookies (access + refresh) and legacy cookie.
  */
@@ -0,0 +1,227 @@
+// lib/device-session.ts
+// Registry of signed-in devices ("active sessions").
+// A UserSession is created at login alongside the first refresh token; every
+// rotated token inherits its sessionId, so the session lives as long as the
+// refresh-token family. Revoking a session revokes its refresh tokens, which
+// ends it the next time the device tries to refresh.
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import type { Prisma } from "@/app/generated/prisma";
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface DeviceInfo {
+  deviceType: "desktop" | "mobile" | "tablet" | "unknown";
+  browser: string;
+  os: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+// Best-effort user-agent parsing; only used for display
+export function parseUserAgent(userAgent?: string | null): DeviceInfo {
+  const ua = userAgent || "";
+
+  let deviceType: DeviceInfo["deviceType"] = "unknown";
+  if (/ipad|tablet|kindle|silk|playbook/i.test(ua) || (/android/i.test(ua) && !/mobile/i.test(ua))) {
+    deviceType = "tablet";
+  } else if (/mobi|iphone|ipod|android|blackberry|iemobile|opera mini/i.test(ua)) {
+    deviceType = "mobile";
+  } else if (/windows|macintosh|mac os x|linux|cros/i.test(ua)) {
+    deviceType = "desktop";
+  }
+
+  let browser = "Unknown browser";
+  if (/edg(e|a|ios)?\//i.test(ua)) browser = "Edge";
+  else if (/opr\/|opera/i.test(ua)) browser = "Opera";
+  else if (/samsungbrowser/i.test(ua)) browser = "Samsung Internet";
+  else if (/firefox|fxios/i.test(ua)) browser = "Firefox";
+  else if (/chrome|crios|chromium/i.test(ua)) browser = "Chrome";
+  else if (/safari/i.test(ua)) browser = "Safari";
+
+  let os = "Unknown OS";
+  if (/windows/i.test(ua)) os = "Windows";
+  else if (/iphone|ipad|ipod/i.test(ua)) os = "iOS";
+  else if (/android/i.test(ua)) os = "Android";
+  else if (/cros/i.test(ua)) os = "ChromeOS";
+  else if (/mac os x|macintosh/i.test(ua)) os = "macOS";
+  else if (/linux/i.test(ua)) os = "Linux";
+
+  return { deviceType, browser, os };
+}
+
+function sessionData(context: SessionContext) {
+  return {
+    userAgent: context.userAgent || null,
+    ipAddress: context.ipAddress || null,
+    ...parseUserAgent(context.userAgent),
+  };
+}
+
+export class SessionRegistry {
+  // Start a session for a fresh login and store its first refresh token
+  static async start(
+    token: { userId: string; refreshToken: string; expiresAt: Date },
+    context: SessionContext = {}
+  ): Promise<string> {
+    const session = await prisma.userSession.create({
+      data: {
+        userId: token.userId,
+        ...sessionData(context),
+        refreshTokens: {
+          create: {
+            userId: token.userId,
+            token: token.refreshToken,
+            expiresAt: token.expiresAt,
+          },
+        },
+      },
+      select: { id: true },
+    });
+    return session.id;
+  }
+
+  // Called from refresh-token rotation. Tokens issued before sessions existed
+  // get a session on their first rotation.
+  static async touch(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    sessionId: string | null,
+    context: SessionContext = {}
+  ): Promise<string> {
+    if (!sessionId) {
+      const session = await tx.userSession.create({
+        data: { userId, ...sessionData(context) },
+        select: { id: true },
+      });
+      return session.id;
+    }
+
+    await tx.userSession.update({
+      where: { id: sessionId },
+      data: {
+        lastSeenAt: new Date(),
+        ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+      },
+    });
+    return sessionId;
+  }
+
+  static async findIdByRefreshToken(refreshToken?: string | null): Promise<string | null> {
+    if (!refreshToken) return null;
+    const record = await prisma.refreshToken.findUnique({
+      where: { token: refreshToken },
+      select: { sessionId: true },
+    });
+    return record?.sessionId ?? null;
+  }
+
+  // Sessions that still hold a usable refresh token
+  static async list(userId: string, currentSessionId?: string | null): Promise<ActiveSession[]> {
+    const now = new Date();
+    const sessions = await prisma.userSession.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        refreshTokens: {
+          some: { revokedAt: null, rotatedAt: null, expiresAt: { gt: now } },
+        },
+      },
+      orderBy: { lastSeenAt: "desc" },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceType: session.deviceType,
+      browser: session.browser,
+      os: session.os,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  // Revoke one of the user's sessions. Returns false if it isn't theirs or is already gone.
+  static async revoke(
+    userId: string,
+    sessionId: string,
+    context: SessionContext = {}
+  ): Promise<boolean> {
+    const revoked = await this.revokeWhere({ userId, id: sessionId });
+    if (revoked === 0) return false;
+
+    await recordAuditEvent(context, {
+      action: "SESSION_REVOKED",
+      userId,
+      details: { sessionId },
+    });
+    return true;
+  }
+
+  // "Sign out everywhere else"
+  static async revokeOthers(
+    userId: string,
+    currentSessionId: string | null,
+    context: SessionContext = {}
+  ): Promise<number> {
+    const revoked = await this.revokeWhere({
+      userId,
+      ...(currentSessionId ? { id: { not: currentSessionId } } : {}),
+    });
+
+    await recordAuditEvent(context, {
+      action: "OTHER_SESSIONS_REVOKED",
+      userId,
+      details: { keptSessionId: currentSessionId, revokedSessions: revoked },
+    });
+    return revoked;
+  }
+
+  // Logout: close the session the refresh token belongs to
+  static async end(refreshToken: string): Promise<void> {
+    const sessionId = await this.findIdByRefreshToken(refreshToken);
+    if (sessionId) {
+      await this.revokeWhere({ id: sessionId });
+    }
+  }
+
+  private static async revokeWhere(where: Prisma.UserSessionWhereInput): Promise<number> {
+    const log = createRequestLogger("device-session/revoke");
+    const now = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      const sessions = await tx.userSession.findMany({
+        where: { ...where, revokedAt: null },
+        select: { id: true },
+      });
+      if (sessions.length === 0) return 0;
+
+      const ids = sessions.map((s) => s.id);
+      await tx.userSession.updateMany({
+        where: { id: { in: ids } },
+        data: { revokedAt: now },
+      });
+      const tokens = await tx.refreshToken.updateMany({
+        where: { sessionId: { in: ids }, revokedAt: null },
+        data: { revokedAt: now },
+      });
+
+      log.info("Sessions revoked", { sessions: ids.length, refreshTokens: tokens.count });
+      return ids.length;
+    });
+  }
+}
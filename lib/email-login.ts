@@ -0,0 +1,127 @@
+// lib/email-login.ts
+// Last step of a sign-in confirmed by email, shared by the six-digit code
+// (/api/auth/verify-otp) and the magic link (/api/auth/magic-link) (server only).
+//
+// The caller has checked the proof for the transaction's EMAIL_OTP step;
+// whichever proof was used, the other is spent too. An unfamiliar sign-in must
+// also pass TOTP when the user has it, even on paths that normally stop at the
+// emailed code (OAuth, request-otp), so the step is added to the transaction;
+// otherwise the transaction is finished and a session issued.
+import type { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { TokenService } from "@/lib/jwt";
+import { discardOTP } from "@/lib/otp";
+import { SessionRegistry } from "@/lib/device-session";
+import { effectivePermissions } from "@/lib/roles";
+import { auditContextFrom, recordAuditEvent } from "@/lib/audit";
+import { LoginRisk } from "@/lib/login-risk";
+import { MagicLinkService } from "@/lib/magic-link";
+import { LoginTransaction, type PendingLogin } from "@/lib/login-transaction";
+import { setAuthCookies } from "@/lib/cookies";
+
+export type EmailLoginVerification = "email_otp" | "magic_link";
+
+export type EmailLoginOutcome =
+  | { status: "user_not_found" }
+  | { status: "transaction_expired" } // Used or changed by another request meanwhile
+  | { status: "totp_step_up" }
+  | {
+      status: "signed_in";
+      user: { id: string; email: string; name: string | null; role: string };
+      accessToken: string;
+      refreshToken: string;
+    };
+
+export class EmailLogin {
+  static async complete(
+    request: NextRequest,
+    transaction: PendingLogin,
+    verificationMethod: EmailLoginVerification
+  ): Promise<EmailLoginOutcome> {
+    const user = await prisma.user.findUnique({
+      where: { id: transaction.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        isTOTPEnabled: true,
+        totpEnrollmentRequired: true,
+        customRole: { select: { permissions: true } },
+      },
+    });
+    if (!user) return { status: "user_not_found" };
+
+    const requestContext = auditContextFrom(request);
+    const risk = await LoginRisk.evaluate(user.id, requestContext);
+    const stepUp = risk.stepUp && user.isTOTPEnabled;
+
+    const advanced = await LoginTransaction.advance(transaction, "EMAIL_OTP", stepUp ? ["TOTP"] : []);
+    if (!advanced || (!stepUp && !(await LoginTransaction.finish(advanced)))) {
+      return { status: "transaction_expired" };
+    }
+
+    await Promise.all([discardOTP(user.email, "login"), MagicLinkService.revoke(user.id)]);
+
+    if (stepUp) {
+      await LoginRisk.report(user, risk, requestContext, "totp_step_up");
+      return { status: "totp_step_up" };
+    }
+
+    const sessionPayload = {
+      userId: user.id,
+      email: user.email,
+      username: user.email,
+      name: user.name || undefined,
+      role: user.role,
+      permissions: effectivePermissions(user.role, user.customRole?.permissions),
+      isTOTPEnabled: user.isTOTPEnabled,
+      totpEnrollmentRequired: user.totpEnrollmentRequired && !user.isTOTPEnabled,
+    };
+
+    const { token: accessToken, expiresAt: accessTokenExpiresAt } = await TokenService.generateAccessToken(sessionPayload);
+    const { token: refreshToken, expiresAt: refreshTokenExpiresAt } = await TokenService.generateRefreshToken(sessionPayload);
+
+    await prisma.token.create({
+      data: {
+        userId: user.id,
+        token: accessToken,
+        expiresAt: accessTokenExpiresAt,
+      },
+    });
+
+    await SessionRegistry.start(
+      { userId: user.id, refreshToken, expiresAt: refreshTokenExpiresAt },
+      requestContext
+    );
+
+    await recordAuditEvent(request, {
+      action: "LOGIN_OTP_VERIFIED",
+      userId: user.id,
+      details: { verificationMethod },
+    });
+
+    if (risk.alert) {
+      await LoginRisk.report(user, risk, requestContext, "alerted");
+    }
+
+    return {
+      status: "signed_in",
+      user: { id: user.id, email: user.email, name: user.name, role: user.role },
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  // Sets the session cookies once signed in. A TOTP step-up keeps the
+  // transaction cookie for /verify-totp; any other outcome ends it.
+  static applyCookies(response: NextResponse, outcome: EmailLoginOutcome): void {
+    if (outcome.status === "totp_step_up") return;
+
+    if (outcome.status === "signed_in") {
+      setAuthCookies(response, { accessToken: outcome.accessToken, refreshToken: outcome.refreshToken });
+    }
+
+    LoginTransaction.clearCookie(response);
+  }
+}
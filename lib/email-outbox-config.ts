@@ -0,0 +1,17 @@
+// lib/email-outbox-config.ts
+export const EMAIL_OUTBOX_CONFIG = {
+  // Worker (started from instrumentation.ts in the Node.js runtime)
+  workerEnabled: process.env.EMAIL_OUTBOX_WORKER !== "off",
+  pollInterval: 5 * 1000, // 5 seconds between scans for due messages
+  batchSize: 10, // Messages claimed per scan
+  claimTimeout: 2 * 60 * 1000, // A SENDING claim older than this is retried
+
+  // Retries
+  maxAttempts: 6, // Then the message is dead-lettered
+  retryBaseDelay: 30 * 1000, // 30s, 1m, 2m, 4m, 8m...
+  retryMaxDelay: 60 * 60 * 1000, // Capped at 1 hour
+
+  // Delivered messages are kept for the admin view, then pruned
+  sentRetention: 30 * 24 * 60 * 60 * 1000, // 30 days
+  pruneInterval: 60 * 60 * 1000, // Hourly
+} as const;
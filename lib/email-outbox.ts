@@ -0,0 +1,271 @@
+// lib/email-outbox.ts
+// Durable queue for outbound email (server only).
+// sendEmail() in lib/email.ts inserts a rendered message here and returns at
+// once; a worker polling in the background delivers it through lib/mailer.ts.
+//
+//   PENDING --claim--> SENDING --ok--> SENT
+//      ^                  |
+//      +---- retry -------+--(maxAttempts reached)--> DEAD
+//
+// A claim is a conditional update on (status, attempts), so several server
+// processes can run the worker without sending a message twice. A worker that
+// dies mid-send leaves a SENDING row whose claim lapses after claimTimeout.
+// DEAD messages stay until an admin requeues them.
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { deliverMail, type MailMessage } from "@/lib/mailer";
+import { EMAIL_OUTBOX_CONFIG } from "@/lib/email-outbox-config";
+import type { EmailStatus, Prisma } from "@/app/generated/prisma";
+
+export const EMAIL_STATUSES: EmailStatus[] = ["PENDING", "SENDING", "SENT", "DEAD"];
+
+export const EMAIL_OUTBOX_PAGE_SIZE = 50;
+
+// Everything except the message bodies
+export const EMAIL_OUTBOX_SELECT = {
+  id: true,
+  to: true,
+  template: true,
+  subject: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.EmailOutboxSelect;
+
+export type EmailOutboxEntry = Prisma.EmailOutboxGetPayload<{ select: typeof EMAIL_OUTBOX_SELECT }>;
+
+export type RequeueResult =
+  | { success: true; message: EmailOutboxEntry }
+  | { success: false; reason: "not_found" | "not_dead" };
+
+export interface ProcessResult {
+  sent: number;
+  retried: number;
+  dead: number;
+}
+
+function retryDelay(attempts: number): number {
+  const delay = Math.min(
+    EMAIL_OUTBOX_CONFIG.retryMaxDelay,
+    EMAIL_OUTBOX_CONFIG.retryBaseDelay * 2 ** Math.max(0, attempts - 1)
+  );
+  // ±20% jitter so a burst of failures does not retry in lockstep
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let tickRunning = false;
+let tickRequested = false;
+let lastPruneAt = 0;
+
+export class EmailOutbox {
+  static async enqueue(template: string, message: MailMessage): Promise<string> {
+    const row = await prisma.emailOutbox.create({
+      data: {
+        to: message.to,
+        template,
+        subject: message.subject,
+        html: message.html,
+        text: message.text ?? "",
+        maxAttempts: EMAIL_OUTBOX_CONFIG.maxAttempts,
+      },
+      select: { id: true },
+    });
+    // Deliver right away when this process runs the worker
+    if (workerTimer) setImmediate(() => void this.tick());
+    return row.id;
+  }
+
+  // Delivers one batch of due messages
+  static async processDue(): Promise<ProcessResult> {
+    const log = createRequestLogger("email-outbox");
+    const result: ProcessResult = { sent: 0, retried: 0, dead: 0 };
+    const now = new Date();
+
+    const due = await prisma.emailOutbox.findMany({
+      where: {
+        OR: [
+          { status: "PENDING", nextAttemptAt: { lte: now } },
+          { status: "SENDING", lockedUntil: { lt: now } },
+        ],
+      },
+      orderBy: { nextAttemptAt: "asc" },
+      take: EMAIL_OUTBOX_CONFIG.batchSize,
+      select: { id: true, status: true, attempts: true },
+    });
+
+    for (const candidate of due) {
+      const claim = await prisma.emailOutbox.updateMany({
+        where: { id: candidate.id, status: candidate.status, attempts: candidate.attempts },
+        data: {
+          status: "SENDING",
+          attempts: { increment: 1 },
+          lockedUntil: new Date(Date.now() + EMAIL_OUTBOX_CONFIG.claimTimeout),
+        },
+      });
+      if (claim.count === 0) continue; // Another worker got there first
+
+      const message = await prisma.emailOutbox.findUnique({ where: { id: candidate.id } });
+      if (!message) continue;
+
+      try {
+        await deliverMail({
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text || undefined,
+        });
+        await prisma.emailOutbox.update({
+          where: { id: message.id },
+          data: {
+            status: "SENT",
+            sentAt: new Date(),
+            lockedUntil: null,
+            lastError: null,
+            html: "",
+            text: "",
+          },
+        });
+        result.sent++;
+      } catch (error) {
+        const lastError = error instanceof Error ? error.message : String(error);
+        const dead = message.attempts >= message.maxAttempts;
+        await prisma.emailOutbox.update({
+          where: { id: message.id },
+          data: dead
+            ? { status: "DEAD", lockedUntil: null, lastError }
+            : {
+                status: "PENDING",
+                lockedUntil: null,
+                lastError,
+                nextAttemptAt: new Date(Date.now() + retryDelay(message.attempts)),
+              },
+        });
+
+        if (dead) {
+          result.dead++;
+          log.error("Email dead-lettered", {
+            id: message.id,
+            template: message.template,
+            attempts: message.attempts,
+            error: lastError,
+          });
+        } else {
+          result.retried++;
+          log.warn("Email delivery failed; will retry", {
+            id: message.id,
+            attempts: message.attempts,
+            error: lastError,
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  static async prune(): Promise<number> {
+    const { count } = await prisma.emailOutbox.deleteMany({
+      where: {
+        status: "SENT",
+        createdAt: { lt: new Date(Date.now() - EMAIL_OUTBOX_CONFIG.sentRetention) },
+      },
+    });
+    return count;
+  }
+
+  static async list(options: {
+    status?: EmailStatus;
+    limit?: number;
+    cursor?: string;
+  }): Promise<{ messages: EmailOutboxEntry[]; nextCursor: string | null }> {
+    const limit = options.limit ?? EMAIL_OUTBOX_PAGE_SIZE;
+    // Fetch one extra row to know whether another page follows
+    const rows = await prisma.emailOutbox.findMany({
+      where: options.status ? { status: options.status } : {},
+      select: EMAIL_OUTBOX_SELECT,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(options.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {}),
+    });
+    const hasMore = rows.length > limit;
+    const messages = hasMore ? rows.slice(0, limit) : rows;
+    return { messages, nextCursor: hasMore ? messages[messages.length - 1].id : null };
+  }
+
+  static async countByStatus(): Promise<Record<EmailStatus, number>> {
+    const groups = await prisma.emailOutbox.groupBy({ by: ["status"], _count: { _all: true } });
+    const counts = Object.fromEntries(EMAIL_STATUSES.map((s) => [s, 0])) as Record<EmailStatus, number>;
+    for (const group of groups) counts[group.status] = group._count._all;
+    return counts;
+  }
+
+  // Gives a dead-lettered message a fresh set of attempts
+  static async requeue(id: string): Promise<RequeueResult> {
+    const existing = await prisma.emailOutbox.findUnique({ where: { id }, select: { status: true } });
+    if (!existing) return { success: false, reason: "not_found" };
+
+    const { count } = await prisma.emailOutbox.updateMany({
+      where: { id, status: "DEAD" },
+      data: { status: "PENDING", attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+    if (count === 0) return { success: false, reason: "not_dead" };
+
+    if (workerTimer) setImmediate(() => void this.tick());
+    const message = await prisma.emailOutbox.findUniqueOrThrow({
+      where: { id },
+      select: EMAIL_OUTBOX_SELECT,
+    });
+    return { success: true, message };
+  }
+
+  static startWorker(): void {
+    if (workerTimer || !EMAIL_OUTBOX_CONFIG.workerEnabled) return;
+    workerTimer = setInterval(() => void this.tick(), EMAIL_OUTBOX_CONFIG.pollInterval);
+    // Never keep the process alive just for the poller
+    workerTimer.unref?.();
+    createRequestLogger("email-outbox").info("Email outbox worker started", {
+      pollIntervalMs: EMAIL_OUTBOX_CONFIG.pollInterval,
+    });
+    void this.tick();
+  }
+
+  static stopWorker(): void {
+    if (workerTimer) clearInterval(workerTimer);
+    workerTimer = null;
+  }
+
+  // One pass at a time; a request made while a pass runs triggers another
+  private static async tick(): Promise<void> {
+    if (tickRunning) {
+      tickRequested = true;
+      return;
+    }
+    tickRunning = true;
+    try {
+      do {
+        tickRequested = false;
+        const result = await this.processDue();
+        // A full batch means more may be waiting
+        if (result.sent + result.retried + result.dead >= EMAIL_OUTBOX_CONFIG.batchSize) {
+          tickRequested = true;
+        }
+      } while (tickRequested);
+      if (Date.now() - lastPruneAt >= EMAIL_OUTBOX_CONFIG.pruneInterval) {
+        lastPruneAt = Date.now();
+        await this.prune();
+      }
+    } catch (error) {
+      createRequestLogger("email-outbox").error("Email outbox pass failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      tickRunning = false;
+    }
+  }
+}
@@ -0,0 +1,435 @@
+// lib/email-templates.ts
+// Registry of transactional emails, each with an HTML and a plain-text body.
+// Variables are typed per template, so a call site passing the wrong data
+// fails to compile. HTML bodies are built with the html`` tag, which escapes
+// every interpolated value unless it is already SafeHtml.
+// Kept free of server imports; sending lives in lib/email.ts.
+import { OTP_CONFIG } from "@/lib/otp-config";
+import { MAGIC_LINK_CONFIG } from "@/lib/magic-link-config";
+
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function renderValue(value: unknown): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join("");
+  if (value === null || value === undefined || value === false) return "";
+  if (value instanceof Date) return escapeHtml(value.toUTCString());
+  return escapeHtml(String(value));
+}
+
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  let out = strings[0];
+  values.forEach((value, i) => {
+    out += renderValue(value) + strings[i + 1];
+  });
+  return new SafeHtml(out);
+}
+
+// Shared building blocks, matching the original SyncTech email design
+
+const TEXT_STYLE = "color: #475569; line-height: 1.6;";
+
+function layout(tagline: string, name: string, content: SafeHtml): SafeHtml {
+  return html`
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #67e8f9, #0ea5e9); padding: 30px; text-align: center; color: white;">
+        <h1 style="margin: 0; font-size: 28px; font-weight: bold;">SYNCTECH</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">${tagline}</p>
+      </div>
+
+      <div style="padding: 30px; background: #f8fafc;">
+        <h2 style="color: #1e293b; margin-bottom: 20px;">Hello ${name},</h2>
+        ${content}
+      </div>
+
+      <div style="background: #1e293b; color: #94a3b8; padding: 20px; text-align: center; font-size: 12px;">
+        <p>© ${new Date().getFullYear()} SyncTech. All rights reserved.</p>
+      </div>
+    </div>
+  `;
+}
+
+function paragraph(content: SafeHtml | string): SafeHtml {
+  return html`<p style="${TEXT_STYLE}">${content}</p>`;
+}
+
+function codeBox(code: string): SafeHtml {
+  return html`
+    <div style="text-align: center; margin: 30px 0;">
+      <div style="display: inline-block; background: #1e293b; color: white;
+                 padding: 15px 30px; border-radius: 10px; font-size: 32px;
+                 letter-spacing: 8px; font-weight: bold; font-family: monospace;">
+        ${code}
+      </div>
+    </div>
+  `;
+}
+
+function linkButton(url: string, label: string): SafeHtml {
+  return html`
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${url}" style="display: inline-block; background: #0ea5e9; color: white;
+                 padding: 14px 32px; border-radius: 10px; font-size: 16px;
+                 font-weight: bold; text-decoration: none;">
+        ${label}
+      </a>
+    </div>
+  `;
+}
+
+function detailsTable(rows: [string, string | Date][]): SafeHtml {
+  return html`
+    <table style="${TEXT_STYLE} margin: 20px 0;">
+      ${rows.map(
+        ([label, value]) =>
+          html`<tr><td style="padding-right: 16px;"><strong>${label}</strong></td><td>${value}</td></tr>`
+      )}
+    </table>
+  `;
+}
+
+function textBody(name: string, lines: string[]): string {
+  return [`Hello ${name},`, "", ...lines, "", "— SyncTech"].join("\n");
+}
+
+function textDetails(rows: [string, string | Date][]): string {
+  return rows
+    .map(([label, value]) => `${label}: ${value instanceof Date ? value.toUTCString() : value}`)
+    .join("\n");
+}
+
+const OTP_TTL_MINUTES = Math.round(OTP_CONFIG.ttl / (60 * 1000));
+const MAGIC_LINK_TTL_MINUTES = Math.round(MAGIC_LINK_CONFIG.ttl / (60 * 1000));
+
+const IF_NOT_YOU =
+  "If this wasn't you, reset your password right away and sign out unknown devices from your security settings.";
+
+// Templates
+
+export interface EmailTemplateVariables {
+  login_otp: { name: string; code: string };
+  login_magic_link: { name: string; url: string; code: string };
+  registration_otp: { name: string; code: string };
+  password_reset_otp: { name: string; code: string };
+  password_changed: { name: string; changedAt: Date; ipAddress: string };
+  totp_enabled: { name: string; enabledAt: Date };
+  totp_disabled: {
+    name: string;
+    disabledAt: Date;
+    method: "totp_token" | "security_key" | "backup_code" | "factor_removed";
+  };
+  new_sign_in: {
+    name: string;
+    time: Date;
+    device: string;
+    ipAddress: string;
+    location: string | null;
+  };
+  account_locked: { name: string; lockUntil: Date };
+}
+
+export type EmailTemplateName = keyof EmailTemplateVariables;
+
+export interface EmailTemplate<V> {
+  description: string;
+  subject: (vars: V) => string;
+  html: (vars: V) => SafeHtml;
+  text: (vars: V) => string;
+  sample: V; // Used by the preview route
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const SAMPLE_DATE = new Date("2025-01-15T09:30:00Z");
+
+export const EMAIL_TEMPLATES: { [T in EmailTemplateName]: EmailTemplate<EmailTemplateVariables[T]> } = {
+  login_otp: {
+    description: "Email code sent when signing in",
+    subject: () => "Your SyncTech sign-in code",
+    html: (v) =>
+      layout(
+        "Sign-in Verification",
+        v.name,
+        html`
+          ${paragraph("Use the code below to finish signing in to your account:")}
+          ${codeBox(v.code)}
+          ${paragraph(`This code will expire in ${OTP_TTL_MINUTES} minutes. If you didn't try to sign in, you can ignore this email, but consider changing your password.`)}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        "Use the code below to finish signing in to your account:",
+        "",
+        v.code,
+        "",
+        `This code will expire in ${OTP_TTL_MINUTES} minutes. If you didn't try to sign in, you can ignore this email, but consider changing your password.`,
+      ]),
+    sample: { name: "Ada Lovelace", code: "482913" },
+  },
+
+  login_magic_link: {
+    description: "Sign-in link with the email code as a fallback, when magic links are on",
+    subject: () => "Your SyncTech sign-in link",
+    html: (v) =>
+      layout(
+        "Sign-in Verification",
+        v.name,
+        html`
+          ${paragraph("Click the button below to finish signing in. The link only works in the browser you signed in from, and only once.")}
+          ${linkButton(v.url, "Sign in to SyncTech")}
+          ${paragraph("Or enter this code on the verification page:")}
+          ${codeBox(v.code)}
+          ${paragraph(`The link expires in ${MAGIC_LINK_TTL_MINUTES} minutes and the code in ${OTP_TTL_MINUTES} minutes. If you didn't try to sign in, you can ignore this email, but consider changing your password.`)}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        "Open the link below to finish signing in. It only works in the browser you signed in from, and only once:",
+        "",
+        v.url,
+        "",
+        "Or enter this code on the verification page:",
+        "",
+        v.code,
+        "",
+        `The link expires in ${MAGIC_LINK_TTL_MINUTES} minutes and the code in ${OTP_TTL_MINUTES} minutes. If you didn't try to sign in, you can ignore this email, but consider changing your password.`,
+      ]),
+    sample: {
+      name: "Ada Lovelace",
+      url: `${MAGIC_LINK_CONFIG.landingUrl}?token=sample`,
+      code: "482913",
+    },
+  },
+
+  registration_otp: {
+    description: "Email code sent to confirm a new account",
+    subject: () => "Your SyncTech Verification Code",
+    html: (v) =>
+      layout(
+        "Email Verification",
+        v.name,
+        html`
+          ${paragraph("Thank you for registering with SyncTech. Use the verification code below to complete your registration:")}
+          ${codeBox(v.code)}
+          ${paragraph(`This code will expire in ${OTP_TTL_MINUTES} minutes. If you didn't request this code, please ignore this email.`)}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        "Thank you for registering with SyncTech. Use the verification code below to complete your registration:",
+        "",
+        v.code,
+        "",
+        `This code will expire in ${OTP_TTL_MINUTES} minutes. If you didn't request this code, please ignore this email.`,
+      ]),
+    sample: { name: "Ada Lovelace", code: "482913" },
+  },
+
+  password_reset_otp: {
+    description: "Email code sent to reset a forgotten password",
+    subject: () => "Reset your SyncTech password",
+    html: (v) =>
+      layout(
+        "Password Reset",
+        v.name,
+        html`
+          ${paragraph("We received a request to reset your password. Use the code below to continue:")}
+          ${codeBox(v.code)}
+          ${paragraph(`This code will expire in ${OTP_TTL_MINUTES} minutes. If you didn't ask to reset your password, you can ignore this email; your password has not been changed.`)}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        "We received a request to reset your password. Use the code below to continue:",
+        "",
+        v.code,
+        "",
+        `This code will expire in ${OTP_TTL_MINUTES} minutes. If you didn't ask to reset your password, you can ignore this email; your password has not been changed.`,
+      ]),
+    sample: { name: "Ada Lovelace", code: "482913" },
+  },
+
+  password_changed: {
+    description: "Confirmation after the account password changes",
+    subject: () => "Your SyncTech password was changed",
+    html: (v) =>
+      layout(
+        "Security Alert",
+        v.name,
+        html`
+          ${paragraph("The password for your account was just changed, and every device was signed out.")}
+          ${detailsTable([
+            ["Time", v.changedAt],
+            ["IP address", v.ipAddress],
+          ])}
+          ${paragraph(IF_NOT_YOU)}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        "The password for your account was just changed, and every device was signed out.",
+        "",
+        textDetails([
+          ["Time", v.changedAt],
+          ["IP address", v.ipAddress],
+        ]),
+        "",
+        IF_NOT_YOU,
+      ]),
+    sample: { name: "Ada Lovelace", changedAt: SAMPLE_DATE, ipAddress: "203.0.113.24" },
+  },
+
+  totp_enabled: {
+    description: "Confirmation after two-factor authentication is turned on",
+    subject: () => "Two-factor authentication is on",
+    html: (v) =>
+      layout(
+        "Security Update",
+        v.name,
+        html`
+          ${paragraph(html`Two-factor authentication was turned on for your account on <strong>${v.enabledAt}</strong>. Signing in now requires your authenticator app or security key.`)}
+          ${paragraph("Keep your backup codes somewhere safe; they are the only way in if you lose your device.")}
+          ${paragraph(IF_NOT_YOU)}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        `Two-factor authentication was turned on for your account on ${v.enabledAt.toUTCString()}. Signing in now requires your authenticator app or security key.`,
+        "",
+        "Keep your backup codes somewhere safe; they are the only way in if you lose your device.",
+        "",
+        IF_NOT_YOU,
+      ]),
+    sample: { name: "Ada Lovelace", enabledAt: SAMPLE_DATE },
+  },
+
+  totp_disabled: {
+    description: "Warning after two-factor authentication is turned off",
+    subject: () => "Two-factor authentication was turned off",
+    html: (v) =>
+      layout(
+        "Security Alert",
+        v.name,
+        html`
+          ${paragraph(html`Two-factor authentication was turned off for your account on <strong>${v.disabledAt}</strong>${v.method === "backup_code" ? " using a backup code" : ""}.`)}
+          ${paragraph("Your account is now protected by your password and email codes only. We recommend turning two-factor authentication back on.")}
+          ${paragraph(IF_NOT_YOU)}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        `Two-factor authentication was turned off for your account on ${v.disabledAt.toUTCString()}${v.method === "backup_code" ? " using a backup code" : ""}.`,
+        "",
+        "Your account is now protected by your password and email codes only. We recommend turning two-factor authentication back on.",
+        "",
+        IF_NOT_YOU,
+      ]),
+    sample: { name: "Ada Lovelace", disabledAt: SAMPLE_DATE, method: "totp_token" },
+  },
+
+  new_sign_in: {
+    description: "Alert for a sign-in from an unfamiliar device or location",
+    subject: () => "New sign-in to your SyncTech account",
+    html: (v) =>
+      layout(
+        "Security Alert",
+        v.name,
+        html`
+          ${paragraph("Your account was just signed in to from a device or location we haven't seen before.")}
+          ${detailsTable([
+            ["Time", v.time],
+            ["Device", v.device],
+            ["IP address", v.ipAddress],
+            ["Location", v.location || "Unknown"],
+          ])}
+          ${paragraph("If this was you, no action is needed.")}
+          ${paragraph(IF_NOT_YOU)}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        "Your account was just signed in to from a device or location we haven't seen before.",
+        "",
+        textDetails([
+          ["Time", v.time],
+          ["Device", v.device],
+          ["IP address", v.ipAddress],
+          ["Location", v.location || "Unknown"],
+        ]),
+        "",
+        "If this was you, no action is needed.",
+        IF_NOT_YOU,
+      ]),
+    sample: {
+      name: "Ada Lovelace",
+      time: SAMPLE_DATE,
+      device: "Firefox on Windows",
+      ipAddress: "198.51.100.7",
+      location: "Lisbon, PT",
+    },
+  },
+
+  account_locked: {
+    description: "Notice that repeated failed sign-ins locked the account",
+    subject: () => "Your SyncTech account has been temporarily locked",
+    html: (v) =>
+      layout(
+        "Security Alert",
+        v.name,
+        html`
+          ${paragraph("We noticed several failed sign-in attempts on your account, so we have temporarily locked it to protect you.")}
+          ${paragraph(html`You can try again after <strong>${v.lockUntil}</strong>.`)}
+          ${paragraph("If this wasn't you, we recommend resetting your password and enabling two-factor authentication.")}
+        `
+      ),
+    text: (v) =>
+      textBody(v.name, [
+        "We noticed several failed sign-in attempts on your account, so we have temporarily locked it to protect you.",
+        "",
+        `You can try again after ${v.lockUntil.toUTCString()}.`,
+        "",
+        "If this wasn't you, we recommend resetting your password and enabling two-factor authentication.",
+      ]),
+    sample: { name: "Ada Lovelace", lockUntil: SAMPLE_DATE },
+  },
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[];
+
+export function isEmailTemplateName(value: unknown): value is EmailTemplateName {
+  return typeof value === "string" && value in EMAIL_TEMPLATES;
+}
+
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  name: T,
+  vars: EmailTemplateVariables[T]
+): RenderedEmail {
+  const template = EMAIL_TEMPLATES[name] as EmailTemplate<EmailTemplateVariables[T]>;
+  return {
+    subject: template.subject(vars),
+    html: template.html(vars).value,
+    text: template.text(vars),
+  };
+}
@@ -0,0 +1,32 @@
+// lib/email.ts
+// Renders a template from lib/email-templates.ts and queues it for delivery.
+//
+//   await sendEmail(user.email, "login_otp", { name, code });
+//
+// Delivery happens in the background (lib/email-outbox.ts), so this never
+// waits on SMTP. Resolves to false only when the message could not be queued.
+import { createRequestLogger } from "@/lib/logger";
+import { EmailOutbox } from "@/lib/email-outbox";
+import {
+  renderEmailTemplate,
+  type EmailTemplateName,
+  type EmailTemplateVariables,
+} from "@/lib/email-templates";
+
+export async function sendEmail<T extends EmailTemplateName>(
+  to: string,
+  template: T,
+  vars: EmailTemplateVariables[T]
+): Promise<boolean> {
+  const { subject, html, text } = renderEmailTemplate(template, vars);
+  try {
+    await EmailOutbox.enqueue(template, { to, subject, html, text });
+    return true;
+  } catch (error) {
+    createRequestLogger("email").error("Failed to queue email", {
+      template,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
@@ -0,0 +1,133 @@
+// lib/geoip.ts
+// Offline IPv4 geolocation from a local CSV file (server only).
+// GEOIP_DATABASE_PATH points at a file with one range per line:
+//   start_ip,end_ip,country_code,city,latitude,longitude
+// e.g. the free DB-IP "IP to City Lite" CSV trimmed to those columns.
+// Ranges must not overlap. IPv6 rows and a header row are skipped.
+// Without a database every lookup returns null and location signals are off.
+import { readFile } from "fs/promises";
+import { ipv4ToInt } from "@/lib/client-ip";
+import { createRequestLogger } from "@/lib/logger";
+import { LOGIN_RISK_CONFIG } from "@/lib/login-risk-config";
+
+export interface GeoLocation {
+  country: string;
+  city: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+interface GeoRange extends GeoLocation {
+  start: number;
+  end: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+let rangesPromise: Promise<GeoRange[]> | null = null;
+
+// Splits one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function parseDatabase(contents: string): GeoRange[] {
+  const ranges: GeoRange[] = [];
+  for (const line of contents.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const [startIp, endIp, country, city, lat, lon] = splitCsvLine(line);
+    const start = ipv4ToInt(startIp?.trim() ?? "");
+    const end = ipv4ToInt(endIp?.trim() ?? "");
+    const latitude = Number(lat);
+    const longitude = Number(lon);
+    if (start === null || end === null || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      continue;
+    }
+    ranges.push({
+      start,
+      end,
+      country: (country || "").trim().toUpperCase(),
+      city: city?.trim() || null,
+      latitude,
+      longitude,
+    });
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+async function loadRanges(): Promise<GeoRange[]> {
+  const path = LOGIN_RISK_CONFIG.geoipDatabasePath;
+  if (!path) return [];
+
+  const log = createRequestLogger("geoip");
+  try {
+    const ranges = parseDatabase(await readFile(path, "utf8"));
+    log.info("GeoIP database loaded", { ranges: ranges.length });
+    return ranges;
+  } catch (error) {
+    log.warn("GeoIP database unavailable; location checks disabled", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+export class GeoIP {
+  // Loaded once per process on first use
+  static async lookup(ip: string | null | undefined): Promise<GeoLocation | null> {
+    const address = ip ? ipv4ToInt(ip) : null;
+    if (address === null) return null;
+
+    rangesPromise ??= loadRanges();
+    const ranges = await rangesPromise;
+
+    let low = 0;
+    let high = ranges.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const range = ranges[mid];
+      if (address < range.start) high = mid - 1;
+      else if (address > range.end) low = mid + 1;
+      else {
+        const { country, city, latitude, longitude } = range;
+        return { country, city, latitude, longitude };
+      }
+    }
+    return null;
+  }
+
+  // Great-circle distance (haversine)
+  static distanceKm(a: GeoLocation, b: GeoLocation): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.latitude - a.latitude);
+    const dLon = toRad(b.longitude - a.longitude);
+    const h =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+  }
+}
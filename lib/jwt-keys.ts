@@ -0,0 +1,168 @@
+// lib/jwt-keys.ts
+// Asymmetric key ring for JWT signing (Edge-compatible, `jose` only).
+//
+//   JWT_SIGNING_KEY       private JWK (JSON) used to sign new tokens; must carry
+//                         `kid` and `alg` (RS256 or ES256)
+//   JWT_VERIFICATION_KEYS optional JSON array (or JWKS object) of public JWKs
+//                         that are still accepted, e.g. the previous signing key
+//
+// Rotation: generate a new key with `node generate-keys.js`, move the old
+// key's public JWK into JWT_VERIFICATION_KEYS, and drop it once the longest
+// lived token signed with it (7 days for refresh tokens) has expired.
+import {
+  importJWK,
+  type JSONWebKeySet,
+  type JWK,
+  type JWTHeaderParameters,
+  type KeyLike,
+} from "jose";
+
+export const SUPPORTED_JWT_ALGORITHMS = ["RS256", "ES256"] as const;
+export type JwtAlgorithm = (typeof SUPPORTED_JWT_ALGORITHMS)[number];
+
+interface KeyRing {
+  signing: { kid: string; alg: JwtAlgorithm; key: KeyLike | Uint8Array };
+  verification: Map<string, { alg: JwtAlgorithm; key: KeyLike | Uint8Array }>;
+  jwks: JSONWebKeySet;
+}
+
+interface ParsedKeys {
+  signing: JWK & { kid: string; alg: JwtAlgorithm };
+  verification: (JWK & { kid: string; alg: JwtAlgorithm })[];
+}
+
+const PRIVATE_JWK_FIELDS = ["d", "p", "q", "dp", "dq", "qi", "k"] as const;
+
+let keyRing: Promise<KeyRing> | null = null;
+
+function isSupportedAlg(alg: unknown): alg is JwtAlgorithm {
+  return SUPPORTED_JWT_ALGORITHMS.includes(alg as JwtAlgorithm);
+}
+
+function toPublicJwk(jwk: JWK): JWK {
+  const copy: JWK = { ...jwk };
+  for (const field of PRIVATE_JWK_FIELDS) delete copy[field];
+  return copy;
+}
+
+function parseJwk(raw: unknown, source: string): JWK & { kid: string; alg: JwtAlgorithm } {
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`${source} must be a JSON Web Key object`);
+  }
+  const jwk = raw as JWK;
+  if (!jwk.kid) {
+    throw new Error(`${source} is missing a "kid"`);
+  }
+  if (!isSupportedAlg(jwk.alg)) {
+    throw new Error(
+      `${source} (kid ${jwk.kid}) must set "alg" to one of ${SUPPORTED_JWT_ALGORITHMS.join(", ")}`
+    );
+  }
+  return jwk as JWK & { kid: string; alg: JwtAlgorithm };
+}
+
+// Reads and validates the key configuration. Throws when no signing key is set,
+// so a missing key fails loudly instead of falling back to a guessable secret.
+function parseKeyConfig(): ParsedKeys {
+  const signingRaw = process.env.JWT_SIGNING_KEY;
+  if (!signingRaw) {
+    throw new Error(
+      "JWT_SIGNING_KEY is not configured. Run `node generate-keys.js` and set it in the environment."
+    );
+  }
+
+  let signing;
+  try {
+    signing = parseJwk(JSON.parse(signingRaw), "JWT_SIGNING_KEY");
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error("JWT_SIGNING_KEY is not valid JSON");
+    }
+    throw error;
+  }
+  if (!signing.d) {
+    throw new Error("JWT_SIGNING_KEY must be a private key");
+  }
+
+  const verification: ParsedKeys["verification"] = [];
+  const extraRaw = process.env.JWT_VERIFICATION_KEYS;
+  if (extraRaw) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(extraRaw);
+    } catch {
+      throw new Error("JWT_VERIFICATION_KEYS is not valid JSON");
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as JSONWebKeySet)?.keys;
+    if (!Array.isArray(list)) {
+      throw new Error("JWT_VERIFICATION_KEYS must be an array of JWKs or a JWKS object");
+    }
+    for (const entry of list) {
+      const jwk = parseJwk(entry, "JWT_VERIFICATION_KEYS entry");
+      if (jwk.kid === signing.kid) continue;
+      verification.push(toPublicJwk(jwk) as typeof jwk);
+    }
+  }
+
+  return { signing, verification };
+}
+
+async function buildKeyRing(): Promise<KeyRing> {
+  const { signing, verification } = parseKeyConfig();
+
+  const signingPublic = toPublicJwk(signing) as typeof signing;
+  const ring: KeyRing = {
+    signing: {
+      kid: signing.kid,
+      alg: signing.alg,
+      key: await importJWK(signing, signing.alg),
+    },
+    verification: new Map(),
+    jwks: { keys: [] },
+  };
+
+  for (const jwk of [signingPublic, ...verification]) {
+    ring.verification.set(jwk.kid, { alg: jwk.alg, key: await importJWK(jwk, jwk.alg) });
+    ring.jwks.keys.push({ ...jwk, use: "sig" });
+  }
+
+  return ring;
+}
+
+function getKeyRing(): Promise<KeyRing> {
+  if (!keyRing) {
+    keyRing = buildKeyRing().catch((error) => {
+      // Don't cache a failed load; the next call reports the error again
+      keyRing = null;
+      throw error;
+    });
+  }
+  return keyRing;
+}
+
+export function assertJwtKeysConfigured(): void {
+  parseKeyConfig();
+}
+
+export async function getSigningKey() {
+  return (await getKeyRing()).signing;
+}
+
+// Key resolver for jwtVerify: selects the verification key by the token's `kid`
+export async function resolveVerificationKey(
+  header: JWTHeaderParameters
+): Promise<KeyLike | Uint8Array> {
+  const ring = await getKeyRing();
+  const entry = header.kid ? ring.verification.get(header.kid) : undefined;
+  if (!entry) {
+    throw new Error(`Unknown signing key id: ${header.kid ?? "(none)"}`);
+  }
+  if (entry.alg !== header.alg) {
+    throw new Error(`Algorithm mismatch for key ${header.kid}`);
+  }
+  return entry.key;
+}
+
+export async function getPublicJWKS(): Promise<JSONWebKeySet> {
+  return (await getKeyRing()).jwks;
+}
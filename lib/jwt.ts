@@ -1,5 +1,11 @@
 // Edge-compatible JWT utilities using `jose` (works in Next.js Middleware)
 import { SignJWT, jwtVerify, decodeJwt, type JWTPayload } from "jose";
+import { v4 as uuidv4 } from "uuid";
+import {
+  SUPPORTED_JWT_ALGORITHMS,
+  getSigningKey,
+  resolveVerificationKey,
+} from "@/lib/jwt-keys";
 
 export interface TokenPayload extends JWTPayload {
   userId: string;
@@ -7,7 +13,9 @@ export interface TokenPayload extends JWTPayload {
   email: string;
   name?: string;
   role: string;
+  permissions?: string[]; // Effective permissions, see lib/permissions.ts
   isTOTPEnabled: boolean;
+  totpEnrollmentRequired?: boolean; // Session is held at TOTP setup until the user enrolls
   // New OTP gating flags for email-based OTP flow
   otpRequired?: boolean; // true if user must complete OTP before full access
   otpVerified?: boolean; // true once OTP is completed
@@ -25,15 +33,15 @@ export class TokenService {
   }) {
     throw new Error("Method not implemented.");
   }
-  private static readonly JWT_SECRET =
-    (process.env.JWT_SECRET as string) || "your-fallback-secret";
   private static readonly ISSUER = "ingyin-app";
   private static readonly ACCESS_EXPIRATION = "15m"; // Shorter for security
   private static readonly REFRESH_EXPIRATION = "7d";
-  private static readonly TOTP_VERIFICATION_EXPIRATION = "10m"; // For TOTP verification step
 
-  private static getKey(): Uint8Array {
-    return new TextEncoder().encode(this.JWT_SECRET);
+  // Signs with the current key from lib/jwt-keys.ts; the kid header tells
+  // verifiers which key to use after a rotation
+  private static async sign(builder: SignJWT): Promise<string> {
+    const { kid, alg, key } = await getSigningKey();
+    return builder.setProtectedHeader({ alg, kid }).sign(key);
   }
 
   // Generate access token (short-lived)
@@ -56,12 +64,14 @@ export class TokenService {
       claims.totpVerified = (payload as any).otpVerified;
     }
 
-    const token = await new SignJWT(claims)
-      .setProtectedHeader({ alg: "HS256" })
-      .setIssuer(this.ISSUER)
-      .setIssuedAt()
-      .setExpirationTime(this.ACCESS_EXPIRATION)
-      .sign(this.getKey());
+    // jti lets a single access token be revoked (see lib/token-revocation.ts)
+    const token = await this.sign(
+      new SignJWT(claims)
+        .setIssuer(this.ISSUER)
+        .setIssuedAt()
+        .setJti(uuidv4())
+        .setExpirationTime(this.ACCESS_EXPIRATION)
+    );
 
     const decoded = decodeJwt(token);
     const expiresAt = new Date((decoded.exp as number) * 1000);
@@ -79,12 +89,14 @@ export class TokenService {
       type: "refresh",
     };
 
-    const token = await new SignJWT(claims)
-      .setProtectedHeader({ alg: "HS256" })
-      .setIssuer(this.ISSUER)
-      .setIssuedAt()
-      .setExpirationTime(this.REFRESH_EXPIRATION)
-      .sign(this.getKey());
+    // Unique jti so tokens rotated within the same second never collide
+    const token = await this.sign(
+      new SignJWT(claims)
+        .setIssuer(this.ISSUER)
+        .setIssuedAt()
+        .setJti(uuidv4())
+        .setExpirationTime(this.REFRESH_EXPIRATION)
+    );
 
     const decoded = decodeJwt(token);
     const expiresAt = new Date((decoded.exp as number) * 1000);
@@ -92,41 +104,14 @@ export class TokenService {
     return { token, expiresAt };
   }
 
-  // Generate TOTP verification token (for the intermediate step)
-  static async generateTOTPVerificationToken(
-    userId: string,
-    email: string,
-    username: string,
-    role: string,
-    name?: string
-  ): Promise<string> {
-    const claims = {
-      userId,
-      email,
-      username,
-      role,
-      name: name ?? "",
-      isTOTPEnabled: true, // This token is only used when TOTP is enabled
-      totpVerified: false, // Explicitly false until verified
-      type: "totp_verification",
-    };
-
-    const token = await new SignJWT(claims)
-      .setProtectedHeader({ alg: "HS256" })
-      .setIssuer(this.ISSUER)
-      .setIssuedAt()
-      .setExpirationTime(this.TOTP_VERIFICATION_EXPIRATION)
-      .sign(this.getKey());
-    return token;
-  }
-
   // Verify token with optional type checking
   static async verifyToken(
     token: string,
-    expectedType?: "access" | "refresh" | "totp_verification"
+    expectedType?: "access" | "refresh"
   ): Promise<TokenPayload> {
-    const { payload } = await jwtVerify(token, this.getKey(), {
+    const { payload } = await jwtVerify(token, resolveVerificationKey, {
       issuer: this.ISSUER,
+      algorithms: [...SUPPORTED_JWT_ALGORITHMS],
     });
 
     const tokenPayload = payload as TokenPayload;
@@ -151,11 +136,6 @@ export class TokenService {
     return this.verifyToken(token, "refresh");
   }
 
-  // Specifically verify TOTP verification token
-  static async verifyTOTPToken(token: string): Promise<TokenPayload> {
-    return this.verifyToken(token, "totp_verification");
-  }
-
   static decodeToken(token: string): TokenPayload | null {
     try {
       return decodeJwt(token) as TokenPayload;
@@ -0,0 +1,30 @@
+// lib/login-risk-config.ts
+export const LOGIN_RISK_CONFIG = {
+  // Sign-in history the current attempt is compared against
+  historyWindow: 90 * 24 * 60 * 60 * 1000, // 90 days
+  historySize: 50, // Most recent successful sign-ins considered
+
+  // Signal weights, summed into the risk score
+  weights: {
+    new_device: 30,
+    new_network: 20,
+    new_country: 40,
+    impossible_travel: 70,
+  },
+
+  // Score thresholds
+  alertScore: 30, // Send a "new sign-in" email
+  stepUpScore: 60, // Require TOTP before issuing a session
+
+  // Impossible travel
+  maxTravelSpeedKmh: 900, // Roughly a commercial flight
+  minTravelDistanceKm: 300, // Ignore jumps within GeoIP accuracy
+
+  // IPv4 prefix length treated as "the same network"
+  networkPrefixBits: 16,
+
+  // CSV of IPv4 ranges: start_ip,end_ip,country_code,city,latitude,longitude
+  geoipDatabasePath: process.env.GEOIP_DATABASE_PATH || "",
+} as const;
+
+export type LoginRiskSignal = keyof typeof LOGIN_RISK_CONFIG.weights;
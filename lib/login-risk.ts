@@ -0,0 +1,154 @@
+// lib/login-risk.ts
+// Scores a sign-in against the user's recent successful sign-ins (server only).
+// History comes from the LOGIN_*_VERIFIED audit rows of completed sign-ins,
+// so evaluate() must run before the current sign-in is recorded.
+//
+// Signals (weights in lib/login-risk-config.ts):
+//   new_device         browser/OS/device type not seen before
+//   new_network        IPv4 prefix not seen before (other addresses compared whole)
+//   new_country        GeoIP country not seen before
+//   impossible_travel  too far from the previous sign-in for the time elapsed
+//
+// A first-ever sign-in has nothing to compare against and is never flagged.
+import { prisma } from "@/lib/prisma";
+import { ipv4ToInt } from "@/lib/client-ip";
+import { parseUserAgent, type DeviceInfo } from "@/lib/device-session";
+import { GeoIP, type GeoLocation } from "@/lib/geoip";
+import { sendEmail } from "@/lib/email";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent, type AuditRequestContext } from "@/lib/audit";
+import type { AuditEventDetails } from "@/lib/audit-events";
+import { LOGIN_RISK_CONFIG, type LoginRiskSignal } from "@/lib/login-risk-config";
+
+export interface LoginRiskAssessment {
+  score: number;
+  signals: LoginRiskSignal[];
+  alert: boolean; // Send a "new sign-in" email
+  stepUp: boolean; // Require TOTP before issuing a session
+  device: DeviceInfo;
+  location: GeoLocation | null;
+}
+
+export type LoginRiskOutcome = AuditEventDetails["LOGIN_RISK_FLAGGED"]["outcome"];
+
+function deviceKey(device: DeviceInfo): string {
+  return `${device.deviceType}|${device.browser}|${device.os}`;
+}
+
+function networkKey(ip: string | null): string | null {
+  if (!ip || ip === "unknown") return null;
+  const asInt = ipv4ToInt(ip);
+  if (asInt === null) return ip;
+  const bits: number = LOGIN_RISK_CONFIG.networkPrefixBits;
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return `${(asInt & mask) >>> 0}/${bits}`;
+}
+
+function describeLocation(location: GeoLocation | null): string | null {
+  if (!location) return null;
+  return location.city ? `${location.city}, ${location.country}` : location.country;
+}
+
+export class LoginRisk {
+  static async evaluate(
+    userId: string,
+    ctx: Required<AuditRequestContext>
+  ): Promise<LoginRiskAssessment> {
+    const device = parseUserAgent(ctx.userAgent);
+    const location = await GeoIP.lookup(ctx.ipAddress);
+
+    const history = await prisma.auditLog.findMany({
+      where: {
+        userId,
+        action: { in: ["LOGIN_OTP_VERIFIED", "LOGIN_TOTP_VERIFIED", "LOGIN_PASSKEY_VERIFIED"] },
+        timestamp: { gte: new Date(Date.now() - LOGIN_RISK_CONFIG.historyWindow) },
+      },
+      orderBy: { timestamp: "desc" },
+      take: LOGIN_RISK_CONFIG.historySize,
+      select: { ipAddress: true, userAgent: true, timestamp: true },
+    });
+
+    const signals: LoginRiskSignal[] = [];
+
+    if (history.length > 0) {
+      const knownDevices = new Set(history.map((h) => deviceKey(parseUserAgent(h.userAgent))));
+      if (!knownDevices.has(deviceKey(device))) signals.push("new_device");
+
+      const network = networkKey(ctx.ipAddress);
+      const knownNetworks = new Set(history.map((h) => networkKey(h.ipAddress)));
+      if (network && !knownNetworks.has(network)) signals.push("new_network");
+
+      if (location) {
+        const pastLocations = await Promise.all(history.map((h) => GeoIP.lookup(h.ipAddress)));
+        const knownCountries = new Set(pastLocations.filter((l) => l !== null).map((l) => l.country));
+        if (knownCountries.size > 0 && !knownCountries.has(location.country)) {
+          signals.push("new_country");
+        }
+
+        const previous = pastLocations[0];
+        if (previous) {
+          const distance = GeoIP.distanceKm(previous, location);
+          const hours = Math.max(Date.now() - history[0].timestamp.getTime(), 60 * 1000) / (60 * 60 * 1000);
+          if (
+            distance >= LOGIN_RISK_CONFIG.minTravelDistanceKm &&
+            distance / hours > LOGIN_RISK_CONFIG.maxTravelSpeedKmh
+          ) {
+            signals.push("impossible_travel");
+          }
+        }
+      }
+    }
+
+    const score = signals.reduce((sum, signal) => sum + LOGIN_RISK_CONFIG.weights[signal], 0);
+    return {
+      score,
+      signals,
+      alert: score >= LOGIN_RISK_CONFIG.alertScore,
+      stepUp: score >= LOGIN_RISK_CONFIG.stepUpScore,
+      device,
+      location,
+    };
+  }
+
+  // Records the flagged sign-in and, once it has succeeded, emails the user
+  static async report(
+    user: { id: string; email: string; name: string | null },
+    assessment: LoginRiskAssessment,
+    ctx: Required<AuditRequestContext>,
+    outcome: LoginRiskOutcome
+  ): Promise<void> {
+    const log = createRequestLogger("login-risk");
+    const location = describeLocation(assessment.location);
+
+    await recordAuditEvent(ctx, {
+      action: "LOGIN_RISK_FLAGGED",
+      userId: user.id,
+      details: {
+        score: assessment.score,
+        signals: assessment.signals,
+        outcome,
+        ...(location ? { location } : {}),
+      },
+    });
+    log.info("Sign-in flagged", {
+      userId: user.id,
+      score: assessment.score,
+      signals: assessment.signals,
+      outcome,
+    });
+
+    if (outcome !== "alerted") return;
+
+    const { browser, os } = assessment.device;
+    const sent = await sendEmail(user.email, "new_sign_in", {
+      name: user.name || "User",
+      time: new Date(),
+      device: `${browser} on ${os}`,
+      ipAddress: ctx.ipAddress,
+      location,
+    });
+    if (!sent) {
+      log.error("Failed to send new sign-in email", { userId: user.id });
+    }
+  }
+}
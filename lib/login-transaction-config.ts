@@ -0,0 +1,9 @@
+// lib/login-transaction-config.ts
+export const LOGIN_TRANSACTION_CONFIG = {
+  cookieName: "login_transaction",
+
+  // Each completed step or resent code moves the expiry out by ttl,
+  // but never past maxLifetime from the first step
+  ttl: 10 * 60 * 1000, // 10 minutes, matching the one-time code
+  maxLifetime: 30 * 60 * 1000, // 30 minutes
+} as const;
@@ -0,0 +1,215 @@
+// lib/login-transaction.ts
+// Server-side state for a sign-in or password reset that spans several
+// requests (server only).
+//
+// The first request decides which steps the user must pass, e.g. CAPTCHA and
+// password, then an emailed code, and begin() stores them behind an opaque
+// random cookie; only a SHA-256 of the cookie is kept. Every later route
+// resumes the transaction for its own flow and step, so steps can't be skipped
+// or taken out of order, a password reset can't stand in for a sign-in, and a
+// finished transaction is deleted so it can't be replayed.
+import crypto from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { LOGIN_TRANSACTION_CONFIG } from "@/lib/login-transaction-config";
+import type { LoginFlow, LoginStep, Prisma } from "@/app/generated/prisma";
+
+export type { LoginFlow, LoginStep } from "@/app/generated/prisma";
+
+export type LoginMethod = "email_password" | "oauth_google" | "oauth_github";
+
+export interface PendingLogin {
+  id: string;
+  userId: string;
+  flow: LoginFlow;
+  method: LoginMethod | null; // Null for password resets
+  requiredSteps: LoginStep[];
+  completedSteps: LoginStep[];
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface LoginTransactionStart {
+  userId: string;
+  flow: LoginFlow;
+  method?: LoginMethod;
+  steps: LoginStep[]; // In the order they must be completed
+  completed?: LoginStep[]; // Leading steps already passed in this request
+}
+
+export type LoginTransactionResumeResult =
+  | { success: true; transaction: PendingLogin }
+  | { success: false; reason: "missing" | "not_found" | "expired" | "wrong_flow" | "wrong_step" };
+
+const PENDING_LOGIN_SELECT = {
+  id: true,
+  userId: true,
+  flow: true,
+  method: true,
+  requiredSteps: true,
+  completedSteps: true,
+  createdAt: true,
+  expiresAt: true,
+} as const;
+
+function toPendingLogin(row: Prisma.LoginTransactionGetPayload<{ select: typeof PENDING_LOGIN_SELECT }>): PendingLogin {
+  return { ...row, method: row.method as LoginMethod | null };
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function nextExpiry(createdAt: Date): Date {
+  return new Date(
+    Math.min(Date.now() + LOGIN_TRANSACTION_CONFIG.ttl, createdAt.getTime() + LOGIN_TRANSACTION_CONFIG.maxLifetime)
+  );
+}
+
+export class LoginTransaction {
+  // First required step not completed yet; null once all are done
+  static nextStep(transaction: PendingLogin): LoginStep | null {
+    return transaction.requiredSteps.find((step) => !transaction.completedSteps.includes(step)) ?? null;
+  }
+
+  // Starts a transaction, replacing the one this browser already had.
+  // Set the returned token with setCookie().
+  static async begin(
+    request: NextRequest,
+    start: LoginTransactionStart
+  ): Promise<{ transaction: PendingLogin; token: string }> {
+    const completed = start.completed ?? [];
+    if (completed.some((step, index) => start.steps[index] !== step)) {
+      throw new Error("Completed login steps must lead the required steps");
+    }
+
+    await this.discard(request);
+    await prisma.loginTransaction.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    const row = await prisma.loginTransaction.create({
+      data: {
+        tokenHash: sha256(token),
+        userId: start.userId,
+        flow: start.flow,
+        method: start.method ?? null,
+        requiredSteps: start.steps,
+        completedSteps: completed,
+        expiresAt: new Date(Date.now() + LOGIN_TRANSACTION_CONFIG.ttl),
+      },
+      select: PENDING_LOGIN_SELECT,
+    });
+    return { transaction: toPendingLogin(row), token };
+  }
+
+  // Loads this browser's transaction if it belongs to `flow` and is waiting
+  // for `step`. Pass null to require every step done, e.g. before the new
+  // password of a reset is saved.
+  static async resume(
+    request: NextRequest,
+    flow: LoginFlow,
+    step: LoginStep | null
+  ): Promise<LoginTransactionResumeResult> {
+    const token = request.cookies.get(LOGIN_TRANSACTION_CONFIG.cookieName)?.value;
+    if (!token) return { success: false, reason: "missing" };
+
+    const row = await prisma.loginTransaction.findUnique({
+      where: { tokenHash: sha256(token) },
+      select: PENDING_LOGIN_SELECT,
+    });
+    if (!row) return { success: false, reason: "not_found" };
+
+    if (row.expiresAt.getTime() <= Date.now()) {
+      await prisma.loginTransaction.deleteMany({ where: { id: row.id } });
+      return { success: false, reason: "expired" };
+    }
+
+    const transaction = toPendingLogin(row);
+    const log = createRequestLogger("login-transaction");
+    if (transaction.flow !== flow) {
+      log.warn("Login transaction used for another flow", { userId: transaction.userId, flow: transaction.flow, expected: flow });
+      return { success: false, reason: "wrong_flow" };
+    }
+
+    const nextStep = this.nextStep(transaction);
+    if (nextStep !== step) {
+      log.warn("Login step out of order", { userId: transaction.userId, nextStep, attempted: step });
+      return { success: false, reason: "wrong_step" };
+    }
+
+    return { success: true, transaction };
+  }
+
+  // Records `step` as passed and optionally requires more after it (an
+  // unfamiliar sign-in adds TOTP). Null if the transaction changed since it
+  // was loaded, e.g. a concurrent request completed the step first, or expired.
+  static async advance(
+    transaction: PendingLogin,
+    step: LoginStep,
+    addSteps: LoginStep[] = []
+  ): Promise<PendingLogin | null> {
+    if (this.nextStep(transaction) !== step) return null;
+
+    const requiredSteps = [
+      ...transaction.requiredSteps,
+      ...addSteps.filter((added) => !transaction.requiredSteps.includes(added)),
+    ];
+    const completedSteps = [...transaction.completedSteps, step];
+    const expiresAt = nextExpiry(transaction.createdAt);
+
+    const { count } = await prisma.loginTransaction.updateMany({
+      where: {
+        id: transaction.id,
+        completedSteps: { equals: transaction.completedSteps },
+        expiresAt: { gt: new Date() },
+      },
+      data: { requiredSteps, completedSteps, expiresAt },
+    });
+    return count === 1 ? { ...transaction, requiredSteps, completedSteps, expiresAt } : null;
+  }
+
+  // Moves the expiry out without completing a step, e.g. when a code is resent
+  static async touch(transaction: PendingLogin): Promise<void> {
+    await prisma.loginTransaction.updateMany({
+      where: { id: transaction.id },
+      data: { expiresAt: nextExpiry(transaction.createdAt) },
+    });
+  }
+
+  // Spends a transaction whose steps are all done. Deleting is the claim: of
+  // two concurrent requests only one gets true.
+  static async finish(transaction: PendingLogin): Promise<boolean> {
+    if (this.nextStep(transaction) !== null) return false;
+
+    const { count } = await prisma.loginTransaction.deleteMany({
+      where: {
+        id: transaction.id,
+        completedSteps: { equals: transaction.completedSteps },
+        expiresAt: { gt: new Date() },
+      },
+    });
+    return count === 1;
+  }
+
+  // Drops this browser's transaction, e.g. on logout or when a new one starts
+  static async discard(request: NextRequest): Promise<void> {
+    const token = request.cookies.get(LOGIN_TRANSACTION_CONFIG.cookieName)?.value;
+    if (!token) return;
+    await prisma.loginTransaction.deleteMany({ where: { tokenHash: sha256(token) } });
+  }
+
+  static setCookie(response: NextResponse, token: string): void {
+    response.cookies.set(LOGIN_TRANSACTION_CONFIG.cookieName, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax", // Sent on the OAuth callback redirect and when a magic link is opened
+      maxAge: Math.round(LOGIN_TRANSACTION_CONFIG.maxLifetime / 1000),
+      path: "/",
+    });
+  }
+
+  static clearCookie(response: NextResponse): void {
+    response.cookies.delete(LOGIN_TRANSACTION_CONFIG.cookieName);
+  }
+}
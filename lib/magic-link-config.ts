@@ -0,0 +1,18 @@
+// lib/magic-link-config.ts
+// Links point at NEXTAUTH_URL, the same origin the rest of the app is served from.
+const appUrl = new URL(process.env.NEXTAUTH_URL || "http://localhost:3000");
+
+export const MAGIC_LINK_CONFIG = {
+  landingUrl: new URL("/api/auth/magic-link", appUrl).toString(),
+  ttl: 10 * 60 * 1000, // 10 minutes, matching the emailed code
+} as const;
+
+// HMAC key for link signatures. instrumentation.ts checks it at startup, since
+// admins can turn magic links on at any time without a redeploy.
+export function magicLinkSecret(): string {
+  const secret = process.env.MAGIC_LINK_SECRET;
+  if (!secret) {
+    throw new Error("MAGIC_LINK_SECRET is not configured");
+  }
+  return secret;
+}
@@ -0,0 +1,130 @@
+// lib/magic-link.ts
+// One-click sign-in links, emailed with the login code when an admin has
+// turned them on in AuthSettings (server only).
+//
+// A link carries `<nonce>.<signature>`: the signature is an HMAC of the nonce,
+// so forged links are rejected before touching the database, and only a
+// SHA-256 of the nonce is stored. A link belongs to the LoginTransaction that
+// sent it and is accepted only in the browser holding that transaction's
+// cookie, so a forwarded email can't finish the sign-in elsewhere. Links are
+// single-use, expire after MAGIC_LINK_CONFIG.ttl, and sending a new one
+// replaces the previous link.
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { sendEmail } from "@/lib/email";
+import { AuthSettings } from "@/lib/auth-settings";
+import { MAGIC_LINK_CONFIG, magicLinkSecret } from "@/lib/magic-link-config";
+
+export type MagicLinkConsumeResult =
+  | { success: true; userId: string }
+  | {
+      success: false;
+      reason: "invalid_signature" | "not_found" | "expired" | "browser_mismatch" | "account_inactive";
+      userId?: string; // Set once the link is known
+    };
+
+export interface LoginEmailResult {
+  sent: boolean;
+  magicLink: boolean; // The email carried a link as well as the code
+}
+
+function sign(nonce: string): string {
+  return crypto.createHmac("sha256", magicLinkSecret()).update(`magic_link:${nonce}`).digest("base64url");
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export class MagicLinkService {
+  static async isEnabled(): Promise<boolean> {
+    return (await AuthSettings.get()).magicLinkEnabled;
+  }
+
+  // Creates a link for the user's pending sign-in, replacing any earlier one
+  static async issue(userId: string, transactionId: string): Promise<string> {
+    const nonce = crypto.randomBytes(32).toString("base64url");
+
+    await prisma.magicLink.deleteMany({
+      where: { OR: [{ userId }, { expiresAt: { lt: new Date() } }] },
+    });
+    await prisma.magicLink.create({
+      data: {
+        userId,
+        tokenHash: sha256(nonce),
+        transactionId,
+        expiresAt: new Date(Date.now() + MAGIC_LINK_CONFIG.ttl),
+      },
+    });
+
+    const url = new URL(MAGIC_LINK_CONFIG.landingUrl);
+    url.searchParams.set("token", `${nonce}.${sign(nonce)}`);
+    return url.toString();
+  }
+
+  // Checks the link against the browser's pending sign-in and spends it.
+  // A link opened in the wrong browser is left intact for the right one.
+  static async consume(token: string, transactionId: string | undefined): Promise<MagicLinkConsumeResult> {
+    const log = createRequestLogger("magic-link");
+
+    const [nonce, signature] = String(token).split(".");
+    if (!nonce || !signature || !safeEqual(signature, sign(nonce))) {
+      return { success: false, reason: "invalid_signature" };
+    }
+
+    const link = await prisma.magicLink.findUnique({
+      where: { tokenHash: sha256(nonce) },
+      select: { id: true, userId: true, transactionId: true, expiresAt: true, user: { select: { status: true } } },
+    });
+    if (!link) return { success: false, reason: "not_found" };
+
+    if (link.expiresAt.getTime() <= Date.now()) {
+      await prisma.magicLink.deleteMany({ where: { id: link.id } });
+      return { success: false, reason: "expired", userId: link.userId };
+    }
+
+    if (link.transactionId !== transactionId) {
+      log.warn("Magic link opened in a different browser", { userId: link.userId });
+      return { success: false, reason: "browser_mismatch", userId: link.userId };
+    }
+
+    // Deleting is the claim: of two concurrent clicks only one gets a row back
+    const { count } = await prisma.magicLink.deleteMany({ where: { id: link.id } });
+    if (count === 0) return { success: false, reason: "not_found" };
+
+    if (link.user.status !== "ACTIVE") {
+      return { success: false, reason: "account_inactive", userId: link.userId };
+    }
+
+    return { success: true, userId: link.userId };
+  }
+
+  // Spends any outstanding link, e.g. once the emailed code was used instead
+  static async revoke(userId: string): Promise<void> {
+    await prisma.magicLink.deleteMany({ where: { userId } });
+  }
+
+  // Sends the sign-in email for a code already stored with storeOTP(). With
+  // magic links on it also carries a link for the given sign-in transaction.
+  static async sendLoginEmail(
+    user: { id: string; email: string; name: string | null },
+    code: string,
+    transactionId: string
+  ): Promise<LoginEmailResult> {
+    const name = user.name || "User";
+    if (!(await this.isEnabled())) {
+      return { sent: await sendEmail(user.email, "login_otp", { name, code }), magicLink: false };
+    }
+
+    const url = await this.issue(user.id, transactionId);
+    const sent = await sendEmail(user.email, "login_magic_link", { name, url, code });
+    return { sent, magicLink: sent };
+  }
+}
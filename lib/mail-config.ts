@@ -0,0 +1,31 @@
+// lib/mail-config.ts
+// MAIL_DRIVER picks how email leaves the app:
+//   smtp     deliver through an SMTP server (production default)
+//   file     write each message as JSON into MAIL_OUTBOX_DIR (tests)
+//   console  print the message to the server log (development default)
+export type MailDriver = "smtp" | "file" | "console";
+
+const MAIL_DRIVERS: readonly MailDriver[] = ["smtp", "file", "console"];
+
+function resolveDriver(value: string | undefined): MailDriver {
+  const driver = (value || "").trim().toLowerCase();
+  if ((MAIL_DRIVERS as readonly string[]).includes(driver)) return driver as MailDriver;
+  return process.env.NODE_ENV === "production" ? "smtp" : "console";
+}
+
+export const MAIL_CONFIG = {
+  driver: resolveDriver(process.env.MAIL_DRIVER),
+  from: process.env.MAIL_FROM || process.env.EMAIL_USER || "no-reply@localhost",
+
+  // SMTP_HOST selects any server; without it the Gmail service is used,
+  // matching the original EMAIL_USER / EMAIL_PASSWORD setup
+  smtp: {
+    host: process.env.SMTP_HOST || undefined,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true", // true for port 465
+    user: process.env.SMTP_USER || process.env.EMAIL_USER,
+    password: process.env.SMTP_PASSWORD || process.env.EMAIL_PASSWORD, // Use app password for Gmail
+  },
+
+  outboxDir: process.env.MAIL_OUTBOX_DIR || ".mail-outbox",
+} as const;
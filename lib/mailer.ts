@@ -0,0 +1,129 @@
+// lib/mailer.ts
+// Transport-agnostic email delivery (server only).
+// The driver is chosen once per process from MAIL_CONFIG.driver. Application
+// code queues mail with sendEmail() in lib/email.ts; only the outbox worker
+// calls deliverMail() directly.
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { createRequestLogger } from "@/lib/logger";
+import { MAIL_CONFIG, type MailDriver } from "@/lib/mail-config";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export interface MailTransport {
+  readonly driver: MailDriver;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Plain-text fallback for drivers and clients that do not render HTML
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly driver = "smtp";
+  private transporter = nodemailer.createTransport(
+    MAIL_CONFIG.smtp.host
+      ? {
+          host: MAIL_CONFIG.smtp.host,
+          port: MAIL_CONFIG.smtp.port,
+          secure: MAIL_CONFIG.smtp.secure,
+          auth: MAIL_CONFIG.smtp.user
+            ? { user: MAIL_CONFIG.smtp.user, pass: MAIL_CONFIG.smtp.password }
+            : undefined,
+        }
+      : {
+          service: "gmail",
+          auth: { user: MAIL_CONFIG.smtp.user, pass: MAIL_CONFIG.smtp.password },
+        }
+  );
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// One JSON file per message, named so a directory listing sorts by send time
+export class FileTransport implements MailTransport {
+  readonly driver = "file";
+
+  constructor(private readonly dir: string = MAIL_CONFIG.outboxDir) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const id = randomUUID();
+    const sentAt = new Date();
+    const file = path.join(this.dir, `${sentAt.getTime()}-${id}.json`);
+    await writeFile(file, JSON.stringify({ id, sentAt: sentAt.toISOString(), ...message }, null, 2));
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  readonly driver = "console";
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(
+      [
+        "----- email (console driver) -----",
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text ?? htmlToText(message.html),
+        "----------------------------------",
+      ].join("\n")
+    );
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    switch (MAIL_CONFIG.driver) {
+      case "smtp":
+        transport = new SmtpTransport();
+        break;
+      case "file":
+        transport = new FileTransport();
+        break;
+      case "console":
+        transport = new ConsoleTransport();
+        break;
+    }
+  }
+  return transport;
+}
+
+// Throws on failure; the outbox worker in lib/email-outbox.ts owns retries
+export async function deliverMail(message: MailMessage): Promise<void> {
+  const log = createRequestLogger("mailer");
+  const mailer = getMailTransport();
+  await mailer.send({
+    from: MAIL_CONFIG.from,
+    ...message,
+    text: message.text ?? htmlToText(message.html),
+  });
+  log.info("Email delivered", { driver: mailer.driver, to: message.to, subject: message.subject });
+}
@@ -0,0 +1,11 @@
+// lib/mfa-config.ts
+// Second factors (lib/mfa.ts). Failed attempts and lockout across all of a
+// user's factors still follow TOTP_CONFIG.maxFailedAttempts / lockoutDuration.
+export const MFA_CONFIG = {
+  maxFactorsPerUser: 10,
+  nameMaxLength: 64,
+  defaultNames: {
+    TOTP: "Authenticator app",
+    SECURITY_KEY: "Security key",
+  },
+} as const;
@@ -0,0 +1,505 @@
+// lib/mfa.ts
+// Second-factor registry (server only).
+// A user can enroll several factors (authenticator apps and WebAuthn security
+// keys) and keeps one set of backup codes on the user row. Each method has a
+// FactorVerifier; MfaService.verify() picks one and applies the shared
+// failed-attempt lockout, so guessing is capped across all methods together.
+//
+// User.isTOTPEnabled tracks "has at least one factor" and is kept in sync
+// here; the first factor enrolled becomes the default.
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { EncryptionService } from "@/lib/encryption";
+import { TOTPService } from "@/lib/totp-service";
+import { TOTP_CONFIG } from "@/lib/totp-config";
+import { MFA_CONFIG } from "@/lib/mfa-config";
+import { WEBAUTHN_CONFIG } from "@/lib/webauthn-config";
+import {
+  COSE_ALGORITHMS,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+  type WebAuthnFailureReason,
+} from "@/lib/webauthn";
+import { ceremonyExpectations, consumeChallenge, createChallenge } from "@/lib/webauthn-challenge";
+import type { MfaFactorType, Prisma } from "@/app/generated/prisma";
+
+export type MfaMethod = "totp" | "security_key" | "backup_code";
+
+export const MFA_METHODS: MfaMethod[] = ["totp", "security_key", "backup_code"];
+
+export function isMfaMethod(value: unknown): value is MfaMethod {
+  return typeof value === "string" && (MFA_METHODS as string[]).includes(value);
+}
+
+export interface MfaVerificationInput {
+  factorId?: string; // Limits TOTP to one app; otherwise any enrolled app
+  code?: string; // totp, backup_code
+  credential?: AuthenticationResponseJSON; // security_key
+}
+
+export type FactorVerification =
+  | { success: true; factorId: string | null }
+  | { success: false; reason: "invalid" | "challenge_expired" };
+
+export interface FactorVerifier {
+  verify(userId: string, input: MfaVerificationInput): Promise<FactorVerification>;
+}
+
+export type MfaVerificationResult =
+  | { success: true; method: MfaMethod; factorId: string | null }
+  | { success: false; reason: "not_enrolled" }
+  | { success: false; reason: "challenge_expired" }
+  | { success: false; reason: "invalid" | "locked"; failedAttempts: number; lockUntil?: Date };
+
+export const MFA_FACTOR_SELECT = {
+  id: true,
+  type: true,
+  name: true,
+  isDefault: true,
+  createdAt: true,
+  lastUsedAt: true,
+} satisfies Prisma.MfaFactorSelect;
+
+export type MfaFactorView = Prisma.MfaFactorGetPayload<{ select: typeof MFA_FACTOR_SELECT }>;
+
+// One entry per choice on /verify-totp
+export interface MfaMethodOption {
+  method: MfaMethod;
+  factorId: string | null;
+  name: string;
+  isDefault: boolean;
+}
+
+export type MfaEnrollResult =
+  | { success: true; factor: MfaFactorView; firstFactor: boolean; backupCodes?: string[] }
+  | { success: false; reason: "limit_reached" | "challenge_expired" | "already_registered" | WebAuthnFailureReason };
+
+export type MfaUpdateResult =
+  | { success: true; factor: MfaFactorView }
+  | { success: false; reason: "not_found" };
+
+export type MfaRemoveResult =
+  | { success: true; factor: MfaFactorView; disabled: boolean }
+  | { success: false; reason: "not_found" };
+
+const METHOD_BY_TYPE: Record<MfaFactorType, MfaMethod> = {
+  TOTP: "totp",
+  SECURITY_KEY: "security_key",
+};
+
+// A missing or blank name becomes the fallback when one is given
+export function parseFactorName(value: unknown, fallback?: string): string | null {
+  if (fallback && (value === undefined || value === null || (typeof value === "string" && !value.trim()))) {
+    return fallback;
+  }
+  if (typeof value !== "string") return null;
+  const name = value.trim();
+  if (!name || name.length > MFA_CONFIG.nameMaxLength) return null;
+  return name;
+}
+
+export function encryptBackupCodes(codes: string[]): string[] {
+  return codes.map((code) => EncryptionService.encrypt(code, process.env.BACKUP_CODES_ENCRYPTION_KEY!));
+}
+
+const totpVerifier: FactorVerifier = {
+  async verify(userId, { factorId, code }) {
+    if (!code) return { success: false, reason: "invalid" };
+    const factors = await prisma.mfaFactor.findMany({
+      where: { userId, type: "TOTP", ...(factorId ? { id: factorId } : {}) },
+      select: { id: true, secret: true },
+    });
+    for (const factor of factors) {
+      if (!factor.secret) continue;
+      let secret: string;
+      try {
+        secret = EncryptionService.decrypt(factor.secret, process.env.TOTP_SECRET_ENCRYPTION_KEY!);
+      } catch {
+        continue; // Skip secrets that no longer decrypt
+      }
+      if (TOTPService.verifyToken(code, secret)) return { success: true, factorId: factor.id };
+    }
+    return { success: false, reason: "invalid" };
+  },
+};
+
+const securityKeyVerifier: FactorVerifier = {
+  async verify(userId, { credential }) {
+    const challenge = await consumeChallenge(credential?.response?.clientDataJSON, "AUTHENTICATION", userId);
+    if (!credential || !challenge) return { success: false, reason: "challenge_expired" };
+
+    const factor = await prisma.mfaFactor.findFirst({
+      where: { userId, type: "SECURITY_KEY", credentialId: String(credential.id) },
+      select: { id: true, publicKey: true, signCount: true },
+    });
+    if (!factor?.publicKey) return { success: false, reason: "invalid" };
+
+    // Presence is enough: the key is the second factor, not the only one
+    const verification = verifyAuthenticationResponse(
+      credential,
+      { publicKey: factor.publicKey, signCount: Number(factor.signCount) },
+      ceremonyExpectations(challenge, false)
+    );
+    if (!verification.success) {
+      createRequestLogger("mfa").warn("Security key rejected", { factorId: factor.id, reason: verification.reason });
+      return { success: false, reason: "invalid" };
+    }
+
+    await prisma.mfaFactor.update({
+      where: { id: factor.id },
+      data: { signCount: BigInt(verification.signCount) },
+    });
+    return { success: true, factorId: factor.id };
+  },
+};
+
+const backupCodeVerifier: FactorVerifier = {
+  async verify(userId, { code }) {
+    if (!code) return { success: false, reason: "invalid" };
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpBackupCodes: true },
+    });
+    if (!user) return { success: false, reason: "invalid" };
+
+    for (const encryptedCode of user.totpBackupCodes) {
+      let decrypted: string;
+      try {
+        decrypted = EncryptionService.decrypt(encryptedCode, process.env.BACKUP_CODES_ENCRYPTION_KEY!);
+      } catch {
+        continue; // Skip codes that no longer decrypt
+      }
+      if (decrypted === code) {
+        // Each code works once
+        await prisma.user.update({
+          where: { id: userId },
+          data: { totpBackupCodes: user.totpBackupCodes.filter((c) => c !== encryptedCode) },
+        });
+        return { success: true, factorId: null };
+      }
+    }
+    return { success: false, reason: "invalid" };
+  },
+};
+
+const FACTOR_VERIFIERS: Record<MfaMethod, FactorVerifier> = {
+  totp: totpVerifier,
+  security_key: securityKeyVerifier,
+  backup_code: backupCodeVerifier,
+};
+
+export class MfaService {
+  static async verify(
+    userId: string,
+    method: MfaMethod,
+    input: MfaVerificationInput
+  ): Promise<MfaVerificationResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { isTOTPEnabled: true, failedTOTPAttempts: true, totpLockUntil: true },
+    });
+    if (!user || !user.isTOTPEnabled) return { success: false, reason: "not_enrolled" };
+
+    if (user.totpLockUntil && user.totpLockUntil > new Date()) {
+      return {
+        success: false,
+        reason: "locked",
+        failedAttempts: user.failedTOTPAttempts,
+        lockUntil: user.totpLockUntil,
+      };
+    }
+    if (user.totpLockUntil) {
+      // The lockout has run out: start a fresh budget. Matching on the old
+      // lockUntil lets only one concurrent request do it.
+      await prisma.user.updateMany({
+        where: { id: userId, totpLockUntil: user.totpLockUntil },
+        data: { failedTOTPAttempts: 0, totpLockUntil: null },
+      });
+    }
+
+    // Count the guess before checking it, so concurrent guesses can't get past
+    // maxFailedAttempts; a correct one resets the counter below
+    const claimed = await prisma.user.updateMany({
+      where: { id: userId, failedTOTPAttempts: { lt: TOTP_CONFIG.maxFailedAttempts } },
+      data: { failedTOTPAttempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) {
+      const current = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { failedTOTPAttempts: true, totpLockUntil: true },
+      });
+      return {
+        success: false,
+        reason: "locked",
+        failedAttempts: current?.failedTOTPAttempts ?? TOTP_CONFIG.maxFailedAttempts,
+        lockUntil: current?.totpLockUntil ?? undefined,
+      };
+    }
+
+    const result = await FACTOR_VERIFIERS[method].verify(userId, input);
+
+    if (result.success) {
+      const now = new Date();
+      await prisma.user.update({
+        where: { id: userId },
+        data: { failedTOTPAttempts: 0, totpLockUntil: null, lastTOTPUsedAt: now },
+      });
+      if (result.factorId) {
+        await prisma.mfaFactor.update({ where: { id: result.factorId }, data: { lastUsedAt: now } });
+      }
+      return { success: true, method, factorId: result.factorId };
+    }
+
+    // A lapsed security key prompt is not a guess, so hand the attempt back
+    if (result.reason === "challenge_expired") {
+      await prisma.user.updateMany({
+        where: { id: userId, failedTOTPAttempts: { gt: 0 } },
+        data: { failedTOTPAttempts: { decrement: 1 } },
+      });
+      return { success: false, reason: "challenge_expired" };
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { failedTOTPAttempts: true },
+    });
+    const failedAttempts = Math.min(current?.failedTOTPAttempts ?? 0, TOTP_CONFIG.maxFailedAttempts);
+    if (failedAttempts < TOTP_CONFIG.maxFailedAttempts) {
+      return { success: false, reason: "invalid", failedAttempts };
+    }
+
+    const lockUntil = new Date(Date.now() + TOTP_CONFIG.lockoutDuration);
+    await prisma.user.updateMany({
+      where: { id: userId, totpLockUntil: null },
+      data: { totpLockUntil: lockUntil },
+    });
+    return { success: false, reason: "locked", failedAttempts, lockUntil };
+  }
+
+  // Default first, then in enrollment order; backup codes last while any remain
+  static async methods(userId: string): Promise<MfaMethodOption[]> {
+    const [factors, user] = await Promise.all([
+      prisma.mfaFactor.findMany({
+        where: { userId },
+        select: MFA_FACTOR_SELECT,
+        orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+      }),
+      prisma.user.findUnique({ where: { id: userId }, select: { totpBackupCodes: true } }),
+    ]);
+
+    const options: MfaMethodOption[] = factors.map((factor) => ({
+      method: METHOD_BY_TYPE[factor.type],
+      factorId: factor.id,
+      name: factor.name,
+      isDefault: factor.isDefault,
+    }));
+    if (factors.length > 0 && user?.totpBackupCodes.length) {
+      options.push({ method: "backup_code", factorId: null, name: "Backup code", isDefault: false });
+    }
+    return options;
+  }
+
+  static async summary(userId: string): Promise<{ factors: MfaFactorView[]; backupCodesRemaining: number }> {
+    const [factors, user] = await Promise.all([
+      prisma.mfaFactor.findMany({
+        where: { userId },
+        select: MFA_FACTOR_SELECT,
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.user.findUnique({ where: { id: userId }, select: { totpBackupCodes: true } }),
+    ]);
+    return { factors, backupCodesRemaining: user?.totpBackupCodes.length ?? 0 };
+  }
+
+  // WebAuthn request options for the user's security keys; null if they have none
+  static async securityKeyChallenge(userId: string) {
+    const keys = await prisma.mfaFactor.findMany({
+      where: { userId, type: "SECURITY_KEY" },
+      select: { credentialId: true, transports: true },
+    });
+    if (keys.length === 0) return null;
+
+    return {
+      challenge: await createChallenge("AUTHENTICATION", userId),
+      rpId: WEBAUTHN_CONFIG.rpId,
+      timeout: WEBAUTHN_CONFIG.timeout,
+      userVerification: "discouraged" as const,
+      allowCredentials: keys.map((key) => ({
+        type: "public-key" as const,
+        id: key.credentialId!,
+        transports: key.transports,
+      })),
+    };
+  }
+
+  // secret is the encrypted TOTP secret; backup codes are kept only for the first factor
+  static async addTotp(
+    userId: string,
+    secret: string,
+    name: string,
+    encryptedBackupCodes: string[]
+  ): Promise<MfaEnrollResult> {
+    return this.enroll(userId, { type: "TOTP", name, secret }, encryptedBackupCodes);
+  }
+
+  static async securityKeyRegistrationOptions(user: { id: string; email: string; name: string | null }) {
+    const existing = await prisma.mfaFactor.findMany({
+      where: { userId: user.id, type: "SECURITY_KEY" },
+      select: { credentialId: true, transports: true },
+    });
+
+    return {
+      challenge: await createChallenge("REGISTRATION", user.id),
+      rp: { id: WEBAUTHN_CONFIG.rpId, name: WEBAUTHN_CONFIG.rpName },
+      user: {
+        id: Buffer.from(user.id).toString("base64url"),
+        name: user.email,
+        displayName: user.name || user.email,
+      },
+      pubKeyCredParams: Object.values(COSE_ALGORITHMS).map((alg) => ({ type: "public-key" as const, alg })),
+      timeout: WEBAUTHN_CONFIG.timeout,
+      attestation: "none" as const,
+      authenticatorSelection: {
+        residentKey: "discouraged" as const,
+        userVerification: "discouraged" as const,
+      },
+      excludeCredentials: existing.map((key) => ({
+        type: "public-key" as const,
+        id: key.credentialId!,
+        transports: key.transports,
+      })),
+    };
+  }
+
+  // Backup codes are stored and returned only when the key is the first factor
+  static async addSecurityKey(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name: string
+  ): Promise<MfaEnrollResult> {
+    const challenge = await consumeChallenge(response?.response?.clientDataJSON, "REGISTRATION", userId);
+    if (!challenge) return { success: false, reason: "challenge_expired" };
+
+    const verification = verifyRegistrationResponse(response, ceremonyExpectations(challenge, false));
+    if (!verification.success) return verification;
+
+    const taken = await prisma.mfaFactor.findUnique({
+      where: { credentialId: verification.credentialId },
+      select: { id: true },
+    });
+    if (taken) return { success: false, reason: "already_registered" };
+
+    const transports = Array.isArray(response.response.transports)
+      ? response.response.transports.filter((t): t is string => typeof t === "string")
+      : [];
+
+    const backupCodes = TOTPService.generateBackupCodes();
+    const result = await this.enroll(
+      userId,
+      {
+        type: "SECURITY_KEY",
+        name,
+        credentialId: verification.credentialId,
+        publicKey: verification.publicKey,
+        signCount: BigInt(verification.signCount),
+        transports,
+      },
+      encryptBackupCodes(backupCodes)
+    );
+    return result.success && result.firstFactor ? { ...result, backupCodes } : result;
+  }
+
+  static async setDefault(userId: string, id: string): Promise<MfaUpdateResult> {
+    const factor = await prisma.mfaFactor.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!factor) return { success: false, reason: "not_found" };
+
+    const [, updated] = await prisma.$transaction([
+      prisma.mfaFactor.updateMany({ where: { userId, isDefault: true }, data: { isDefault: false } }),
+      prisma.mfaFactor.update({ where: { id }, data: { isDefault: true }, select: MFA_FACTOR_SELECT }),
+    ]);
+    return { success: true, factor: updated };
+  }
+
+  static async rename(userId: string, id: string, name: string): Promise<MfaUpdateResult> {
+    const { count } = await prisma.mfaFactor.updateMany({ where: { id, userId }, data: { name } });
+    if (count === 0) return { success: false, reason: "not_found" };
+    const factor = await prisma.mfaFactor.findUniqueOrThrow({ where: { id }, select: MFA_FACTOR_SELECT });
+    return { success: true, factor };
+  }
+
+  // Removing the last factor turns two-factor authentication off
+  static async remove(userId: string, id: string): Promise<MfaRemoveResult> {
+    const factor = await prisma.mfaFactor.findFirst({ where: { id, userId }, select: MFA_FACTOR_SELECT });
+    if (!factor) return { success: false, reason: "not_found" };
+
+    await prisma.mfaFactor.delete({ where: { id } });
+
+    const next = await prisma.mfaFactor.findFirst({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+    if (!next) {
+      await this.disable(userId);
+      return { success: true, factor, disabled: true };
+    }
+    if (factor.isDefault) {
+      await prisma.mfaFactor.update({ where: { id: next.id }, data: { isDefault: true } });
+    }
+    return { success: true, factor, disabled: false };
+  }
+
+  static async disable(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.mfaFactor.deleteMany({ where: { userId } }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          isTOTPEnabled: false,
+          totpBackupCodes: [],
+          failedTOTPAttempts: 0,
+          totpLockUntil: null,
+        },
+      }),
+    ]);
+  }
+
+  private static async enroll(
+    userId: string,
+    data: Omit<Prisma.MfaFactorUncheckedCreateInput, "userId" | "isDefault">,
+    encryptedBackupCodes: string[]
+  ): Promise<MfaEnrollResult> {
+    const count = await prisma.mfaFactor.count({ where: { userId } });
+    if (count >= MFA_CONFIG.maxFactorsPerUser) return { success: false, reason: "limit_reached" };
+
+    const firstFactor = count === 0;
+    const factor = await prisma.mfaFactor.create({
+      data: { ...data, userId, isDefault: firstFactor },
+      select: MFA_FACTOR_SELECT,
+    });
+
+    if (firstFactor) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          isTOTPEnabled: true,
+          totpEnabledAt: new Date(),
+          totpBackupCodes: encryptedBackupCodes,
+          failedTOTPAttempts: 0,
+          totpLockUntil: null,
+          totpEnrollmentRequired: false,
+        },
+      });
+    }
+
+    createRequestLogger("mfa").info("Second factor enrolled", {
+      userId,
+      factorId: factor.id,
+      type: factor.type,
+      firstFactor,
+    });
+    return { success: true, factor, firstFactor };
+  }
+}
@@ -0,0 +1,21 @@
+// lib/otp-config.ts
+export const OTP_CONFIG = {
+  // Code settings
+  ttl: 10 * 60 * 1000, // 10 minutes
+  maxAttemptsPerCode: 5, // Code is invalidated after this many wrong guesses
+
+  // Resend throttling
+  resendCooldown: 60 * 1000, // 60 seconds between sends to the same email
+  maxSendsPerEmailPerHour: 5,
+  maxSendsPerIpPerHour: 20,
+  sendHistoryRetention: 24 * 60 * 60 * 1000, // Prune send events after 1 day
+} as const;
+
+// HMAC key for stored code hashes; instrumentation.ts checks it at startup
+export function otpHashSecret(): string {
+  const secret = process.env.OTP_HASH_SECRET;
+  if (!secret) {
+    throw new Error("OTP_HASH_SECRET is not configured");
+  }
+  return secret;
+}
@@ -0,0 +1,99 @@
+// lib/otp-delivery.ts
+// Sends a code stored with storeOTP() to the user over email or SMS (server only).
+// The code is the same either way; only the channel differs. SMS is used when
+// the user asked for it (their saved otpChannel, or a per-request choice such
+// as "text me instead") and has a verified phone number; otherwise email.
+import { sendEmail } from "@/lib/email";
+import { sendSms } from "@/lib/sms";
+import { MagicLinkService } from "@/lib/magic-link";
+import { OTP_CONFIG } from "@/lib/otp-config";
+import type { LoginCodeDelivery } from "@/lib/audit-events";
+import type { OtpChannel } from "@/app/generated/prisma";
+
+export type OTPChannel = "email" | "sms";
+
+export const OTP_CHANNELS: OTPChannel[] = ["email", "sms"];
+
+export const OTP_CHANNEL_TO_DB: Record<OTPChannel, OtpChannel> = { email: "EMAIL", sms: "SMS" };
+
+export function isOTPChannel(value: unknown): value is OTPChannel {
+  return typeof value === "string" && (OTP_CHANNELS as string[]).includes(value);
+}
+
+export const OTP_RECIPIENT_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  phoneNumber: true,
+  phoneVerifiedAt: true,
+  otpChannel: true,
+} as const;
+
+export interface OTPRecipient {
+  id: string;
+  email: string;
+  name: string | null;
+  phoneNumber: string | null;
+  phoneVerifiedAt: Date | null;
+  otpChannel: OtpChannel;
+}
+
+export interface OTPDeliveryResult {
+  sent: boolean;
+  channel: OTPChannel;
+  magicLink: boolean; // A sign-in email also carried a magic link
+}
+
+const OTP_TTL_MINUTES = Math.round(OTP_CONFIG.ttl / (60 * 1000));
+
+const SMS_TEXT: Record<"login" | "password_reset" | "phone_verification", (code: string) => string> = {
+  login: (code) =>
+    `${code} is your SyncTech sign-in code. It expires in ${OTP_TTL_MINUTES} minutes. Never share it with anyone.`,
+  password_reset: (code) =>
+    `${code} is your SyncTech password reset code. It expires in ${OTP_TTL_MINUTES} minutes. If you didn't ask for it, ignore this message.`,
+  phone_verification: (code) =>
+    `${code} is your SyncTech code to confirm this phone number. It expires in ${OTP_TTL_MINUTES} minutes.`,
+};
+
+export function smsAvailable(user: Pick<OTPRecipient, "phoneNumber" | "phoneVerifiedAt">): boolean {
+  return Boolean(user.phoneNumber && user.phoneVerifiedAt);
+}
+
+export function resolveOTPChannel(user: OTPRecipient, requested?: OTPChannel): OTPChannel {
+  const wanted = requested ?? (user.otpChannel === "SMS" ? "sms" : "email");
+  return wanted === "sms" && smsAvailable(user) ? "sms" : "email";
+}
+
+// transactionId is the LoginTransaction waiting for the code; a magic link
+// sent with a login code only works for that transaction
+export async function deliverOTP(
+  user: OTPRecipient,
+  code: string,
+  purpose: "login" | "password_reset",
+  transactionId: string,
+  requested?: OTPChannel
+): Promise<OTPDeliveryResult> {
+  const channel = resolveOTPChannel(user, requested);
+
+  if (channel === "sms") {
+    const sent = await sendSms({ to: user.phoneNumber!, body: SMS_TEXT[purpose](code) });
+    return { sent, channel, magicLink: false };
+  }
+
+  if (purpose === "login") {
+    return { ...(await MagicLinkService.sendLoginEmail(user, code, transactionId)), channel };
+  }
+
+  const sent = await sendEmail(user.email, "password_reset_otp", { name: user.name || "User", code });
+  return { sent, channel, magicLink: false };
+}
+
+export function describeDelivery(result: OTPDeliveryResult): LoginCodeDelivery {
+  if (result.channel === "sms") return "sms";
+  return result.magicLink ? "magic_link" : "code";
+}
+
+// Confirms a number before it is saved; the code is keyed by the number itself
+export async function sendPhoneVerificationCode(phoneNumber: string, code: string): Promise<boolean> {
+  return sendSms({ to: phoneNumber, body: SMS_TEXT.phone_verification(code) });
+}
@@ -0,0 +1,251 @@
+// lib/otp-store.ts
+// Storage backends for OTP codes.
+// Codes are stored hashed; the plain code only ever exists in the email or SMS.
+// PrismaOTPStore is the default and works across instances and cold starts.
+// MemoryOTPStore is a test adapter only — it does not survive a restart and
+// is not shared between Next.js instances.
+import { prisma } from "@/lib/prisma";
+import type { OtpPurpose } from "@/app/generated/prisma";
+
+export type OTPPurpose = "login" | "register" | "password_reset" | "phone_verification";
+
+export interface OTPEntry {
+  identifier: string;
+  purpose: OTPPurpose;
+  codeHash: string;
+  attempts: number;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface OTPSendEvent {
+  identifier: string;
+  purpose: OTPPurpose;
+  ipAddress: string;
+  createdAt: Date;
+}
+
+// Earlier sends seen by reserveSend(), oldest first
+export interface OTPSendHistory {
+  identifierSends: Date[];
+  ipSends: Date[];
+}
+
+export interface OTPStore {
+  // Replaces any existing code for the same identifier and purpose
+  save(entry: Omit<OTPEntry, "attempts" | "createdAt">): Promise<void>;
+  find(identifier: string, purpose: OTPPurpose): Promise<OTPEntry | null>;
+  // Counts a guess before it is checked, unless maxAttempts are used up.
+  // Returns the attempt count after incrementing, or null when no guess is
+  // left or the code is gone; concurrent guesses can't exceed the cap.
+  claimAttempt(identifier: string, purpose: OTPPurpose, maxAttempts: number): Promise<number | null>;
+  // True if a code was removed; only one concurrent caller gets true
+  delete(identifier: string, purpose: OTPPurpose): Promise<boolean>;
+  deleteExpired(now?: Date): Promise<number>;
+
+  // Resend throttling: records the send when `decide` allows it given the
+  // sends for the same identifier and IP since `since`. Reservations for the
+  // same identifier or IP run one at a time so both can't see the same history.
+  reserveSend<T extends { allowed: boolean }>(
+    event: Omit<OTPSendEvent, "createdAt">,
+    since: Date,
+    decide: (history: OTPSendHistory) => T
+  ): Promise<T>;
+  pruneSends(before: Date): Promise<number>;
+}
+
+// pg_advisory_xact_lock namespaces serializing reserveSend()
+const OTP_SEND_IDENTIFIER_LOCK = 0x6f747069;
+const OTP_SEND_IP_LOCK = 0x6f747070;
+
+const PURPOSE_TO_DB: Record<OTPPurpose, OtpPurpose> = {
+  login: "LOGIN",
+  register: "REGISTER",
+  password_reset: "PASSWORD_RESET",
+  phone_verification: "PHONE_VERIFICATION",
+};
+
+const PURPOSE_FROM_DB: Record<OtpPurpose, OTPPurpose> = {
+  LOGIN: "login",
+  REGISTER: "register",
+  PASSWORD_RESET: "password_reset",
+  PHONE_VERIFICATION: "phone_verification",
+};
+
+export class PrismaOTPStore implements OTPStore {
+  async save(entry: Omit<OTPEntry, "attempts" | "createdAt">): Promise<void> {
+    const purpose = PURPOSE_TO_DB[entry.purpose];
+    await prisma.otpCode.upsert({
+      where: { identifier_purpose: { identifier: entry.identifier, purpose } },
+      create: {
+        identifier: entry.identifier,
+        purpose,
+        codeHash: entry.codeHash,
+        expiresAt: entry.expiresAt,
+      },
+      update: {
+        codeHash: entry.codeHash,
+        expiresAt: entry.expiresAt,
+        attempts: 0,
+        createdAt: new Date(),
+      },
+    });
+  }
+
+  async find(identifier: string, purpose: OTPPurpose): Promise<OTPEntry | null> {
+    const row = await prisma.otpCode.findUnique({
+      where: { identifier_purpose: { identifier, purpose: PURPOSE_TO_DB[purpose] } },
+    });
+    if (!row) return null;
+    return {
+      identifier: row.identifier,
+      purpose: PURPOSE_FROM_DB[row.purpose],
+      codeHash: row.codeHash,
+      attempts: row.attempts,
+      expiresAt: row.expiresAt,
+      createdAt: row.createdAt,
+    };
+  }
+
+  async claimAttempt(identifier: string, purpose: OTPPurpose, maxAttempts: number): Promise<number | null> {
+    const where = { identifier, purpose: PURPOSE_TO_DB[purpose] };
+    const { count } = await prisma.otpCode.updateMany({
+      where: { ...where, attempts: { lt: maxAttempts } },
+      data: { attempts: { increment: 1 } },
+    });
+    if (count === 0) return null;
+
+    const row = await prisma.otpCode.findFirst({ where, select: { attempts: true } });
+    return row ? Math.min(row.attempts, maxAttempts) : null;
+  }
+
+  async delete(identifier: string, purpose: OTPPurpose): Promise<boolean> {
+    const { count } = await prisma.otpCode.deleteMany({
+      where: { identifier, purpose: PURPOSE_TO_DB[purpose] },
+    });
+    return count > 0;
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.otpCode.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+    return count;
+  }
+
+  async reserveSend<T extends { allowed: boolean }>(
+    event: Omit<OTPSendEvent, "createdAt">,
+    since: Date,
+    decide: (history: OTPSendHistory) => T
+  ): Promise<T> {
+    return prisma.$transaction(async (tx) => {
+      // Always identifier first, then IP, so two reservations can't deadlock
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${OTP_SEND_IDENTIFIER_LOCK}::int, hashtext(${event.identifier}))`;
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${OTP_SEND_IP_LOCK}::int, hashtext(${event.ipAddress}))`;
+
+      const sendsSince = async (where: { identifier: string } | { ipAddress: string }) => {
+        const rows = await tx.otpSendEvent.findMany({
+          where: { ...where, createdAt: { gte: since } },
+          select: { createdAt: true },
+          orderBy: { createdAt: "asc" },
+        });
+        return rows.map((row) => row.createdAt);
+      };
+
+      const result = decide({
+        identifierSends: await sendsSince({ identifier: event.identifier }),
+        ipSends: await sendsSince({ ipAddress: event.ipAddress }),
+      });
+      if (result.allowed) {
+        await tx.otpSendEvent.create({
+          data: {
+            identifier: event.identifier,
+            purpose: PURPOSE_TO_DB[event.purpose],
+            ipAddress: event.ipAddress,
+          },
+        });
+      }
+      return result;
+    });
+  }
+
+  async pruneSends(before: Date): Promise<number> {
+    const { count } = await prisma.otpSendEvent.deleteMany({
+      where: { createdAt: { lt: before } },
+    });
+    return count;
+  }
+}
+
+export class MemoryOTPStore implements OTPStore {
+  private entries = new Map<string, OTPEntry>();
+  private sends: OTPSendEvent[] = [];
+
+  private key(identifier: string, purpose: OTPPurpose): string {
+    return `${purpose}:${identifier}`;
+  }
+
+  async save(entry: Omit<OTPEntry, "attempts" | "createdAt">): Promise<void> {
+    this.entries.set(this.key(entry.identifier, entry.purpose), {
+      ...entry,
+      attempts: 0,
+      createdAt: new Date(),
+    });
+  }
+
+  async find(identifier: string, purpose: OTPPurpose): Promise<OTPEntry | null> {
+    const entry = this.entries.get(this.key(identifier, purpose));
+    return entry ? { ...entry } : null;
+  }
+
+  async claimAttempt(identifier: string, purpose: OTPPurpose, maxAttempts: number): Promise<number | null> {
+    const entry = this.entries.get(this.key(identifier, purpose));
+    if (!entry || entry.attempts >= maxAttempts) return null;
+    entry.attempts += 1;
+    return entry.attempts;
+  }
+
+  async delete(identifier: string, purpose: OTPPurpose): Promise<boolean> {
+    return this.entries.delete(this.key(identifier, purpose));
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    let cleaned = 0;
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt < now) {
+        this.entries.delete(key);
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+
+  // No await between reading and recording, so reservations can't interleave
+  async reserveSend<T extends { allowed: boolean }>(
+    event: Omit<OTPSendEvent, "createdAt">,
+    since: Date,
+    decide: (history: OTPSendHistory) => T
+  ): Promise<T> {
+    const sendsSince = (match: (e: OTPSendEvent) => boolean) =>
+      this.sends
+        .filter((e) => e.createdAt >= since && match(e))
+        .map((e) => e.createdAt)
+        .sort((a, b) => a.getTime() - b.getTime());
+
+    const result = decide({
+      identifierSends: sendsSince((e) => e.identifier === event.identifier),
+      ipSends: sendsSince((e) => e.ipAddress === event.ipAddress),
+    });
+    if (result.allowed) {
+      this.sends.push({ ...event, createdAt: new Date() });
+    }
+    return result;
+  }
+
+  async pruneSends(before: Date): Promise<number> {
+    const kept = this.sends.filter((e) => e.createdAt >= before);
+    const pruned = this.sends.length - kept.length;
+    this.sends = kept;
+    return pruned;
+  }
+}
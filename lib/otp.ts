@@ -1,93 +1,214 @@
-// lib/otp.ts - USING GLOBAL VARIABLE
-// This works in some serverless environments
+// lib/otp.ts
+// OTP generation and verification backed by a pluggable OTPStore.
+// Codes are keyed by the account's email whichever channel delivers them
+// (see lib/otp-delivery.ts); phone verification keys them by the number.
+// Defaults to the database store so codes survive cold starts and are shared
+// between instances. Tests can swap in MemoryOTPStore via setOTPStore().
+import crypto from "crypto";
+import { createRequestLogger } from "@/lib/logger";
+import { OTP_CONFIG, otpHashSecret } from "@/lib/otp-config";
+import { PrismaOTPStore, type OTPPurpose, type OTPStore } from "@/lib/otp-store";
 
-// Use globalThis to make it persistent across function invocations
-declare global {
-  var otpStore: Map<string, { otp: string; expiresAt: number }> | undefined;
+export type { OTPPurpose } from "@/lib/otp-store";
+
+export type OTPCheckResult =
+  | { success: true }
+  | {
+      success: false;
+      reason: "not_found" | "expired" | "mismatch" | "too_many_attempts";
+      attemptsRemaining?: number;
+    };
+
+export type OTPSendThrottleResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: "cooldown" | "email_hourly_limit" | "ip_hourly_limit";
+      retryAfterSeconds: number;
+    };
+
+let otpStore: OTPStore = new PrismaOTPStore();
+
+export function getOTPStore(): OTPStore {
+  return otpStore;
 }
 
-function getOtpStore() {
-  if (!globalThis.otpStore) {
-    globalThis.otpStore = new Map<string, { otp: string; expiresAt: number }>();
-    console.log("🔄 Created new global OTP store");
-  }
-  return globalThis.otpStore;
+export function setOTPStore(store: OTPStore): void {
+  otpStore = store;
+}
+
+function normalizeIdentifier(identifier: string): string {
+  return identifier.trim().toLowerCase();
+}
+
+// Bind the hash to identifier and purpose so a code can't be replayed across flows
+function hashOTP(identifier: string, purpose: OTPPurpose, otp: string): string {
+  return crypto
+    .createHmac("sha256", otpHashSecret())
+    .update(`${purpose}:${identifier}:${otp}`)
+    .digest("hex");
 }
 
 export function generateOTP(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+  return crypto.randomInt(100000, 1000000).toString();
 }
 
-export async function storeOTP(email: string, otp: string): Promise<void> {
-  const store = getOtpStore();
-  const expiresAt = Date.now() + 10 * 60 * 1000; // 10 minutes
+export async function storeOTP(
+  email: string,
+  otp: string,
+  purpose: OTPPurpose = "login"
+): Promise<void> {
+  const log = createRequestLogger("otp/store");
+  const identifier = normalizeIdentifier(email);
+  const expiresAt = new Date(Date.now() + OTP_CONFIG.ttl);
 
-  store.set(email, {
-    otp,
+  await otpStore.save({
+    identifier,
+    purpose,
+    codeHash: hashOTP(identifier, purpose, otp),
     expiresAt,
   });
-  console.log(
-    `🔐 OTP stored for ${email}: ${otp}, expires at: ${new Date(
-      expiresAt
-    ).toISOString()}`
-  );
-  console.log(`📊 Current store size: ${store.size}`);
-  console.log(`📋 Store contents:`, Array.from(store.entries()));
+  log.debug("OTP stored", { purpose, expiresAt: expiresAt.toISOString() });
 }
 
-export async function verifyOTP(email: string, otp: string): Promise<boolean> {
-  const store = getOtpStore();
-  const stored = store.get(email);
-
-  console.log(`🔍 OTP Verification Check:`);
-  console.log(`   - Email: ${email}`);
-  console.log(`   - Provided OTP: ${otp}`);
-  console.log(`   - Stored OTP: ${stored?.otp || "NOT FOUND"}`);
-  console.log(`   - Current time: ${new Date().toISOString()}`);
-  console.log(
-    `   - Expires at: ${
-      stored ? new Date(stored.expiresAt).toISOString() : "N/A"
-    }`
-  );
-  console.log(`   - Store size: ${store.size}`);
-  console.log(`   - Store contents:`, Array.from(store.entries()));
+// Verifies a code and reports why it failed. Each code allows
+// OTP_CONFIG.maxAttemptsPerCode wrong guesses before it is invalidated.
+export async function checkOTP(
+  email: string,
+  otp: string,
+  purpose: OTPPurpose = "login"
+): Promise<OTPCheckResult> {
+  const log = createRequestLogger("otp/verify");
+  const identifier = normalizeIdentifier(email);
+  const stored = await otpStore.find(identifier, purpose);
 
   if (!stored) {
-    console.log("❌ OTP not found for email");
-    return false;
+    log.debug("OTP not found", { purpose });
+    return { success: false, reason: "not_found" };
+  }
+
+  if (Date.now() > stored.expiresAt.getTime()) {
+    log.debug("OTP expired", { purpose });
+    await otpStore.delete(identifier, purpose);
+    return { success: false, reason: "expired" };
+  }
+
+  // The guess is counted before it is checked, so parallel guesses can't
+  // get past the cap
+  const attempts = await otpStore.claimAttempt(identifier, purpose, OTP_CONFIG.maxAttemptsPerCode);
+  if (attempts === null) {
+    await otpStore.delete(identifier, purpose);
+    return { success: false, reason: "too_many_attempts" };
   }
 
-  if (Date.now() > stored.expiresAt) {
-    console.log("❌ OTP expired");
-    store.delete(email);
-    return false;
+  const expected = Buffer.from(stored.codeHash, "hex");
+  const actual = Buffer.from(hashOTP(identifier, purpose, String(otp).trim()), "hex");
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    log.debug("OTP mismatch", { purpose, attempts });
+
+    if (attempts >= OTP_CONFIG.maxAttemptsPerCode) {
+      await otpStore.delete(identifier, purpose);
+      log.info("OTP invalidated after too many attempts", { purpose });
+      return { success: false, reason: "too_many_attempts" };
+    }
+    return {
+      success: false,
+      reason: "mismatch",
+      attemptsRemaining: OTP_CONFIG.maxAttemptsPerCode - attempts,
+    };
   }
 
-  if (stored.otp !== otp) {
-    console.log("❌ OTP mismatch");
-    return false;
+  // Deleting spends the code; a concurrent correct guess finds it gone
+  if (!(await otpStore.delete(identifier, purpose))) {
+    return { success: false, reason: "not_found" };
   }
+  log.debug("OTP verified", { purpose });
+  return { success: true };
+}
+
+// Drops an outstanding code, e.g. once the sign-in finished another way
+export async function discardOTP(email: string, purpose: OTPPurpose = "login"): Promise<void> {
+  await otpStore.delete(normalizeIdentifier(email), purpose);
+}
 
-  console.log("✅ OTP verified successfully");
-  store.delete(email);
-  return true;
+export async function verifyOTP(
+  email: string,
+  otp: string,
+  purpose: OTPPurpose = "login"
+): Promise<boolean> {
+  const result = await checkOTP(email, otp, purpose);
+  return result.success;
 }
 
-export function cleanupExpiredOTPs(): void {
-  const store = getOtpStore();
-  const now = Date.now();
-  let cleaned = 0;
+// Enforces the resend cooldown and hourly caps per email and per IP.
+// When allowed, the send is recorded in the same step as the check, so
+// concurrent requests count against the same budget.
+export async function reserveOTPSend(
+  email: string,
+  purpose: OTPPurpose,
+  ipAddress: string
+): Promise<OTPSendThrottleResult> {
+  const log = createRequestLogger("otp/throttle");
+  const identifier = normalizeIdentifier(email);
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+
+  return otpStore.reserveSend(
+    { identifier, purpose, ipAddress },
+    hourAgo,
+    ({ identifierSends: emailSends, ipSends }): OTPSendThrottleResult => {
+      const now = Date.now();
+      const lastSend = emailSends[emailSends.length - 1];
+      if (lastSend && now - lastSend.getTime() < OTP_CONFIG.resendCooldown) {
+        return {
+          allowed: false,
+          reason: "cooldown",
+          retryAfterSeconds: secondsUntil(lastSend.getTime() + OTP_CONFIG.resendCooldown, now),
+        };
+      }
+
+      if (emailSends.length >= OTP_CONFIG.maxSendsPerEmailPerHour) {
+        log.warn("Hourly OTP send cap reached for email", { purpose });
+        return {
+          allowed: false,
+          reason: "email_hourly_limit",
+          retryAfterSeconds: secondsUntil(emailSends[0].getTime() + 60 * 60 * 1000, now),
+        };
+      }
+
+      if (ipSends.length >= OTP_CONFIG.maxSendsPerIpPerHour) {
+        log.warn("Hourly OTP send cap reached for IP", { purpose });
+        return {
+          allowed: false,
+          reason: "ip_hourly_limit",
+          retryAfterSeconds: secondsUntil(ipSends[0].getTime() + 60 * 60 * 1000, now),
+        };
+      }
 
-  for (const [email, data] of store.entries()) {
-    if (now > data.expiresAt) {
-      store.delete(email);
-      cleaned++;
+      return { allowed: true };
     }
+  );
+}
+
+export function describeOTPThrottle(
+  result: Extract<OTPSendThrottleResult, { allowed: false }>
+): string {
+  if (result.reason === "cooldown") {
+    return `Please wait ${result.retryAfterSeconds} seconds before requesting another code.`;
   }
+  const minutes = Math.ceil(result.retryAfterSeconds / 60);
+  return `Too many verification codes requested. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
 
+function secondsUntil(timestamp: number, now: number): number {
+  return Math.max(1, Math.ceil((timestamp - now) / 1000));
+}
+
+export async function cleanupExpiredOTPs(): Promise<number> {
+  const cleaned =
+    (await otpStore.deleteExpired()) +
+    (await otpStore.pruneSends(new Date(Date.now() - OTP_CONFIG.sendHistoryRetention)));
   if (cleaned > 0) {
-    console.log(`🧹 Cleaned up ${cleaned} expired OTPs`);
+    createRequestLogger("otp/cleanup").info("Cleaned up expired OTPs", { cleaned });
   }
+  return cleaned;
 }
-
-setInterval(cleanupExpiredOTPs, 60 * 60 * 1000);
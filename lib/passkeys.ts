@@ -0,0 +1,222 @@
+// lib/passkeys.ts
+// Passkey registration, sign-in and management (server only).
+// Each ceremony is two requests: *Options() stores a single-use challenge and
+// returns the options for navigator.credentials.create()/get(); finish*()
+// consumes the challenge and verifies the browser's response (lib/webauthn.ts).
+//
+// Sign-in is usernameless: passkeys are created as discoverable credentials,
+// so the authenticator tells us which account it belongs to. User
+// verification (biometric or device PIN) is required, which makes a passkey
+// sign-in two factors on its own.
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { WEBAUTHN_CONFIG } from "@/lib/webauthn-config";
+import {
+  COSE_ALGORITHMS,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+  type WebAuthnFailureReason,
+} from "@/lib/webauthn";
+import { ceremonyExpectations, consumeChallenge, createChallenge } from "@/lib/webauthn-challenge";
+
+export interface PasskeyView {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+const PASSKEY_VIEW_SELECT = {
+  id: true,
+  name: true,
+  transports: true,
+  backedUp: true,
+  createdAt: true,
+  lastUsedAt: true,
+} as const;
+
+export type PasskeyRegistrationResult =
+  | { success: true; passkey: PasskeyView }
+  | {
+      success: false;
+      reason: "challenge_expired" | "already_registered" | "limit_reached" | WebAuthnFailureReason;
+    };
+
+export type PasskeyAuthenticationResult =
+  | { success: true; userId: string; passkey: PasskeyView }
+  | {
+      success: false;
+      reason: "challenge_expired" | "unknown_credential" | WebAuthnFailureReason;
+      userId?: string; // Set once the credential is known
+    };
+
+export type PasskeyUpdateResult =
+  | { success: true; passkey: PasskeyView }
+  | { success: false; reason: "not_found" };
+
+export function parsePasskeyName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.trim();
+  if (!name || name.length > WEBAUTHN_CONFIG.nameMaxLength) return null;
+  return name;
+}
+
+export class PasskeyService {
+  static async registrationOptions(user: { id: string; email: string; name: string | null }) {
+    const existing = await prisma.passkey.findMany({
+      where: { userId: user.id },
+      select: { credentialId: true, transports: true },
+    });
+
+    return {
+      challenge: await createChallenge("REGISTRATION", user.id),
+      rp: { id: WEBAUTHN_CONFIG.rpId, name: WEBAUTHN_CONFIG.rpName },
+      user: {
+        id: Buffer.from(user.id).toString("base64url"),
+        name: user.email,
+        displayName: user.name || user.email,
+      },
+      pubKeyCredParams: Object.values(COSE_ALGORITHMS).map((alg) => ({ type: "public-key" as const, alg })),
+      timeout: WEBAUTHN_CONFIG.timeout,
+      attestation: "none" as const,
+      authenticatorSelection: {
+        residentKey: "required" as const,
+        requireResidentKey: true,
+        userVerification: "required" as const,
+      },
+      // Stops the same authenticator from being registered twice
+      excludeCredentials: existing.map((p) => ({
+        type: "public-key" as const,
+        id: p.credentialId,
+        transports: p.transports,
+      })),
+    };
+  }
+
+  static async finishRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name: string
+  ): Promise<PasskeyRegistrationResult> {
+    const log = createRequestLogger("passkeys");
+
+    const challenge = await consumeChallenge(response?.response?.clientDataJSON, "REGISTRATION", userId);
+    if (!challenge) return { success: false, reason: "challenge_expired" };
+
+    const verification = verifyRegistrationResponse(response, ceremonyExpectations(challenge, true));
+    if (!verification.success) {
+      log.warn("Passkey registration rejected", { userId, reason: verification.reason });
+      return verification;
+    }
+
+    const count = await prisma.passkey.count({ where: { userId } });
+    if (count >= WEBAUTHN_CONFIG.maxPasskeysPerUser) {
+      return { success: false, reason: "limit_reached" };
+    }
+
+    const taken = await prisma.passkey.findUnique({
+      where: { credentialId: verification.credentialId },
+      select: { id: true },
+    });
+    if (taken) return { success: false, reason: "already_registered" };
+
+    const transports = Array.isArray(response.response.transports)
+      ? response.response.transports.filter((t): t is string => typeof t === "string")
+      : [];
+
+    const passkey = await prisma.passkey.create({
+      data: {
+        userId,
+        credentialId: verification.credentialId,
+        publicKey: verification.publicKey,
+        signCount: BigInt(verification.signCount),
+        transports,
+        name,
+        backedUp: verification.backedUp,
+      },
+      select: PASSKEY_VIEW_SELECT,
+    });
+
+    log.info("Passkey registered", { userId, passkeyId: passkey.id });
+    return { success: true, passkey };
+  }
+
+  static async authenticationOptions() {
+    return {
+      challenge: await createChallenge("AUTHENTICATION"),
+      rpId: WEBAUTHN_CONFIG.rpId,
+      timeout: WEBAUTHN_CONFIG.timeout,
+      userVerification: "required" as const,
+      allowCredentials: [], // Discoverable credentials: the authenticator picks the account
+    };
+  }
+
+  static async finishAuthentication(
+    response: AuthenticationResponseJSON
+  ): Promise<PasskeyAuthenticationResult> {
+    const log = createRequestLogger("passkeys");
+
+    const challenge = await consumeChallenge(response?.response?.clientDataJSON, "AUTHENTICATION");
+    if (!challenge) return { success: false, reason: "challenge_expired" };
+
+    const passkey = await prisma.passkey.findUnique({
+      where: { credentialId: String(response.id) },
+      select: { id: true, userId: true, publicKey: true, signCount: true },
+    });
+    if (!passkey) return { success: false, reason: "unknown_credential" };
+
+    // The user handle, when sent, must name the account the passkey is stored under
+    const userHandle = response.response.userHandle;
+    if (userHandle && userHandle !== Buffer.from(passkey.userId).toString("base64url")) {
+      return { success: false, reason: "credential_mismatch", userId: passkey.userId };
+    }
+
+    const verification = verifyAuthenticationResponse(
+      response,
+      { publicKey: passkey.publicKey, signCount: Number(passkey.signCount) },
+      ceremonyExpectations(challenge, true)
+    );
+    if (!verification.success) {
+      log.warn("Passkey sign-in rejected", { passkeyId: passkey.id, reason: verification.reason });
+      return { ...verification, userId: passkey.userId };
+    }
+
+    const updated = await prisma.passkey.update({
+      where: { id: passkey.id },
+      data: {
+        signCount: BigInt(verification.signCount),
+        backedUp: verification.backedUp,
+        lastUsedAt: new Date(),
+      },
+      select: PASSKEY_VIEW_SELECT,
+    });
+
+    return { success: true, userId: passkey.userId, passkey: updated };
+  }
+
+  static async list(userId: string): Promise<PasskeyView[]> {
+    return prisma.passkey.findMany({
+      where: { userId },
+      select: PASSKEY_VIEW_SELECT,
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  static async rename(userId: string, id: string, name: string): Promise<PasskeyUpdateResult> {
+    const { count } = await prisma.passkey.updateMany({ where: { id, userId }, data: { name } });
+    if (count === 0) return { success: false, reason: "not_found" };
+    const passkey = await prisma.passkey.findUniqueOrThrow({ where: { id }, select: PASSKEY_VIEW_SELECT });
+    return { success: true, passkey };
+  }
+
+  static async remove(userId: string, id: string): Promise<PasskeyUpdateResult> {
+    const passkey = await prisma.passkey.findFirst({ where: { id, userId }, select: PASSKEY_VIEW_SELECT });
+    if (!passkey) return { success: false, reason: "not_found" };
+    await prisma.passkey.delete({ where: { id } });
+    return { success: true, passkey };
+  }
+}
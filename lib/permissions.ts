@@ -0,0 +1,51 @@
+// lib/permissions.ts
+// Named permissions and the can() check (Edge-compatible: no database access).
+// Built-in roles (the UserRole enum) map to fixed permission sets; custom roles
+// stored in the `roles` table add permissions on top (see lib/roles.ts). The
+// effective list is embedded in the access token as the `permissions` claim.
+
+export const PERMISSIONS = {
+  "admin:access": "Open the admin dashboard",
+  "users:read": "List and view user accounts",
+  "users:write": "Edit user profiles and status",
+  "users:delete": "Delete user accounts",
+  "users:unlock": "Unlock accounts locked after failed logins",
+  "roles:manage": "Create and edit roles and assign them to users",
+  "audit:read": "View the audit log",
+  "2fa:reset": "Reset a user's two-factor authentication",
+  "emails:read": "View outbound email delivery status",
+  "emails:retry": "Requeue emails that failed delivery",
+  "settings:manage": "Change sign-in settings such as magic links",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export const BUILT_IN_ROLE_PERMISSIONS: Record<"USER" | "ADMIN", Permission[]> = {
+  USER: [],
+  ADMIN: ALL_PERMISSIONS,
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && value in PERMISSIONS;
+}
+
+export interface PermissionSubject {
+  role?: string;
+  permissions?: string[];
+}
+
+// Tokens issued before the permissions claim existed fall back to the
+// built-in permissions of their role.
+export function can(
+  user: PermissionSubject | null | undefined,
+  permission: Permission
+): boolean {
+  if (!user) return false;
+  if (Array.isArray(user.permissions)) {
+    return user.permissions.includes(permission);
+  }
+  const role = String(user.role || "").toUpperCase() as keyof typeof BUILT_IN_ROLE_PERMISSIONS;
+  return BUILT_IN_ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
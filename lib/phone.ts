@@ -0,0 +1,115 @@
+// lib/phone.ts
+// The optional phone number used for SMS codes (server only).
+// A number is saved only after the user proves they receive texts on it:
+// sendCode() texts a code keyed by the number, confirm() checks it and stores
+// the number as verified. Choosing SMS for login and reset codes needs one.
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { checkOTP, generateOTP, reserveOTPSend, storeOTP, type OTPSendThrottleResult } from "@/lib/otp";
+import { OTP_CHANNEL_TO_DB, sendPhoneVerificationCode, smsAvailable, type OTPChannel } from "@/lib/otp-delivery";
+import { maskPhoneNumber } from "@/lib/sms";
+import type { Prisma } from "@/app/generated/prisma";
+
+export interface PhoneView {
+  phoneNumber: string | null;
+  verifiedAt: Date | null;
+  otpChannel: OTPChannel;
+}
+
+export type PhoneSendCodeResult =
+  | { success: true }
+  | { success: false; reason: "taken" | "send_failed" }
+  | { success: false; reason: "throttled"; throttle: Extract<OTPSendThrottleResult, { allowed: false }> };
+
+export type PhoneConfirmResult =
+  | { success: true; phone: PhoneView }
+  | {
+      success: false;
+      reason: "taken" | "not_found" | "expired" | "mismatch" | "too_many_attempts";
+      attemptsRemaining?: number;
+    };
+
+export type PhoneUpdateResult =
+  | { success: true; phone: PhoneView }
+  | { success: false; reason: "no_phone" };
+
+const PHONE_SELECT = { phoneNumber: true, phoneVerifiedAt: true, otpChannel: true } as const;
+
+function toView(user: Prisma.UserGetPayload<{ select: typeof PHONE_SELECT }>): PhoneView {
+  return {
+    phoneNumber: user.phoneNumber,
+    verifiedAt: user.phoneVerifiedAt,
+    otpChannel: user.otpChannel === "SMS" ? "sms" : "email",
+  };
+}
+
+async function takenByAnotherUser(userId: string, phoneNumber: string): Promise<boolean> {
+  const owner = await prisma.user.findUnique({ where: { phoneNumber }, select: { id: true } });
+  return owner !== null && owner.id !== userId;
+}
+
+export class PhoneService {
+  static async view(userId: string): Promise<PhoneView> {
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: PHONE_SELECT });
+    return toView(user);
+  }
+
+  static async sendCode(userId: string, phoneNumber: string, ipAddress: string): Promise<PhoneSendCodeResult> {
+    if (await takenByAnotherUser(userId, phoneNumber)) return { success: false, reason: "taken" };
+
+    const throttle = await reserveOTPSend(phoneNumber, "phone_verification", ipAddress);
+    if (!throttle.allowed) return { success: false, reason: "throttled", throttle };
+
+    const code = generateOTP();
+    await storeOTP(phoneNumber, code, "phone_verification");
+    if (!(await sendPhoneVerificationCode(phoneNumber, code))) {
+      return { success: false, reason: "send_failed" };
+    }
+
+    createRequestLogger("phone").info("Phone verification code sent", {
+      userId,
+      phone: maskPhoneNumber(phoneNumber),
+    });
+    return { success: true };
+  }
+
+  static async confirm(userId: string, phoneNumber: string, code: string): Promise<PhoneConfirmResult> {
+    const check = await checkOTP(phoneNumber, code, "phone_verification");
+    if (!check.success) return check;
+
+    // Another account may have verified it since sendCode()
+    if (await takenByAnotherUser(userId, phoneNumber)) return { success: false, reason: "taken" };
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { phoneNumber, phoneVerifiedAt: new Date() },
+      select: PHONE_SELECT,
+    });
+    return { success: true, phone: toView(user) };
+  }
+
+  static async setChannel(userId: string, channel: OTPChannel): Promise<PhoneUpdateResult> {
+    const current = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: PHONE_SELECT });
+    if (channel === "sms" && !smsAvailable(current)) {
+      return { success: false, reason: "no_phone" };
+    }
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { otpChannel: OTP_CHANNEL_TO_DB[channel] },
+      select: PHONE_SELECT,
+    });
+    return { success: true, phone: toView(user) };
+  }
+
+  // Codes go back to email once the number is gone
+  static async remove(userId: string): Promise<PhoneUpdateResult> {
+    const current = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: PHONE_SELECT });
+    if (!current.phoneNumber) return { success: false, reason: "no_phone" };
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { phoneNumber: null, phoneVerifiedAt: null, otpChannel: "EMAIL" },
+      select: PHONE_SELECT,
+    });
+    return { success: true, phone: toView(user) };
+  }
+}
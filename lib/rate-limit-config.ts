@@ -0,0 +1,52 @@
+// lib/rate-limit-config.ts
+// Sliding-window limits declared per auth route.
+// Each rule counts requests within `windowMs`, keyed by client IP, by the
+// email in the request body, or by both together.
+export type RateLimitKeyType = "ip" | "email" | "ip_email";
+
+export interface RateLimitRule {
+  by: RateLimitKeyType;
+  limit: number;
+  windowMs: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const RATE_LIMITS = {
+  "auth/login": [
+    { by: "ip", limit: 20, windowMs: 15 * MINUTE },
+    { by: "email", limit: 10, windowMs: 15 * MINUTE },
+  ],
+  "auth/login/request-otp": [
+    { by: "ip", limit: 20, windowMs: 15 * MINUTE },
+    { by: "email", limit: 10, windowMs: 15 * MINUTE },
+  ],
+  "auth/verify-otp": [{ by: "ip", limit: 30, windowMs: 15 * MINUTE }],
+  "auth/verify-totp": [{ by: "ip", limit: 30, windowMs: 15 * MINUTE }],
+  "auth/magic-link": [{ by: "ip", limit: 30, windowMs: 15 * MINUTE }],
+  "auth/passkeys/login": [{ by: "ip", limit: 30, windowMs: 15 * MINUTE }],
+  "auth/forgot-password": [
+    { by: "ip", limit: 10, windowMs: HOUR },
+    { by: "email", limit: 5, windowMs: HOUR },
+  ],
+  "auth/reset-password/verify": [{ by: "ip", limit: 20, windowMs: 15 * MINUTE }],
+  "auth/register/send-otp": [
+    { by: "ip", limit: 10, windowMs: HOUR },
+    { by: "email", limit: 5, windowMs: HOUR },
+  ],
+  "auth/register": [{ by: "ip", limit: 10, windowMs: HOUR }],
+  "auth/oauth/start": [{ by: "ip", limit: 30, windowMs: 15 * MINUTE }],
+  "auth/refresh": [{ by: "ip", limit: 120, windowMs: 15 * MINUTE }],
+  "auth/2fa/disable": [{ by: "ip_email", limit: 5, windowMs: MINUTE }],
+  "auth/phone/send-code": [{ by: "ip", limit: 10, windowMs: HOUR }],
+  "auth/phone/verify": [{ by: "ip", limit: 30, windowMs: 15 * MINUTE }],
+  "auth/bootstrap": [{ by: "ip", limit: 5, windowMs: 15 * MINUTE }],
+} satisfies Record<string, RateLimitRule[]>;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMITS;
+
+export const RATE_LIMIT_CONFIG = {
+  // "database" shares counters across instances; "memory" is for dev/tests
+  store: process.env.RATE_LIMIT_STORE === "memory" ? "memory" : "database",
+} as const;
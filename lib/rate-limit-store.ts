@@ -0,0 +1,106 @@
+// lib/rate-limit-store.ts
+// Storage backends for the sliding-window rate limiter.
+// Each allowed request is logged as a hit; a window check counts hits for a
+// key newer than `now - windowMs`. PrismaRateLimitStore shares counters across
+// instances; MemoryRateLimitStore is per-process and meant for dev and tests.
+import { prisma } from "@/lib/prisma";
+
+export interface RateLimitCheck {
+  key: string;
+  limit: number;
+  windowStart: Date;
+}
+
+export type RateLimitConsumeResult =
+  | { allowed: true }
+  | { allowed: false; key: string; oldest: Date | null }; // Oldest hit still inside the tripped window
+
+export interface RateLimitStore {
+  // Records a hit under every key when each has fewer than `limit` hits since
+  // its windowStart, and drops hits that fell out of the window. Consumes for
+  // the same key run one at a time, so concurrent requests can't all see the
+  // last free slot.
+  consume(checks: RateLimitCheck[], at: Date): Promise<RateLimitConsumeResult>;
+  reset(key: string): Promise<void>;
+  prune(before: Date): Promise<number>;
+}
+
+// pg_advisory_xact_lock namespace serializing consume() per key
+const RATE_LIMIT_KEY_LOCK = 0x726c696d;
+
+export class PrismaRateLimitStore implements RateLimitStore {
+  async consume(checks: RateLimitCheck[], at: Date): Promise<RateLimitConsumeResult> {
+    return prisma.$transaction(async (tx) => {
+      // Keys are locked in sorted order so overlapping consumes can't deadlock
+      const keys = [...new Set(checks.map((check) => check.key))].sort();
+      for (const key of keys) {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${RATE_LIMIT_KEY_LOCK}::int, hashtext(${key}))`;
+      }
+
+      for (const check of checks) {
+        const window = await tx.rateLimitHit.aggregate({
+          where: { key: check.key, createdAt: { gte: check.windowStart } },
+          _count: { _all: true },
+          _min: { createdAt: true },
+        });
+        if (window._count._all >= check.limit) {
+          return { allowed: false, key: check.key, oldest: window._min.createdAt };
+        }
+      }
+
+      for (const check of checks) {
+        await tx.rateLimitHit.create({ data: { key: check.key, createdAt: at } });
+        await tx.rateLimitHit.deleteMany({
+          where: { key: check.key, createdAt: { lt: check.windowStart } },
+        });
+      }
+      return { allowed: true };
+    });
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimitHit.deleteMany({ where: { key } });
+  }
+
+  async prune(before: Date): Promise<number> {
+    const { count } = await prisma.rateLimitHit.deleteMany({
+      where: { createdAt: { lt: before } },
+    });
+    return count;
+  }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+
+  async consume(checks: RateLimitCheck[], at: Date): Promise<RateLimitConsumeResult> {
+    for (const check of checks) {
+      const inWindow = (this.hits.get(check.key) || []).filter((t) => t >= check.windowStart.getTime());
+      if (inWindow.length >= check.limit) {
+        return { allowed: false, key: check.key, oldest: inWindow.length > 0 ? new Date(inWindow[0]) : null };
+      }
+    }
+
+    for (const check of checks) {
+      const kept = (this.hits.get(check.key) || []).filter((t) => t >= check.windowStart.getTime());
+      kept.push(at.getTime());
+      this.hits.set(check.key, kept);
+    }
+    return { allowed: true };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  async prune(before: Date): Promise<number> {
+    let pruned = 0;
+    for (const [key, times] of this.hits.entries()) {
+      const kept = times.filter((t) => t >= before.getTime());
+      pruned += times.length - kept.length;
+      if (kept.length === 0) this.hits.delete(key);
+      else this.hits.set(key, kept);
+    }
+    return pruned;
+  }
+}
@@ -0,0 +1,175 @@
+// lib/rate-limit.ts
+// Sliding-window rate limiting for auth routes.
+// Routes declare their limits in RATE_LIMITS (lib/rate-limit-config.ts) and call
+// checkRateLimit() at the top of the handler:
+//
+//   const limit = await checkRateLimit(request, "auth/login", { email });
+//   if (!limit.allowed) return rateLimitResponse(limit);
+//
+// When a limit trips, a RATE_LIMIT_EXCEEDED audit event is written (at most
+// once per key per window on each instance).
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { getClientIp } from "@/lib/client-ip";
+import {
+  RATE_LIMITS,
+  RATE_LIMIT_CONFIG,
+  type RateLimitRule,
+  type RateLimitedRoute,
+} from "@/lib/rate-limit-config";
+import {
+  MemoryRateLimitStore,
+  PrismaRateLimitStore,
+  type RateLimitCheck,
+  type RateLimitStore,
+} from "@/lib/rate-limit-store";
+
+export type RateLimitResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      route: RateLimitedRoute;
+      rule: RateLimitRule;
+      retryAfterSeconds: number;
+    };
+
+let rateLimitStore: RateLimitStore =
+  RATE_LIMIT_CONFIG.store === "memory"
+    ? new MemoryRateLimitStore()
+    : new PrismaRateLimitStore();
+
+export function getRateLimitStore(): RateLimitStore {
+  return rateLimitStore;
+}
+
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+// Remembers when a key last produced an audit event to avoid flooding the log
+const lastTripAudit = new Map<string, number>();
+
+function ruleKey(
+  route: RateLimitedRoute,
+  rule: RateLimitRule,
+  ip: string,
+  email?: string
+): string | null {
+  switch (rule.by) {
+    case "ip":
+      return `${route}:ip:${ip}`;
+    case "email":
+      return email ? `${route}:email:${email}` : null;
+    case "ip_email":
+      return email ? `${route}:ip_email:${ip}|${email}` : null;
+  }
+}
+
+// Checks every rule declared for the route and records the request when all pass
+export async function checkRateLimit(
+  request: NextRequest | Request,
+  route: RateLimitedRoute,
+  options: { email?: string | null } = {}
+): Promise<RateLimitResult> {
+  const log = createRequestLogger("rate-limit");
+  const rules: RateLimitRule[] = RATE_LIMITS[route];
+  const ip = getClientIp(request);
+  const email = options.email ? String(options.email).trim().toLowerCase() : undefined;
+  const now = new Date();
+
+  try {
+    const checks: (RateLimitCheck & { rule: RateLimitRule })[] = [];
+    for (const rule of rules) {
+      const key = ruleKey(route, rule, ip, email);
+      if (!key) continue;
+      checks.push({ key, rule, limit: rule.limit, windowStart: new Date(now.getTime() - rule.windowMs) });
+    }
+    if (checks.length === 0) return { allowed: true };
+
+    // Counting and recording happen together, so concurrent requests can't
+    // all pass on the same count
+    const result = await rateLimitStore.consume(checks, now);
+    if (!result.allowed) {
+      const { key, rule } = checks.find((check) => check.key === result.key)!;
+      const oldest = result.oldest ?? now;
+      const retryAfterSeconds = Math.max(
+        1,
+        Math.ceil((oldest.getTime() + rule.windowMs - now.getTime()) / 1000)
+      );
+      log.warn("Rate limit exceeded", { route, by: rule.by, limit: rule.limit });
+      await auditTrip(request, key, route, rule, email);
+      return { allowed: false, route, rule, retryAfterSeconds };
+    }
+
+    return { allowed: true };
+  } catch (error) {
+    // A broken limiter store must not take authentication down with it
+    log.error("Rate limit check failed; allowing request", { route, error: String(error) });
+    return { allowed: true };
+  }
+}
+
+export function rateLimitResponse(
+  result: Extract<RateLimitResult, { allowed: false }>
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: "Too many requests. Please try again later.",
+      retryAfter: result.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(result.retryAfterSeconds) },
+    }
+  );
+}
+
+// Hits older than the longest window can't count toward any limit
+const LONGEST_WINDOW_MS = Math.max(
+  ...Object.values(RATE_LIMITS).flatMap((rules: RateLimitRule[]) => rules.map((rule) => rule.windowMs))
+);
+
+// Deletes hits that fell out of every window; run by the cleanup worker
+export async function pruneRateLimitHits(): Promise<number> {
+  const cutoff = Date.now() - LONGEST_WINDOW_MS;
+  for (const [key, at] of lastTripAudit) {
+    if (at < cutoff) lastTripAudit.delete(key);
+  }
+  return rateLimitStore.prune(new Date(cutoff));
+}
+
+async function auditTrip(
+  request: NextRequest | Request,
+  key: string,
+  route: RateLimitedRoute,
+  rule: RateLimitRule,
+  email?: string
+): Promise<void> {
+  const last = lastTripAudit.get(key);
+  if (last && Date.now() - last < rule.windowMs) return;
+  lastTripAudit.set(key, Date.now());
+
+  try {
+    const user = email
+      ? await prisma.user.findUnique({ where: { email }, select: { id: true } })
+      : null;
+
+    await recordAuditEvent(request, {
+      action: "RATE_LIMIT_EXCEEDED",
+      userId: user?.id ?? null,
+      details: {
+        route,
+        by: rule.by,
+        limit: rule.limit,
+        windowSeconds: Math.round(rule.windowMs / 1000),
+        ...(email && !user ? { email } : {}),
+      },
+    });
+  } catch (error) {
+    createRequestLogger("rate-limit/audit").error("Failed to record rate limit event", {
+      error: String(error),
+    });
+  }
+}
@@ -0,0 +1,254 @@
+// lib/refresh-token.ts
+// Refresh-token rotation with reuse detection.
+// Every refresh token belongs to a family (one per login). Presenting a token
+// rotates it: the old row is marked as rotated and a new token is issued in
+// the same family. Presenting a token that was already rotated means it was
+// replayed, so the whole family is revoked and the user must log in again.
+//
+// The exception is a token rotated within the last REUSE_GRACE_MS: parallel
+// navigations and prefetches with an expired access token all send the same
+// refresh cookie, and only one of them wins the rotation. The others get the
+// winner's successor token and a new access token instead of a revocation.
+import { prisma } from "@/lib/prisma";
+import { TokenService } from "@/lib/jwt";
+import { createRequestLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { SessionRegistry } from "@/lib/device-session";
+import { effectivePermissions } from "@/lib/roles";
+
+export type RefreshFailureReason =
+  | "invalid_token"
+  | "unknown_token"
+  | "token_revoked"
+  | "token_reused"
+  | "token_expired"
+  | "account_inactive";
+
+export type RefreshResult =
+  | {
+      success: true;
+      userId: string;
+      accessToken: string;
+      accessTokenExpiresAt: Date;
+      refreshToken: string;
+      refreshTokenExpiresAt: Date;
+    }
+  | { success: false; reason: RefreshFailureReason };
+
+export interface RefreshContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const REUSE_GRACE_MS = 10 * 1000;
+
+const SESSION_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  status: true,
+  isTOTPEnabled: true,
+  totpEnrollmentRequired: true,
+  customRole: { select: { permissions: true } },
+} as const;
+
+export class RefreshTokenService {
+  // Exchange a refresh token for a new access/refresh pair
+  static async rotate(
+    presentedToken: string,
+    context: RefreshContext = {}
+  ): Promise<RefreshResult> {
+    const log = createRequestLogger("refresh-token/rotate");
+
+    try {
+      await TokenService.verifyRefreshToken(presentedToken);
+    } catch (error) {
+      log.debug("Refresh token failed verification", { error: String(error) });
+      return { success: false, reason: "invalid_token" };
+    }
+
+    const record = await prisma.refreshToken.findUnique({
+      where: { token: presentedToken },
+    });
+
+    if (!record) {
+      // Deleted on logout (or never issued by us)
+      log.warn("Refresh token not found in store");
+      return { success: false, reason: "unknown_token" };
+    }
+
+    if (record.revokedAt) {
+      log.warn("Revoked refresh token presented", { userId: record.userId, familyId: record.familyId });
+      return { success: false, reason: "token_revoked" };
+    }
+
+    if (record.rotatedAt) {
+      return this.resolveRotated(record, context);
+    }
+
+    if (record.expiresAt <= new Date()) {
+      return { success: false, reason: "token_expired" };
+    }
+
+    const payload = await this.sessionPayload(record.userId);
+    if (!payload) {
+      await this.revokeFamily(record.familyId);
+      log.warn("Refresh attempted for inactive account", { userId: record.userId });
+      return { success: false, reason: "account_inactive" };
+    }
+
+    const { token: accessToken, expiresAt: accessTokenExpiresAt } =
+      await TokenService.generateAccessToken(payload);
+    const { token: refreshToken, expiresAt: refreshTokenExpiresAt } =
+      await TokenService.generateRefreshToken(payload);
+
+    const rotated = await prisma.$transaction(async (tx) => {
+      // Conditional update guards against two concurrent refreshes of the same token
+      const claimed = await tx.refreshToken.updateMany({
+        where: { id: record.id, rotatedAt: null, revokedAt: null },
+        data: { rotatedAt: new Date() },
+      });
+      if (claimed.count === 0) return false;
+
+      const sessionId = await SessionRegistry.touch(tx, payload.userId, record.sessionId, context);
+
+      const next = await tx.refreshToken.create({
+        data: {
+          userId: payload.userId,
+          token: refreshToken,
+          expiresAt: refreshTokenExpiresAt,
+          familyId: record.familyId,
+          sessionId,
+        },
+      });
+
+      await tx.refreshToken.update({
+        where: { id: record.id },
+        data: { replacedById: next.id },
+      });
+
+      await tx.token.create({
+        data: {
+          userId: payload.userId,
+          token: accessToken,
+          expiresAt: accessTokenExpiresAt,
+        },
+      });
+
+      return true;
+    });
+
+    if (!rotated) {
+      // A concurrent request rotated or revoked it first
+      const current = await prisma.refreshToken.findUnique({ where: { id: record.id } });
+      if (!current || current.revokedAt) {
+        return { success: false, reason: "token_revoked" };
+      }
+      return this.resolveRotated(current, context);
+    }
+
+    log.debug("Refresh token rotated", { userId: payload.userId, familyId: record.familyId });
+
+    return {
+      success: true,
+      userId: payload.userId,
+      accessToken,
+      accessTokenExpiresAt,
+      refreshToken,
+      refreshTokenExpiresAt,
+    };
+  }
+
+  // Revoke every token issued from the same login
+  static async revokeFamily(familyId: string): Promise<number> {
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  // Access-token claims for an active user, or null if the account can't sign in
+  private static async sessionPayload(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: SESSION_USER_SELECT });
+    if (!user || user.status !== "ACTIVE") return null;
+
+    return {
+      userId: user.id,
+      email: user.email,
+      username: user.email,
+      name: user.name || undefined,
+      role: user.role,
+      permissions: effectivePermissions(user.role, user.customRole?.permissions),
+      isTOTPEnabled: user.isTOTPEnabled,
+      totpEnrollmentRequired: user.totpEnrollmentRequired && !user.isTOTPEnabled,
+    };
+  }
+
+  // An already-rotated token: a parallel request inside the grace window is
+  // handed the successor, anything later is a replay
+  private static async resolveRotated(
+    record: { id: string; userId: string; familyId: string; rotatedAt: Date | null; replacedById: string | null },
+    context: RefreshContext
+  ): Promise<RefreshResult> {
+    const log = createRequestLogger("refresh-token/rotate");
+    const inGrace = record.rotatedAt !== null && Date.now() - record.rotatedAt.getTime() <= REUSE_GRACE_MS;
+    if (!inGrace || !record.replacedById) {
+      await this.handleReuse(record, context);
+      return { success: false, reason: "token_reused" };
+    }
+
+    const successor = await prisma.refreshToken.findUnique({ where: { id: record.replacedById } });
+    if (!successor || successor.revokedAt || successor.rotatedAt || successor.expiresAt <= new Date()) {
+      // The family moved on or was revoked meanwhile; fail this request only
+      log.debug("Successor of a just-rotated token is no longer current", { familyId: record.familyId });
+      return { success: false, reason: "token_reused" };
+    }
+
+    const payload = await this.sessionPayload(successor.userId);
+    if (!payload) {
+      await this.revokeFamily(record.familyId);
+      return { success: false, reason: "account_inactive" };
+    }
+
+    const { token: accessToken, expiresAt: accessTokenExpiresAt } =
+      await TokenService.generateAccessToken(payload);
+    await prisma.token.create({
+      data: { userId: successor.userId, token: accessToken, expiresAt: accessTokenExpiresAt },
+    });
+
+    log.debug("Concurrent refresh given the rotated successor", { userId: successor.userId, familyId: record.familyId });
+    return {
+      success: true,
+      userId: successor.userId,
+      accessToken,
+      accessTokenExpiresAt,
+      refreshToken: successor.token,
+      refreshTokenExpiresAt: successor.expiresAt,
+    };
+  }
+
+  private static async handleReuse(
+    record: { id: string; userId: string; familyId: string },
+    context: RefreshContext
+  ): Promise<void> {
+    const log = createRequestLogger("refresh-token/reuse");
+    const revoked = await this.revokeFamily(record.familyId);
+    log.warn("Refresh token reuse detected; family revoked", {
+      userId: record.userId,
+      familyId: record.familyId,
+      revoked,
+    });
+
+    await recordAuditEvent(context, {
+      action: "REFRESH_TOKEN_REUSE_DETECTED",
+      userId: record.userId,
+      details: {
+        familyId: record.familyId,
+        replayedTokenId: record.id,
+        revokedTokens: revoked,
+      },
+    });
+  }
+}
@@ -0,0 +1,137 @@
+// lib/roles.ts
+// Custom roles and effective-permission resolution (server only).
+import { prisma } from "@/lib/prisma";
+import {
+  BUILT_IN_ROLE_PERMISSIONS,
+  isPermission,
+  type Permission,
+} from "@/lib/permissions";
+import type { UserRole } from "@/app/generated/prisma";
+
+export interface RoleInput {
+  name?: string;
+  description?: string | null;
+  permissions?: Permission[];
+}
+
+export type RoleMutationResult =
+  | { success: true; role: { id: string; name: string; description: string | null; permissions: string[] } }
+  | { success: false; reason: "not_found" | "name_taken" };
+
+const MAX_ROLE_NAME_LENGTH = 50;
+
+export function effectivePermissions(
+  role: UserRole,
+  customRolePermissions: string[] = []
+): Permission[] {
+  const merged = new Set<Permission>(BUILT_IN_ROLE_PERMISSIONS[role] ?? []);
+  for (const permission of customRolePermissions) {
+    // Ignore permissions that were removed from the catalogue since the role was saved
+    if (isPermission(permission)) merged.add(permission);
+  }
+  return [...merged];
+}
+
+// Validates a create (partial = false) or update (partial = true) body
+export function parseRoleInput(
+  body: unknown,
+  partial: boolean
+): { success: true; input: RoleInput } | { success: false; error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { success: false, error: "Request body must be a JSON object" };
+  }
+  const raw = body as Record<string, unknown>;
+  const input: RoleInput = {};
+
+  if (raw.name !== undefined || !partial) {
+    if (typeof raw.name !== "string" || !raw.name.trim()) {
+      return { success: false, error: "name is required" };
+    }
+    if (raw.name.trim().length > MAX_ROLE_NAME_LENGTH) {
+      return { success: false, error: "name is too long" };
+    }
+    input.name = raw.name.trim();
+  }
+
+  if (raw.description !== undefined) {
+    if (raw.description !== null && typeof raw.description !== "string") {
+      return { success: false, error: "description must be a string" };
+    }
+    input.description = raw.description?.trim() || null;
+  }
+
+  if (raw.permissions !== undefined || !partial) {
+    if (!Array.isArray(raw.permissions)) {
+      return { success: false, error: "permissions must be an array" };
+    }
+    const unknown = raw.permissions.filter((p) => !isPermission(p));
+    if (unknown.length > 0) {
+      return { success: false, error: `Unknown permissions: ${unknown.join(", ")}` };
+    }
+    input.permissions = [...new Set(raw.permissions as Permission[])];
+  }
+
+  return { success: true, input };
+}
+
+export class RoleService {
+  static async permissionsForUser(userId: string): Promise<Permission[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, customRole: { select: { permissions: true } } },
+    });
+    if (!user) return [];
+    return effectivePermissions(user.role, user.customRole?.permissions);
+  }
+
+  static async list() {
+    return prisma.role.findMany({
+      orderBy: { name: "asc" },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        permissions: true,
+        _count: { select: { users: true } },
+      },
+    });
+  }
+
+  static async create(input: Required<Pick<RoleInput, "name" | "permissions">> & RoleInput): Promise<RoleMutationResult> {
+    const existing = await prisma.role.findUnique({ where: { name: input.name } });
+    if (existing) return { success: false, reason: "name_taken" };
+
+    const role = await prisma.role.create({
+      data: {
+        name: input.name,
+        description: input.description ?? null,
+        permissions: input.permissions,
+      },
+      select: { id: true, name: true, description: true, permissions: true },
+    });
+    return { success: true, role };
+  }
+
+  static async update(id: string, input: RoleInput): Promise<RoleMutationResult> {
+    const existing = await prisma.role.findUnique({ where: { id } });
+    if (!existing) return { success: false, reason: "not_found" };
+
+    if (input.name && input.name !== existing.name) {
+      const clash = await prisma.role.findUnique({ where: { name: input.name } });
+      if (clash) return { success: false, reason: "name_taken" };
+    }
+
+    const role = await prisma.role.update({
+      where: { id },
+      data: input,
+      select: { id: true, name: true, description: true, permissions: true },
+    });
+    return { success: true, role };
+  }
+
+  // Users holding the role fall back to their built-in role's permissions
+  static async remove(id: string): Promise<boolean> {
+    const { count } = await prisma.role.deleteMany({ where: { id } });
+    return count > 0;
+  }
+}
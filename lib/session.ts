@@ -1,23 +0,0 @@
-import jwt from "jsonwebtoken";
-
-const JWT_SECRET =
-  process.env.JWT_SECRET || "your-fallback-secret-change-in-production";
-
-export async function generateAuthToken(user: any) {
-  return jwt.sign(
-    {
-      userId: user.id,
-      email: user.email,
-    },
-    JWT_SECRET,
-    { expiresIn: "7d" }
-  );
-}
-
-export async function verifyAuthToken(token: string) {
-  try {
-    return jwt.verify(token, JWT_SECRET);
-  } catch (error) {
-    return null;
-  }
-}
@@ -0,0 +1,27 @@
+// lib/sms-config.ts
+// SMS_DRIVER picks how text messages leave the app:
+//   twilio   send through the Twilio Messages API (production default)
+//   file     write each message as JSON into SMS_OUTBOX_DIR (tests)
+//   console  print the message to the server log (development default)
+export type SmsDriver = "twilio" | "file" | "console";
+
+const SMS_DRIVERS: readonly SmsDriver[] = ["twilio", "file", "console"];
+
+function resolveDriver(value: string | undefined): SmsDriver {
+  const driver = (value || "").trim().toLowerCase();
+  if ((SMS_DRIVERS as readonly string[]).includes(driver)) return driver as SmsDriver;
+  return process.env.NODE_ENV === "production" ? "twilio" : "console";
+}
+
+export const SMS_CONFIG = {
+  driver: resolveDriver(process.env.SMS_DRIVER),
+  from: process.env.SMS_FROM || "", // E.164 sender number or messaging service SID
+
+  twilio: {
+    accountSid: process.env.TWILIO_ACCOUNT_SID || "",
+    authToken: process.env.TWILIO_AUTH_TOKEN || "",
+  },
+
+  outboxDir: process.env.SMS_OUTBOX_DIR || ".sms-outbox",
+  requestTimeout: 10 * 1000,
+} as const;
@@ -0,0 +1,135 @@
+// lib/sms.ts
+// Transport-agnostic SMS delivery (server only), the text-message
+// counterpart of lib/mailer.ts. The provider is chosen once per process from
+// SMS_CONFIG.driver. Codes are time-sensitive, so messages are sent directly
+// rather than queued; sendSms() resolves to false when the provider fails.
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { createRequestLogger } from "@/lib/logger";
+import { SMS_CONFIG, type SmsDriver } from "@/lib/sms-config";
+
+export interface SmsMessage {
+  to: string; // E.164
+  body: string;
+}
+
+export interface SmsProvider {
+  readonly driver: SmsDriver;
+  send(message: SmsMessage & { from: string }): Promise<void>;
+}
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly driver = "twilio";
+
+  async send(message: SmsMessage & { from: string }): Promise<void> {
+    const { accountSid, authToken } = SMS_CONFIG.twilio;
+    if (!accountSid || !authToken || !message.from) {
+      throw new Error("TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and SMS_FROM must be configured");
+    }
+
+    const params = new URLSearchParams({ To: message.to, Body: message.body });
+    // A messaging service SID (MG...) lets Twilio pick the sender
+    params.set(message.from.startsWith("MG") ? "MessagingServiceSid" : "From", message.from);
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(accountSid)}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: params.toString(),
+        signal: AbortSignal.timeout(SMS_CONFIG.requestTimeout),
+      }
+    );
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(`Twilio responded with status ${response.status}${data?.message ? `: ${data.message}` : ""}`);
+    }
+  }
+}
+
+// One JSON file per message, named so a directory listing sorts by send time
+export class FileSmsProvider implements SmsProvider {
+  readonly driver = "file";
+
+  constructor(private readonly dir: string = SMS_CONFIG.outboxDir) {}
+
+  async send(message: SmsMessage & { from: string }): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const id = randomUUID();
+    const sentAt = new Date();
+    const file = path.join(this.dir, `${sentAt.getTime()}-${id}.json`);
+    await writeFile(file, JSON.stringify({ id, sentAt: sentAt.toISOString(), ...message }, null, 2));
+  }
+}
+
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly driver = "console";
+
+  async send(message: SmsMessage & { from: string }): Promise<void> {
+    console.log(
+      [
+        "----- sms (console driver) -----",
+        `From: ${message.from || "(default)"}`,
+        `To: ${message.to}`,
+        "",
+        message.body,
+        "--------------------------------",
+      ].join("\n")
+    );
+  }
+}
+
+let provider: SmsProvider | null = null;
+
+export function getSmsProvider(): SmsProvider {
+  if (!provider) {
+    switch (SMS_CONFIG.driver) {
+      case "twilio":
+        provider = new TwilioSmsProvider();
+        break;
+      case "file":
+        provider = new FileSmsProvider();
+        break;
+      case "console":
+        provider = new ConsoleSmsProvider();
+        break;
+    }
+  }
+  return provider;
+}
+
+export async function sendSms(message: SmsMessage): Promise<boolean> {
+  const log = createRequestLogger("sms");
+  const sms = getSmsProvider();
+  try {
+    await sms.send({ from: SMS_CONFIG.from, ...message });
+    log.info("SMS delivered", { driver: sms.driver, to: maskPhoneNumber(message.to) });
+    return true;
+  } catch (error) {
+    log.error("Failed to send SMS", {
+      driver: sms.driver,
+      to: maskPhoneNumber(message.to),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+// Accepts common formatting ("+1 (555) 010-1234") and returns E.164, or null
+export function normalizePhoneNumber(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const compact = value.trim().replace(/[\s().-]/g, "");
+  const e164 = compact.startsWith("00") ? `+${compact.slice(2)}` : compact;
+  return /^\+[1-9]\d{7,14}$/.test(e164) ? e164 : null;
+}
+
+// "+15550101234" -> "+1•••••••234": enough to recognise, not enough to reuse
+export function maskPhoneNumber(phone: string): string {
+  if (phone.length <= 6) return "•".repeat(phone.length);
+  return `${phone.slice(0, 2)}${"•".repeat(phone.length - 5)}${phone.slice(-3)}`;
+}
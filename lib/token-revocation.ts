@@ -0,0 +1,96 @@
+// lib/token-revocation.ts
+// Server-side revocation checks for access tokens.
+// Access tokens are stateless JWTs, so a signature check alone keeps a token
+// valid until it expires. A token is treated as revoked when:
+//   - its jti is on the denylist (e.g. after logout),
+//   - it was issued before the user's tokensValidAfter timestamp, or
+//   - the account no longer exists or is not ACTIVE.
+// Middleware runs on the Edge runtime and reaches this through
+// /api/auth/token-status; API routes call it directly via lib/auth helpers.
+import { prisma } from "@/lib/prisma";
+import { createRequestLogger } from "@/lib/logger";
+import type { TokenPayload } from "@/lib/jwt";
+
+export type RevocationReason =
+  | "logout"
+  | "password_reset"
+  | "account_disabled"
+  | "sign_out_everywhere"
+  | "admin"
+  | "totp_enrolled";
+
+export class TokenRevocation {
+  static async isRevoked(payload: TokenPayload): Promise<boolean> {
+    if (payload.jti) {
+      const denied = await prisma.revokedToken.findUnique({
+        where: { jti: payload.jti },
+        select: { jti: true },
+      });
+      if (denied) return true;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { status: true, tokensValidAfter: true },
+    });
+    if (!user || user.status !== "ACTIVE") return true;
+
+    // iat has second precision, so a token minted in the same second as a
+    // revocation is rejected too; the client simply refreshes or signs in again.
+    if (user.tokensValidAfter && typeof payload.iat === "number") {
+      return payload.iat * 1000 < user.tokensValidAfter.getTime();
+    }
+    return false;
+  }
+
+  // Put a single access token on the denylist until it expires
+  static async revokeAccessToken(
+    payload: TokenPayload,
+    reason: RevocationReason
+  ): Promise<void> {
+    if (!payload.jti) return;
+    const expiresAt =
+      typeof payload.exp === "number"
+        ? new Date(payload.exp * 1000)
+        : new Date(Date.now() + 15 * 60 * 1000);
+
+    await prisma.revokedToken.upsert({
+      where: { jti: payload.jti },
+      create: { jti: payload.jti, userId: payload.userId, reason, expiresAt },
+      update: {},
+    });
+  }
+
+  // Invalidate every access and refresh token the user currently holds
+  static async revokeAllForUser(
+    userId: string,
+    reason: RevocationReason
+  ): Promise<void> {
+    const log = createRequestLogger("token-revocation/all");
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { tokensValidAfter: now },
+      }),
+      prisma.userSession.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      }),
+    ]);
+
+    log.info("All tokens revoked for user", { userId, reason });
+  }
+
+  static async pruneExpired(): Promise<number> {
+    const { count } = await prisma.revokedToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return count;
+  }
+}
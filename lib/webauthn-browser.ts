@@ -0,0 +1,96 @@
+// lib/webauthn-browser.ts
+// Browser side of the WebAuthn ceremonies for passkeys and security keys.
+// The server sends options with binary fields as base64url strings
+// (lib/passkeys.ts, lib/mfa.ts); these helpers convert them for
+// navigator.credentials and serialize the result back to JSON in the shape
+// lib/webauthn.ts expects.
+
+function toBytes(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+function toBase64url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+interface CredentialDescriptorJSON {
+  type: "public-key";
+  id: string;
+  transports?: string[];
+}
+
+function toDescriptor(descriptor: CredentialDescriptorJSON): PublicKeyCredentialDescriptor {
+  return {
+    type: descriptor.type,
+    id: toBytes(descriptor.id),
+    transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+  };
+}
+
+export function isWebAuthnSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.PublicKeyCredential === "function";
+}
+
+// Maps the DOMException names browsers use to messages worth showing
+export function webauthnErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof DOMException) {
+    if (error.name === "NotAllowedError") return "The prompt was cancelled or timed out.";
+    if (error.name === "InvalidStateError") return "This device is already registered for your account.";
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export async function createCredential(options: any) {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: toBytes(options.challenge),
+      user: { ...options.user, id: toBytes(options.user.id) },
+      excludeCredentials: (options.excludeCredentials ?? []).map(toDescriptor),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error("No credential was created");
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      attestationObject: toBase64url(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+  };
+}
+
+export async function getCredential(options: any) {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: toBytes(options.challenge),
+      allowCredentials: (options.allowCredentials ?? []).map(toDescriptor),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error("No credential was selected");
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64url(response.clientDataJSON),
+      authenticatorData: toBase64url(response.authenticatorData),
+      signature: toBase64url(response.signature),
+      userHandle: response.userHandle ? toBase64url(response.userHandle) : undefined,
+    },
+  };
+}
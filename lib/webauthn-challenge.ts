@@ -0,0 +1,56 @@
+// lib/webauthn-challenge.ts
+// Single-use challenges for WebAuthn ceremonies (server only), shared by
+// passkeys (lib/passkeys.ts) and security keys (lib/mfa.ts).
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { WEBAUTHN_CONFIG } from "@/lib/webauthn-config";
+import { parseClientData, type CeremonyExpectations } from "@/lib/webauthn";
+import type { WebAuthnCeremony } from "@/app/generated/prisma";
+
+export function ceremonyExpectations(
+  challenge: string,
+  requireUserVerification: boolean
+): CeremonyExpectations {
+  return {
+    challenge,
+    origins: WEBAUTHN_CONFIG.origins,
+    rpId: WEBAUTHN_CONFIG.rpId,
+    requireUserVerification,
+  };
+}
+
+export async function createChallenge(ceremony: WebAuthnCeremony, userId?: string): Promise<string> {
+  const challenge = randomBytes(32).toString("base64url");
+  await prisma.webAuthnChallenge.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+  await prisma.webAuthnChallenge.create({
+    data: {
+      challenge,
+      ceremony,
+      userId,
+      expiresAt: new Date(Date.now() + WEBAUTHN_CONFIG.challengeTtl),
+    },
+  });
+  return challenge;
+}
+
+// Deletes the challenge so it cannot be used twice; null if it was unknown,
+// expired, already used or issued for another ceremony or user
+export async function consumeChallenge(
+  clientDataJSON: unknown,
+  ceremony: WebAuthnCeremony,
+  userId?: string
+): Promise<string | null> {
+  if (typeof clientDataJSON !== "string") return null;
+  const clientData = parseClientData(clientDataJSON);
+  if (!clientData) return null;
+
+  const { count } = await prisma.webAuthnChallenge.deleteMany({
+    where: {
+      challenge: clientData.challenge,
+      ceremony,
+      expiresAt: { gt: new Date() },
+      ...(userId ? { userId } : {}),
+    },
+  });
+  return count === 1 ? clientData.challenge : null;
+}
@@ -0,0 +1,23 @@
+// lib/webauthn-config.ts
+// The relying party ID is the site's registrable domain (no scheme or port);
+// passkeys only work on that domain and its subdomains. Both default to the
+// host of NEXTAUTH_URL.
+const appUrl = new URL(process.env.NEXTAUTH_URL || "http://localhost:3000");
+
+export const WEBAUTHN_CONFIG = {
+  rpName: process.env.WEBAUTHN_RP_NAME || "SyncTech",
+  rpId: process.env.WEBAUTHN_RP_ID || appUrl.hostname,
+  // Origins allowed in clientDataJSON, comma-separated
+  origins: (process.env.WEBAUTHN_ORIGINS || appUrl.origin)
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+
+  // Ceremony settings
+  challengeTtl: 5 * 60 * 1000, // 5 minutes
+  timeout: 60 * 1000, // Browser prompt timeout
+
+  // Management limits
+  maxPasskeysPerUser: 10,
+  nameMaxLength: 64,
+} as const;
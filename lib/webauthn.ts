@@ -0,0 +1,357 @@
+// lib/webauthn.ts
+// WebAuthn response verification with Node's crypto (server only).
+// Implements the relying-party checks for registration and authentication
+// ceremonies (WebAuthn Level 2, sections 7.1 and 7.2) for the algorithms
+// browsers offer by default: ES256, EdDSA and RS256.
+//
+// Attestation statements are not verified. Registration asks for attestation
+// "none": a passkey is trusted because the signed-in user just created it,
+// not because of who made the authenticator.
+import { createHash, createPublicKey, verify, type KeyObject } from "crypto";
+
+export const COSE_ALGORITHMS = { ES256: -7, EdDSA: -8, RS256: -257 } as const;
+
+// PublicKeyCredential serialized to JSON by lib/webauthn-browser.ts
+export interface RegistrationResponseJSON {
+  id: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponseJSON {
+  id: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface CeremonyExpectations {
+  challenge: string;
+  origins: readonly string[];
+  rpId: string;
+  requireUserVerification: boolean;
+}
+
+export type WebAuthnFailureReason =
+  | "malformed_response"
+  | "wrong_ceremony" // clientData.type is not the expected one
+  | "challenge_mismatch"
+  | "origin_mismatch"
+  | "rp_id_mismatch"
+  | "user_not_present"
+  | "user_not_verified"
+  | "unsupported_algorithm"
+  | "credential_mismatch"
+  | "invalid_signature"
+  | "counter_regression"; // Sign counter went backwards: possible cloned authenticator
+
+export type RegistrationVerification =
+  | {
+      success: true;
+      credentialId: string;
+      publicKey: Buffer;
+      signCount: number;
+      backedUp: boolean;
+    }
+  | { success: false; reason: WebAuthnFailureReason };
+
+export type AuthenticationVerification =
+  | { success: true; signCount: number; backedUp: boolean }
+  | { success: false; reason: WebAuthnFailureReason };
+
+// Minimal CBOR (RFC 8949) decoder: definite lengths only, which is all
+// authenticators emit for attestation objects and COSE keys
+
+type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+function decodeCbor(buf: Buffer, offset = 0): { value: CborValue; offset: number } {
+  if (offset >= buf.length) throw new Error("CBOR: unexpected end of input");
+  const major = buf[offset] >> 5;
+  const info = buf[offset] & 0x1f;
+  let pos = offset + 1;
+
+  if (major === 7) {
+    if (info === 20) return { value: false, offset: pos };
+    if (info === 21) return { value: true, offset: pos };
+    if (info === 22) return { value: null, offset: pos };
+    if (info === 23) return { value: undefined, offset: pos };
+    if (info === 26) return { value: buf.readFloatBE(pos), offset: pos + 4 };
+    if (info === 27) return { value: buf.readDoubleBE(pos), offset: pos + 8 };
+    throw new Error(`CBOR: unsupported simple value ${info}`);
+  }
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = buf.readUInt8(pos);
+    pos += 1;
+  } else if (info === 25) {
+    length = buf.readUInt16BE(pos);
+    pos += 2;
+  } else if (info === 26) {
+    length = buf.readUInt32BE(pos);
+    pos += 4;
+  } else if (info === 27) {
+    const big = buf.readBigUInt64BE(pos);
+    if (big > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error("CBOR: integer too large");
+    length = Number(big);
+    pos += 8;
+  } else {
+    throw new Error("CBOR: indefinite lengths are not supported");
+  }
+
+  const take = (n: number) => {
+    if (pos + n > buf.length) throw new Error("CBOR: unexpected end of input");
+    const slice = buf.subarray(pos, pos + n);
+    pos += n;
+    return slice;
+  };
+
+  switch (major) {
+    case 0:
+      return { value: length, offset: pos };
+    case 1:
+      return { value: -1 - length, offset: pos };
+    case 2:
+      return { value: take(length), offset: pos };
+    case 3:
+      return { value: take(length).toString("utf8"), offset: pos };
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(buf, pos);
+        items.push(item.value);
+        pos = item.offset;
+      }
+      return { value: items, offset: pos };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(buf, pos);
+        const value = decodeCbor(buf, key.offset);
+        map.set(key.value, value.value);
+        pos = value.offset;
+      }
+      return { value: map, offset: pos };
+    }
+    default: {
+      // Tags (major 6): ignore the tag and return the tagged item
+      return decodeCbor(buf, pos);
+    }
+  }
+}
+
+// Authenticator data (WebAuthn section 6.1)
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  backedUp: boolean;
+  signCount: number;
+  credentialId?: Buffer;
+  publicKey?: Buffer; // COSE_Key bytes
+}
+
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) throw new Error("Authenticator data too short");
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & 0x01) !== 0,
+    userVerified: (flags & 0x04) !== 0,
+    backedUp: (flags & 0x10) !== 0,
+    signCount: data.readUInt32BE(33),
+  };
+
+  // Attested credential data: AAGUID (16) | length (2) | credential ID | COSE key
+  if (flags & 0x40) {
+    const idLength = data.readUInt16BE(53);
+    const idEnd = 55 + idLength;
+    if (idEnd > data.length) throw new Error("Credential ID overruns authenticator data");
+    parsed.credentialId = data.subarray(55, idEnd);
+    const key = decodeCbor(data, idEnd);
+    parsed.publicKey = data.subarray(idEnd, key.offset);
+  }
+  return parsed;
+}
+
+// COSE_Key (RFC 9053) to a Node KeyObject
+
+function coseToPublicKey(cose: Buffer): { key: KeyObject; alg: number } | null {
+  const { value } = decodeCbor(cose);
+  if (!(value instanceof Map)) return null;
+
+  const kty = value.get(1);
+  const alg = value.get(3);
+  const b64 = (v: CborValue) => (Buffer.isBuffer(v) ? v.toString("base64url") : null);
+
+  let jwk: Record<string, string> | null = null;
+  if (kty === 2 && alg === COSE_ALGORITHMS.ES256 && value.get(-1) === 1) {
+    const x = b64(value.get(-2));
+    const y = b64(value.get(-3));
+    if (x && y) jwk = { kty: "EC", crv: "P-256", x, y };
+  } else if (kty === 1 && alg === COSE_ALGORITHMS.EdDSA && value.get(-1) === 6) {
+    const x = b64(value.get(-2));
+    if (x) jwk = { kty: "OKP", crv: "Ed25519", x };
+  } else if (kty === 3 && alg === COSE_ALGORITHMS.RS256) {
+    const n = b64(value.get(-1));
+    const e = b64(value.get(-2));
+    if (n && e) jwk = { kty: "RSA", n, e };
+  }
+  if (!jwk) return null;
+
+  return { key: createPublicKey({ key: jwk, format: "jwk" }), alg: alg as number };
+}
+
+function verifySignature(alg: number, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  switch (alg) {
+    case COSE_ALGORITHMS.ES256:
+      return verify("sha256", data, { key, dsaEncoding: "der" }, signature);
+    case COSE_ALGORITHMS.RS256:
+      return verify("sha256", data, key, signature);
+    case COSE_ALGORITHMS.EdDSA:
+      return verify(null, data, key, signature);
+    default:
+      return false;
+  }
+}
+
+// Client data (WebAuthn section 5.8.1)
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+export function parseClientData(clientDataJSON: string): ClientData | null {
+  try {
+    const data = JSON.parse(Buffer.from(clientDataJSON, "base64url").toString("utf8"));
+    if (
+      typeof data?.type !== "string" ||
+      typeof data.challenge !== "string" ||
+      typeof data.origin !== "string"
+    ) {
+      return null;
+    }
+    return { type: data.type, challenge: data.challenge, origin: data.origin };
+  } catch {
+    return null;
+  }
+}
+
+function checkClientData(
+  clientDataJSON: string,
+  type: "webauthn.create" | "webauthn.get",
+  expected: CeremonyExpectations
+): WebAuthnFailureReason | null {
+  const clientData = parseClientData(clientDataJSON);
+  if (!clientData) return "malformed_response";
+  if (clientData.type !== type) return "wrong_ceremony";
+  if (clientData.challenge !== expected.challenge) return "challenge_mismatch";
+  if (!expected.origins.includes(clientData.origin)) return "origin_mismatch";
+  return null;
+}
+
+function checkAuthenticatorFlags(
+  authData: AuthenticatorData,
+  expected: CeremonyExpectations
+): WebAuthnFailureReason | null {
+  const rpIdHash = createHash("sha256").update(expected.rpId).digest();
+  if (!rpIdHash.equals(authData.rpIdHash)) return "rp_id_mismatch";
+  if (!authData.userPresent) return "user_not_present";
+  if (expected.requireUserVerification && !authData.userVerified) return "user_not_verified";
+  return null;
+}
+
+export function verifyRegistrationResponse(
+  response: RegistrationResponseJSON,
+  expected: CeremonyExpectations
+): RegistrationVerification {
+  try {
+    const clientDataFailure = checkClientData(response.response.clientDataJSON, "webauthn.create", expected);
+    if (clientDataFailure) return { success: false, reason: clientDataFailure };
+
+    const attestation = decodeCbor(Buffer.from(response.response.attestationObject, "base64url")).value;
+    const authDataBytes = attestation instanceof Map ? attestation.get("authData") : null;
+    if (!Buffer.isBuffer(authDataBytes)) return { success: false, reason: "malformed_response" };
+
+    const authData = parseAuthenticatorData(authDataBytes);
+    const flagFailure = checkAuthenticatorFlags(authData, expected);
+    if (flagFailure) return { success: false, reason: flagFailure };
+
+    if (!authData.credentialId || !authData.publicKey) {
+      return { success: false, reason: "malformed_response" };
+    }
+    const credentialId = authData.credentialId.toString("base64url");
+    if (credentialId !== response.id) return { success: false, reason: "credential_mismatch" };
+    if (!coseToPublicKey(authData.publicKey)) return { success: false, reason: "unsupported_algorithm" };
+
+    return {
+      success: true,
+      credentialId,
+      publicKey: Buffer.from(authData.publicKey),
+      signCount: authData.signCount,
+      backedUp: authData.backedUp,
+    };
+  } catch {
+    return { success: false, reason: "malformed_response" };
+  }
+}
+
+export function verifyAuthenticationResponse(
+  response: AuthenticationResponseJSON,
+  credential: { publicKey: Uint8Array; signCount: number },
+  expected: CeremonyExpectations
+): AuthenticationVerification {
+  try {
+    const clientDataFailure = checkClientData(response.response.clientDataJSON, "webauthn.get", expected);
+    if (clientDataFailure) return { success: false, reason: clientDataFailure };
+
+    const authDataBytes = Buffer.from(response.response.authenticatorData, "base64url");
+    const authData = parseAuthenticatorData(authDataBytes);
+    const flagFailure = checkAuthenticatorFlags(authData, expected);
+    if (flagFailure) return { success: false, reason: flagFailure };
+
+    const publicKey = coseToPublicKey(Buffer.from(credential.publicKey));
+    if (!publicKey) return { success: false, reason: "unsupported_algorithm" };
+
+    // The signature covers authenticatorData || SHA-256(clientDataJSON)
+    const clientDataHash = createHash("sha256")
+      .update(Buffer.from(response.response.clientDataJSON, "base64url"))
+      .digest();
+    const signed = Buffer.concat([authDataBytes, clientDataHash]);
+    const signature = Buffer.from(response.response.signature, "base64url");
+    if (!verifySignature(publicKey.alg, publicKey.key, signed, signature)) {
+      return { success: false, reason: "invalid_signature" };
+    }
+
+    // Authenticators without a counter always report 0
+    if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+      return { success: false, reason: "counter_regression" };
+    }
+
+    return { success: true, signCount: authData.signCount, backedUp: authData.backedUp };
+  } catch {
+    return { success: false, reason: "malformed_response" };
+  }
+}
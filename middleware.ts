@@ -1,7 +1,8 @@
-import { TokenService } from "@/lib/jwt";
+import { TokenService, type TokenPayload } from "@/lib/jwt";
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { createRequestLogger } from "@/lib/logger";
+import { can } from "@/lib/permissions";
 
 // Define routes that should not be protected by the middleware
 const publicRoutes = [
@@ -15,9 +16,18 @@ const publicRoutes = [
     "/forgot-password",
     "/reset-password/verify-totp",
     "/reset-password/verify-otp",
-    "/reset-password/confirm"
+    "/reset-password/confirm",
+    "/.well-known/jwks.json"
 ]; 
 
+// Where accounts flagged for mandatory TOTP enrollment are sent
+const TOTP_ENROLLMENT_PATH = "/settings/security";
+
+// How long a revocation lookup is reused for the same access token
+const REVOCATION_CACHE_TTL_MS = 30 * 1000;
+const REVOCATION_CACHE_MAX_ENTRIES = 1000;
+const revocationCache = new Map<string, { revoked: boolean; expiresAt: number }>();
+
 export async function middleware(req: NextRequest) {
   const path = req.nextUrl.pathname;
   const log = createRequestLogger("middleware");
@@ -32,50 +42,157 @@ export async function middleware(req: NextRequest) {
   // Protected route handling
   const token = req.cookies.get("accessToken")?.value;
 
-  if (!token) {
+  let decodedPayload: TokenPayload | null = null;
+  if (token) {
+    try {
+      decodedPayload = await TokenService.verifyAccessToken(token);
+    } catch {
+      log.debug("Access token invalid or expired");
+    }
+  }
+
+  // A valid signature is not enough: the token may have been revoked server-side
+  if (decodedPayload && token && (await isAccessTokenRevoked(req, token, decodedPayload))) {
+    log.debug("Access token revoked", { path });
+    decodedPayload = null;
+  }
+
+  // Access token missing or expired: try a silent refresh before giving up
+  let refreshedCookies: string[] = [];
+  if (!decodedPayload) {
+    const refreshed = await refreshSession(req);
+    if (refreshed) {
+      try {
+        decodedPayload = await TokenService.verifyAccessToken(refreshed.accessToken);
+        refreshedCookies = refreshed.setCookies;
+        // Let downstream handlers see the new access token on this request
+        req.cookies.set("accessToken", refreshed.accessToken);
+        log.debug("Session refreshed transparently", { path });
+      } catch {
+        decodedPayload = null;
+      }
+    }
+  }
+
+  if (!decodedPayload) {
     const url = req.nextUrl.clone();
     url.pathname = "/signin";
-    url.searchParams.set("redirectedFrom", path);
-    log.debug("Missing token; redirecting to signin", { path });
+    if (token || req.cookies.get("refreshToken")) {
+      url.searchParams.set("sessionExpired", "true");
+      log.debug("Token verification and refresh failed; redirecting to signin");
+    } else {
+      url.searchParams.set("redirectedFrom", path);
+      log.debug("Missing token; redirecting to signin", { path });
+    }
     return NextResponse.redirect(url);
   }
 
-  try {
-    const decodedPayload = await TokenService.verifyAccessToken(token);
-
-    // OTP gating: redirect to /verify-totp and preserve intended path (no PII in URL)
-    if (TokenService.requiresOTP(decodedPayload as any)) {
-      const url = req.nextUrl.clone();
-      url.pathname = "/verify-totp";
-      url.searchParams.set("redirectTo", path);
-      log.debug("OTP required; redirecting to verify-totp", { redirectTo: path });
-      return NextResponse.redirect(url);
-    }
+  // OTP gating: redirect to /verify-totp and preserve intended path (no PII in URL)
+  if (TokenService.requiresOTP(decodedPayload)) {
+    const url = req.nextUrl.clone();
+    url.pathname = "/verify-totp";
+    url.searchParams.set("redirectTo", path);
+    log.debug("OTP required; redirecting to verify-totp", { redirectTo: path });
+    return withCookies(NextResponse.redirect(url), refreshedCookies);
+  }
 
-    // Admin routes
-    if (path.startsWith("/admindashboard")) {
-      const role = String((decodedPayload as any).role || "").toLowerCase();
-      if (role !== "admin") {
-        log.debug("Admin route access denied; redirecting to home", { role });
-        return NextResponse.redirect(new URL("/", req.url));
-      }
+  // Accounts that must enroll TOTP (bootstrap admins) are held at the setup page
+  if (decodedPayload.totpEnrollmentRequired && path !== TOTP_ENROLLMENT_PATH) {
+    const url = req.nextUrl.clone();
+    url.pathname = TOTP_ENROLLMENT_PATH;
+    url.search = "";
+    url.searchParams.set("enrollTotp", "required");
+    log.debug("TOTP enrollment required; redirecting", { from: path });
+    return withCookies(NextResponse.redirect(url), refreshedCookies);
+  }
+
+  // Admin routes
+  if (path.startsWith("/admindashboard")) {
+    if (!can(decodedPayload, "admin:access")) {
+      log.debug("Admin route access denied; redirecting to home", { role: decodedPayload.role });
+      return withCookies(NextResponse.redirect(new URL("/", req.url)), refreshedCookies);
     }
+  }
 
-    // Forward user payload header
-    const requestHeaders = new Headers(req.headers);
-    requestHeaders.set("x-user-payload", JSON.stringify(decodedPayload));
-    log.debug("Auth passed; forwarding request");
+  // Forward user payload header
+  const requestHeaders = new Headers(req.headers);
+  requestHeaders.set("x-user-payload", JSON.stringify(decodedPayload));
+  log.debug("Auth passed; forwarding request");
 
-    return NextResponse.next({
+  return withCookies(
+    NextResponse.next({
       request: { headers: requestHeaders },
+    }),
+    refreshedCookies
+  );
+}
+
+// Calls the refresh endpoint on behalf of the browser. Middleware runs on the
+// Edge runtime and cannot reach the database, so rotation stays in the API route.
+async function refreshSession(
+  req: NextRequest
+): Promise<{ accessToken: string; setCookies: string[] } | null> {
+  if (!req.cookies.get("refreshToken")?.value) return null;
+
+  try {
+    const res = await fetch(new URL("/api/auth/refresh", req.url), {
+      method: "POST",
+      headers: {
+        cookie: req.headers.get("cookie") || "",
+        "user-agent": req.headers.get("user-agent") || "",
+        "x-forwarded-for": req.headers.get("x-forwarded-for") || "",
+      },
+      cache: "no-store",
     });
-  } catch (error) {
-    const url = req.nextUrl.clone();
-    url.pathname = "/signin";
-    url.searchParams.set("sessionExpired", "true");
-    log.debug("Token verification failed; redirecting to signin");
-    return NextResponse.redirect(url);
+    if (!res.ok) return null;
+
+    const setCookies = res.headers.getSetCookie();
+    const accessCookie = setCookies.find((c) => c.startsWith("accessToken="));
+    const accessToken = accessCookie?.split(";")[0].slice("accessToken=".length);
+    if (!accessToken) return null;
+
+    return { accessToken: decodeURIComponent(accessToken), setCookies };
+  } catch {
+    return null;
+  }
+}
+
+// Asks /api/auth/token-status whether the access token was revoked (logout,
+// suspension, password reset). Answers are cached briefly per token; if the
+// check itself fails we fall back to the signature check alone.
+async function isAccessTokenRevoked(
+  req: NextRequest,
+  token: string,
+  payload: TokenPayload
+): Promise<boolean> {
+  const key = payload.jti || token;
+  const cached = revocationCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.revoked;
+
+  try {
+    const res = await fetch(new URL("/api/auth/token-status", req.url), {
+      headers: { cookie: `accessToken=${token}` },
+      cache: "no-store",
+    });
+    if (res.status !== 200 && res.status !== 401) return false;
+
+    const revoked = res.status === 401;
+    if (revocationCache.size >= REVOCATION_CACHE_MAX_ENTRIES) {
+      revocationCache.clear();
+    }
+    revocationCache.set(key, { revoked, expiresAt: Date.now() + REVOCATION_CACHE_TTL_MS });
+    return revoked;
+  } catch {
+    return false;
+  }
+}
+
+// Relay Set-Cookie headers from the refresh endpoint to the browser
+function withCookies(res: NextResponse, setCookies: string[]): NextResponse {
+  for (const cookie of setCookies) {
+    res.headers.append("set-cookie", cookie);
   }
+  return res;
 }
 
 export const config = {
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "OtpPurpose" AS ENUM ('LOGIN', 'REGISTER', 'PASSWORD_RESET');
+
+-- CreateTable
+CREATE TABLE "otp_codes" (
+    "id" TEXT NOT NULL,
+    "identifier" TEXT NOT NULL,
+    "purpose" "OtpPurpose" NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "otp_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "otp_codes_expiresAt_idx" ON "otp_codes"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "otp_codes_identifier_purpose_key" ON "otp_codes"("identifier", "purpose");
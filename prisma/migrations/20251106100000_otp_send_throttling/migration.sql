@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "otp_send_events" (
+    "id" TEXT NOT NULL,
+    "identifier" TEXT NOT NULL,
+    "purpose" "OtpPurpose" NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "otp_send_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "otp_send_events_identifier_createdAt_idx" ON "otp_send_events"("identifier", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "otp_send_events_ipAddress_createdAt_idx" ON "otp_send_events"("ipAddress", "createdAt");
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "tokensValidAfter" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "revoked_tokens" (
+    "jti" TEXT NOT NULL,
+    "userId" TEXT,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "revoked_tokens_pkey" PRIMARY KEY ("jti")
+);
+
+-- CreateIndex
+CREATE INDEX "revoked_tokens_expiresAt_idx" ON "revoked_tokens"("expiresAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "totpEnrollmentRequired" BOOLEAN NOT NULL DEFAULT false;
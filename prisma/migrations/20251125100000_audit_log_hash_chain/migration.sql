@@ -0,0 +1,14 @@
+-- DropForeignKey
+ALTER TABLE "audit_logs" DROP CONSTRAINT "audit_logs_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN     "hash" TEXT,
+ADD COLUMN     "prevHash" TEXT,
+ADD COLUMN     "recordedUserId" TEXT,
+ADD COLUMN     "seq" SERIAL NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_logs_seq_key" ON "audit_logs"("seq");
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
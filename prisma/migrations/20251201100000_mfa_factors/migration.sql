@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "MfaFactorType" AS ENUM ('TOTP', 'SECURITY_KEY');
+
+-- CreateTable
+CREATE TABLE "mfa_factors" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "MfaFactorType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "secret" TEXT,
+    "credentialId" TEXT,
+    "publicKey" BYTEA,
+    "signCount" BIGINT NOT NULL DEFAULT 0,
+    "transports" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "mfa_factors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mfa_factors_credentialId_key" ON "mfa_factors"("credentialId");
+
+-- CreateIndex
+CREATE INDEX "mfa_factors_userId_idx" ON "mfa_factors"("userId");
+
+-- AddForeignKey
+ALTER TABLE "mfa_factors" ADD CONSTRAINT "mfa_factors_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each enrolled authenticator app into the factor table
+INSERT INTO "mfa_factors" ("id", "userId", "type", "name", "isDefault", "secret", "transports", "createdAt", "lastUsedAt")
+SELECT gen_random_uuid()::text, "id", 'TOTP', 'Authenticator app', true, "totpSecret", ARRAY[]::TEXT[],
+       COALESCE("totpEnabledAt", CURRENT_TIMESTAMP), "lastTOTPUsedAt"
+FROM "users"
+WHERE "isTOTPEnabled" = true AND "totpSecret" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "users_totpSecret_key";
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "totpSecret";
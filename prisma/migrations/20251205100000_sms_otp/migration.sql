@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "OtpPurpose" ADD VALUE 'PHONE_VERIFICATION';
+
+-- CreateEnum
+CREATE TYPE "OtpChannel" AS ENUM ('EMAIL', 'SMS');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "otpChannel" "OtpChannel" NOT NULL DEFAULT 'EMAIL',
+ADD COLUMN     "phoneNumber" TEXT,
+ADD COLUMN     "phoneVerifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_phoneNumber_key" ON "users"("phoneNumber");
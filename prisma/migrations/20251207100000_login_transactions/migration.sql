@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "LoginFlow" AS ENUM ('SIGN_IN', 'PASSWORD_RESET');
+
+-- CreateEnum
+CREATE TYPE "LoginStep" AS ENUM ('CAPTCHA', 'PASSWORD', 'OAUTH', 'EMAIL_OTP', 'TOTP');
+
+-- CreateTable
+CREATE TABLE "login_transactions" (
+    "id" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "flow" "LoginFlow" NOT NULL,
+    "method" TEXT,
+    "requiredSteps" "LoginStep"[],
+    "completedSteps" "LoginStep"[],
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "login_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- Outstanding links were bound to a browser cookie that no longer exists
+DELETE FROM "magic_links";
+
+-- AlterTable
+ALTER TABLE "magic_links" DROP COLUMN "bindingHash",
+ADD COLUMN     "transactionId" TEXT NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "login_transactions_tokenHash_key" ON "login_transactions"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "login_transactions_userId_idx" ON "login_transactions"("userId");
+
+-- CreateIndex
+CREATE INDEX "login_transactions_expiresAt_idx" ON "login_transactions"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "magic_links_transactionId_idx" ON "magic_links"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "login_transactions" ADD CONSTRAINT "login_transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "magic_links" ADD CONSTRAINT "magic_links_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "login_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,168 @@
+// tests/admin-route-guard.test.ts
+// Calls the admin route handlers the way Next does and checks that the route
+// guard rejects every caller that isn't a fully signed-in admin. Every handler
+// under app/api/admin is discovered from disk, so a new route fails here until
+// it is wrapped in withRouteGuard.
+import fs from "fs";
+import path from "path";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { exportJWK, generateKeyPair } from "jose";
+import { ALL_PERMISSIONS } from "@/lib/permissions";
+
+const db = vi.hoisted(() => ({
+  user: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+  },
+  revokedToken: { findUnique: vi.fn() },
+  role: { findMany: vi.fn() },
+  systemSetting: { findUnique: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+vi.mock("@/app/generated/prisma", () => ({
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { TokenService } from "@/lib/jwt";
+import { GET as listUsers } from "@/app/api/admin/users/route";
+import { GET as listRoles } from "@/app/api/admin/roles/route";
+import { GET as getSettings } from "@/app/api/admin/settings/route";
+
+type Handler = (request: NextRequest, context: { params: Promise<Record<string, string>> }) => Promise<Response>;
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+const ADMIN_API_DIR = path.resolve(__dirname, "../app/api/admin");
+
+function findRouteFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(full);
+    return entry.name === "route.ts" ? [full] : [];
+  });
+}
+
+// [name, method, path, handler] for every exported method of every admin route
+const ADMIN_HANDLERS: [string, string, string, Handler][] = [];
+for (const file of findRouteFiles(ADMIN_API_DIR).sort()) {
+  const route = path.relative(path.resolve(__dirname, ".."), path.dirname(file)).split(path.sep).join("/");
+  const urlPath = `/${route.replace(/^app\//, "")}`.replace(/\[(\w+)\]/g, "test-$1");
+  const mod: Record<string, unknown> = await import(file);
+  for (const method of HTTP_METHODS) {
+    if (typeof mod[method] === "function") {
+      ADMIN_HANDLERS.push([`${method} ${urlPath}`, method, urlPath, mod[method] as Handler]);
+    }
+  }
+}
+
+const ROUTES: [string, string, Handler][] = [
+  ["GET /api/admin/users", "/api/admin/users", listUsers as Handler],
+  ["GET /api/admin/roles", "/api/admin/roles", listRoles as Handler],
+  ["GET /api/admin/settings", "/api/admin/settings", getSettings as Handler],
+];
+
+const BASE_CLAIMS = {
+  email: "person@example.com",
+  username: "person@example.com",
+  isTOTPEnabled: false,
+};
+
+async function tokenFor(claims: Partial<Parameters<typeof TokenService.generateAccessToken>[0]>) {
+  const { token } = await TokenService.generateAccessToken({
+    userId: "user-1",
+    role: "USER",
+    permissions: [],
+    ...BASE_CLAIMS,
+    ...claims,
+  });
+  return token;
+}
+
+function call(handler: Handler, urlPath: string, token?: string, method = "GET") {
+  const headers = new Headers();
+  if (token) headers.set("cookie", `accessToken=${token}`);
+  const request = new NextRequest(`http://localhost${urlPath}`, { method, headers });
+  const params = Object.fromEntries([...urlPath.matchAll(/test-(\w+)/g)].map(([value, name]) => [name, value]));
+  return handler(request, { params: Promise.resolve(params) });
+}
+
+beforeAll(async () => {
+  const { privateKey } = await generateKeyPair("ES256", { extractable: true });
+  process.env.JWT_SIGNING_KEY = JSON.stringify({
+    ...(await exportJWK(privateKey)),
+    kid: "test-key",
+    alg: "ES256",
+  });
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.revokedToken.findUnique.mockResolvedValue(null);
+  db.user.findUnique.mockResolvedValue({ status: "ACTIVE", tokensValidAfter: null });
+  db.user.findMany.mockResolvedValue([]);
+  db.user.count.mockResolvedValue(0);
+  db.role.findMany.mockResolvedValue([]);
+  db.systemSetting.findUnique.mockResolvedValue(null);
+});
+
+describe.each(ROUTES)("%s", (_name, urlPath, handler) => {
+  it("rejects a request without a token", async () => {
+    const response = await call(handler, urlPath);
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects an invalid token", async () => {
+    const token = await tokenFor({ role: "ADMIN", permissions: ALL_PERMISSIONS });
+    const response = await call(handler, urlPath, `${token.slice(0, -4)}AAAA`);
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects a token still waiting for its one-time code", async () => {
+    const token = await tokenFor({
+      role: "ADMIN",
+      permissions: ALL_PERMISSIONS,
+      otpRequired: true,
+      otpVerified: false,
+    });
+    const response = await call(handler, urlPath, token);
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects a revoked token", async () => {
+    db.user.findUnique.mockResolvedValue({ status: "SUSPENDED", tokensValidAfter: null });
+    const token = await tokenFor({ role: "ADMIN", permissions: ALL_PERMISSIONS });
+    const response = await call(handler, urlPath, token);
+    expect(response.status).toBe(401);
+  });
+
+  it("forbids a USER-role token", async () => {
+    const token = await tokenFor({ role: "USER", permissions: [] });
+    const response = await call(handler, urlPath, token);
+    expect(response.status).toBe(403);
+  });
+
+  it("allows an ADMIN token", async () => {
+    const token = await tokenFor({ role: "ADMIN", permissions: ALL_PERMISSIONS });
+    const response = await call(handler, urlPath, token);
+    expect(response.status).toBe(200);
+  });
+});
+
+describe("every admin handler", () => {
+  it("is discovered", () => {
+    expect(ADMIN_HANDLERS.length).toBeGreaterThan(ROUTES.length);
+  });
+
+  it.each(ADMIN_HANDLERS)("%s rejects a request without a token", async (_name, method, urlPath, handler) => {
+    const response = await call(handler, urlPath, undefined, method);
+    expect(response.status).toBe(401);
+  });
+
+  it.each(ADMIN_HANDLERS)("%s forbids a token without the permission", async (_name, method, urlPath, handler) => {
+    const token = await tokenFor({ role: "USER", permissions: [] });
+    const response = await call(handler, urlPath, token, method);
+    expect(response.status).toBe(403);
+  });
+});
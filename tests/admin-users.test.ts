@@ -0,0 +1,26 @@
+// tests/admin-users.test.ts
+import { describe, expect, it } from "vitest";
+import { parseAdminUserQuery } from "@/lib/admin-users";
+
+function parse(query: string) {
+  return parseAdminUserQuery(new URLSearchParams(query));
+}
+
+describe("parseAdminUserQuery cursor", () => {
+  it("accepts a user id", () => {
+    const result = parse("cursor=clx2k9f0a0000qz8r5b1c2d3e");
+    expect(result.success && result.query.cursor).toBe("clx2k9f0a0000qz8r5b1c2d3e");
+  });
+
+  it("treats an empty cursor as the first page", () => {
+    const result = parse("cursor=");
+    expect(result.success && result.query.cursor).toBeUndefined();
+  });
+
+  it.each(["../etc", "a b", "x".repeat(65), "{\"id\":1}"])("rejects %j", (cursor) => {
+    expect(parse(`cursor=${encodeURIComponent(cursor)}`)).toEqual({
+      success: false,
+      error: "cursor is not a valid user id",
+    });
+  });
+});
@@ -0,0 +1,161 @@
+// tests/helpers/soft-authenticator.ts
+// A software authenticator that produces registration and authentication
+// responses the way a browser serializes them (lib/webauthn-browser.ts), so
+// lib/webauthn.ts can be checked against real signatures for each algorithm.
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from "crypto";
+import {
+  COSE_ALGORITHMS,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+} from "@/lib/webauthn";
+
+export type SoftAlgorithm = keyof typeof COSE_ALGORITHMS;
+
+export const FLAGS = {
+  userPresent: 0x01,
+  userVerified: 0x04,
+  backedUp: 0x10,
+  attestedCredential: 0x40,
+} as const;
+
+// Minimal CBOR encoder for the subset authenticators emit
+
+type CborInput = number | string | Buffer | CborInput[] | Map<CborInput, CborInput>;
+
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  if (length < 0x10000) {
+    const head = Buffer.alloc(3);
+    head[0] = (major << 5) | 25;
+    head.writeUInt16BE(length, 1);
+    return head;
+  }
+  const head = Buffer.alloc(5);
+  head[0] = (major << 5) | 26;
+  head.writeUInt32BE(length, 1);
+  return head;
+}
+
+export function encodeCbor(value: CborInput): Buffer {
+  if (typeof value === "number") {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    return Buffer.concat([cborHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) return Buffer.concat([cborHead(2, value.length), value]);
+  if (Array.isArray(value)) return Buffer.concat([cborHead(4, value.length), ...value.map(encodeCbor)]);
+  return Buffer.concat([
+    cborHead(5, value.size),
+    ...[...value].flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+  ]);
+}
+
+function generateKey(alg: SoftAlgorithm): KeyObject {
+  switch (alg) {
+    case "ES256":
+      return generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey;
+    case "EdDSA":
+      return generateKeyPairSync("ed25519").privateKey;
+    case "RS256":
+      return generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey;
+  }
+}
+
+function coseKey(alg: SoftAlgorithm, privateKey: KeyObject): Buffer {
+  const jwk = privateKey.export({ format: "jwk" });
+  const b = (v: string | undefined) => Buffer.from(v ?? "", "base64url");
+  switch (alg) {
+    case "ES256":
+      return encodeCbor(new Map<CborInput, CborInput>([[1, 2], [3, COSE_ALGORITHMS.ES256], [-1, 1], [-2, b(jwk.x)], [-3, b(jwk.y)]]));
+    case "EdDSA":
+      return encodeCbor(new Map<CborInput, CborInput>([[1, 1], [3, COSE_ALGORITHMS.EdDSA], [-1, 6], [-2, b(jwk.x)]]));
+    case "RS256":
+      return encodeCbor(new Map<CborInput, CborInput>([[1, 3], [3, COSE_ALGORITHMS.RS256], [-1, b(jwk.n)], [-2, b(jwk.e)]]));
+  }
+}
+
+export interface CeremonyOptions {
+  challenge: string;
+  origin: string;
+  rpId: string;
+  flags?: number;
+  signCount?: number;
+}
+
+function clientData(type: string, options: CeremonyOptions): string {
+  const json = JSON.stringify({ type, challenge: options.challenge, origin: options.origin, crossOrigin: false });
+  return Buffer.from(json, "utf8").toString("base64url");
+}
+
+function authenticatorHeader(options: CeremonyOptions, defaultFlags: number): Buffer {
+  const header = Buffer.alloc(37);
+  createHash("sha256").update(options.rpId).digest().copy(header, 0);
+  header[32] = options.flags ?? defaultFlags;
+  header.writeUInt32BE(options.signCount ?? 0, 33);
+  return header;
+}
+
+export class SoftAuthenticator {
+  readonly credentialId = randomBytes(16);
+  readonly publicKey: Buffer;
+  private readonly privateKey: KeyObject;
+
+  constructor(readonly alg: SoftAlgorithm) {
+    this.privateKey = generateKey(alg);
+    this.publicKey = coseKey(alg, this.privateKey);
+  }
+
+  register(options: CeremonyOptions): RegistrationResponseJSON {
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      authenticatorHeader(options, FLAGS.userPresent | FLAGS.userVerified | FLAGS.attestedCredential),
+      Buffer.alloc(16), // AAGUID
+      idLength,
+      this.credentialId,
+      this.publicKey,
+    ]);
+    const attestationObject = encodeCbor(
+      new Map<CborInput, CborInput>([["fmt", "none"], ["attStmt", new Map()], ["authData", authData]])
+    );
+
+    return {
+      id: this.credentialId.toString("base64url"),
+      type: "public-key",
+      response: {
+        clientDataJSON: clientData("webauthn.create", options),
+        attestationObject: attestationObject.toString("base64url"),
+        transports: ["internal"],
+      },
+    };
+  }
+
+  authenticate(options: CeremonyOptions): AuthenticationResponseJSON {
+    const authData = authenticatorHeader(options, FLAGS.userPresent | FLAGS.userVerified);
+    const clientDataJSON = clientData("webauthn.get", options);
+    const signed = Buffer.concat([
+      authData,
+      createHash("sha256").update(Buffer.from(clientDataJSON, "base64url")).digest(),
+    ]);
+    const signature =
+      this.alg === "EdDSA"
+        ? sign(null, signed, this.privateKey)
+        : this.alg === "ES256"
+          ? sign("sha256", signed, { key: this.privateKey, dsaEncoding: "der" })
+          : sign("sha256", signed, this.privateKey);
+
+    return {
+      id: this.credentialId.toString("base64url"),
+      type: "public-key",
+      response: {
+        clientDataJSON,
+        authenticatorData: authData.toString("base64url"),
+        signature: signature.toString("base64url"),
+        userHandle: null,
+      },
+    };
+  }
+}
@@ -0,0 +1,232 @@
+// tests/webauthn.test.ts
+// Registration and authentication ceremonies against lib/webauthn.ts, signed
+// by a software authenticator for each supported algorithm.
+import { describe, expect, it } from "vitest";
+import {
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type CeremonyExpectations,
+  type RegistrationResponseJSON,
+} from "@/lib/webauthn";
+import { FLAGS, SoftAuthenticator, encodeCbor, type CeremonyOptions } from "./helpers/soft-authenticator";
+
+const ORIGIN = "https://app.example.com";
+const RP_ID = "app.example.com";
+const CHALLENGE = "c2lnbi1pbi1jaGFsbGVuZ2U";
+
+const CEREMONY: CeremonyOptions = { challenge: CHALLENGE, origin: ORIGIN, rpId: RP_ID };
+
+const EXPECTED: CeremonyExpectations = {
+  challenge: CHALLENGE,
+  origins: [ORIGIN],
+  rpId: RP_ID,
+  requireUserVerification: true,
+};
+
+function withAuthenticatorData(
+  response: AuthenticationResponseJSON,
+  authenticatorData: Buffer
+): AuthenticationResponseJSON {
+  return { ...response, response: { ...response.response, authenticatorData: authenticatorData.toString("base64url") } };
+}
+
+function withAttestationObject(response: RegistrationResponseJSON, attestationObject: Buffer): RegistrationResponseJSON {
+  return { ...response, response: { ...response.response, attestationObject: attestationObject.toString("base64url") } };
+}
+
+describe.each(["ES256", "EdDSA", "RS256"] as const)("%s credentials", (alg) => {
+  const authenticator = new SoftAuthenticator(alg);
+
+  it("verifies a registration", () => {
+    const result = verifyRegistrationResponse(authenticator.register(CEREMONY), EXPECTED);
+    expect(result).toEqual({
+      success: true,
+      credentialId: authenticator.credentialId.toString("base64url"),
+      publicKey: authenticator.publicKey,
+      signCount: 0,
+      backedUp: false,
+    });
+  });
+
+  it("verifies an assertion with the registered key", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, signCount: 8 });
+    const result = verifyAuthenticationResponse(response, { publicKey: authenticator.publicKey, signCount: 7 }, EXPECTED);
+    expect(result).toEqual({ success: true, signCount: 8, backedUp: false });
+  });
+
+  it("accepts a zero counter from an authenticator that doesn't keep one", () => {
+    const response = authenticator.authenticate(CEREMONY);
+    const result = verifyAuthenticationResponse(response, { publicKey: authenticator.publicKey, signCount: 0 }, EXPECTED);
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a tampered signature", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, signCount: 1 });
+    const signature = Buffer.from(response.response.signature, "base64url");
+    signature[signature.length - 1] ^= 0x01;
+    const tampered = { ...response, response: { ...response.response, signature: signature.toString("base64url") } };
+
+    const result = verifyAuthenticationResponse(tampered, { publicKey: authenticator.publicKey, signCount: 0 }, EXPECTED);
+    expect(result).toEqual({ success: false, reason: "invalid_signature" });
+  });
+});
+
+describe("registration checks", () => {
+  const authenticator = new SoftAuthenticator("ES256");
+
+  it("rejects a different origin", () => {
+    const response = authenticator.register({ ...CEREMONY, origin: "https://evil.example" });
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "origin_mismatch" });
+  });
+
+  it("rejects a different challenge", () => {
+    const response = authenticator.register({ ...CEREMONY, challenge: "b3RoZXI" });
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "challenge_mismatch" });
+  });
+
+  it("rejects an assertion presented as a registration", () => {
+    const assertion = authenticator.authenticate(CEREMONY);
+    const response = authenticator.register(CEREMONY);
+    response.response.clientDataJSON = assertion.response.clientDataJSON;
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "wrong_ceremony" });
+  });
+
+  it("rejects a credential created for another relying party", () => {
+    const response = authenticator.register({ ...CEREMONY, rpId: "evil.example" });
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "rp_id_mismatch" });
+  });
+
+  it("rejects a registration without user presence", () => {
+    const response = authenticator.register({ ...CEREMONY, flags: FLAGS.userVerified | FLAGS.attestedCredential });
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "user_not_present" });
+  });
+
+  it("rejects a registration without user verification when it is required", () => {
+    const response = authenticator.register({ ...CEREMONY, flags: FLAGS.userPresent | FLAGS.attestedCredential });
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "user_not_verified" });
+  });
+
+  it("rejects a response whose id isn't the attested credential", () => {
+    const response = { ...authenticator.register(CEREMONY), id: "b3RoZXItY3JlZGVudGlhbA" };
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "credential_mismatch" });
+  });
+
+  it("rejects a registration without attested credential data", () => {
+    const response = authenticator.register({ ...CEREMONY, flags: FLAGS.userPresent | FLAGS.userVerified });
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "malformed_response" });
+  });
+});
+
+describe("authentication checks", () => {
+  const authenticator = new SoftAuthenticator("ES256");
+  const stored = { publicKey: authenticator.publicKey, signCount: 5 };
+
+  it("rejects a different origin", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, origin: "https://evil.example", signCount: 6 });
+    expect(verifyAuthenticationResponse(response, stored, EXPECTED)).toEqual({ success: false, reason: "origin_mismatch" });
+  });
+
+  it("rejects an assertion for another relying party", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, rpId: "evil.example", signCount: 6 });
+    expect(verifyAuthenticationResponse(response, stored, EXPECTED)).toEqual({ success: false, reason: "rp_id_mismatch" });
+  });
+
+  it("rejects an assertion without user presence", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, flags: FLAGS.userVerified, signCount: 6 });
+    expect(verifyAuthenticationResponse(response, stored, EXPECTED)).toEqual({ success: false, reason: "user_not_present" });
+  });
+
+  it("rejects an assertion without user verification when it is required", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, flags: FLAGS.userPresent, signCount: 6 });
+    expect(verifyAuthenticationResponse(response, stored, EXPECTED)).toEqual({ success: false, reason: "user_not_verified" });
+  });
+
+  it("accepts an assertion without user verification when it isn't required", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, flags: FLAGS.userPresent, signCount: 6 });
+    const result = verifyAuthenticationResponse(response, stored, { ...EXPECTED, requireUserVerification: false });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects flags flipped after signing", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, flags: FLAGS.userPresent, signCount: 6 });
+    const authData = Buffer.from(response.response.authenticatorData, "base64url");
+    authData[32] |= FLAGS.userVerified;
+    const result = verifyAuthenticationResponse(withAuthenticatorData(response, authData), stored, EXPECTED);
+    expect(result).toEqual({ success: false, reason: "invalid_signature" });
+  });
+
+  it.each([5, 3])("rejects a counter of %i after 5", (signCount) => {
+    const response = authenticator.authenticate({ ...CEREMONY, signCount });
+    expect(verifyAuthenticationResponse(response, stored, EXPECTED)).toEqual({ success: false, reason: "counter_regression" });
+  });
+
+  it("rejects a counter reset to zero", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, signCount: 0 });
+    expect(verifyAuthenticationResponse(response, stored, EXPECTED)).toEqual({ success: false, reason: "counter_regression" });
+  });
+
+  it("rejects an assertion signed by another key", () => {
+    const other = new SoftAuthenticator("ES256");
+    const response = other.authenticate({ ...CEREMONY, signCount: 6 });
+    expect(verifyAuthenticationResponse(response, stored, EXPECTED)).toEqual({ success: false, reason: "invalid_signature" });
+  });
+});
+
+describe("malformed input", () => {
+  const authenticator = new SoftAuthenticator("ES256");
+
+  it("rejects every truncation of an attestation object without throwing", () => {
+    const response = authenticator.register(CEREMONY);
+    const attestation = Buffer.from(response.response.attestationObject, "base64url");
+    for (let length = 0; length < attestation.length; length++) {
+      const result = verifyRegistrationResponse(withAttestationObject(response, attestation.subarray(0, length)), EXPECTED);
+      expect(result).toEqual({ success: false, reason: "malformed_response" });
+    }
+  });
+
+  it("rejects every truncation of authenticator data without throwing", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, signCount: 1 });
+    const authData = Buffer.from(response.response.authenticatorData, "base64url");
+    const stored = { publicKey: authenticator.publicKey, signCount: 0 };
+    for (let length = 0; length < authData.length; length++) {
+      const result = verifyAuthenticationResponse(withAuthenticatorData(response, authData.subarray(0, length)), stored, EXPECTED);
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it("rejects a truncated stored public key without throwing", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, signCount: 1 });
+    for (let length = 0; length < authenticator.publicKey.length; length++) {
+      const stored = { publicKey: authenticator.publicKey.subarray(0, length), signCount: 0 };
+      expect(verifyAuthenticationResponse(response, stored, EXPECTED).success).toBe(false);
+    }
+  });
+
+  it.each([
+    ["an indefinite-length map", Buffer.from([0xbf, 0x63, 0x66, 0x6d, 0x74, 0x64, 0x6e, 0x6f, 0x6e, 0x65, 0xff])],
+    ["a reserved additional-information value", Buffer.from([0x1c])],
+    ["an unsupported simple value", Buffer.from([0xf8, 0x20])],
+    ["a length larger than the input", Buffer.from([0x5a, 0xff, 0xff, 0xff, 0xff, 0x00])],
+    ["a 64-bit length beyond safe integers", Buffer.from([0x9b, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff])],
+    ["deeply nested arrays", Buffer.alloc(200_000, 0x81)],
+    ["a map whose authData isn't a byte string", encodeCbor(new Map([["authData", "not bytes"]]))],
+    ["an array instead of a map", encodeCbor([1, 2, 3])],
+  ])("rejects %s", (_name, attestation) => {
+    const response = withAttestationObject(authenticator.register(CEREMONY), attestation);
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "malformed_response" });
+  });
+
+  it("rejects client data that isn't JSON", () => {
+    const response = authenticator.register(CEREMONY);
+    response.response.clientDataJSON = Buffer.from("{not json").toString("base64url");
+    expect(verifyRegistrationResponse(response, EXPECTED)).toEqual({ success: false, reason: "malformed_response" });
+  });
+
+  it("rejects a COSE key for an unsupported algorithm", () => {
+    const response = authenticator.authenticate({ ...CEREMONY, signCount: 1 });
+    const es384 = encodeCbor(new Map<number, number | Buffer>([[1, 2], [3, -35], [-1, 2], [-2, Buffer.alloc(48)], [-3, Buffer.alloc(48)]]));
+    const result = verifyAuthenticationResponse(response, { publicKey: es384, signCount: 0 }, EXPECTED);
+    expect(result).toEqual({ success: false, reason: "unsupported_algorithm" });
+  });
+});